@@ -13,12 +13,15 @@ import { FrontendApplicationContribution, WebSocketConnectionProvider } from '@t
 
 import { CheGitClientImpl } from './git-config-changes-tracker';
 import { CheTheiaStatusBarFrontendContribution } from './status-bar-contribution';
+import { CommandContribution } from '@theia/core/lib/common';
 import { ContainerModule } from 'inversify';
+import { PersonalAccessTokenContribution } from './personal-access-token-contribution';
 import { bindGitPreferences } from './git-preferences';
 
 export default new ContainerModule(bind => {
   bindGitPreferences(bind);
   bind(FrontendApplicationContribution).to(CheTheiaStatusBarFrontendContribution).inSingletonScope();
+  bind(CommandContribution).to(PersonalAccessTokenContribution).inSingletonScope();
   bind(CheGitClientImpl).toSelf().inSingletonScope();
   bind(CheGitClient).toService(CheGitClientImpl);
   bind(CheGitService)
@@ -0,0 +1,119 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import { Command, CommandContribution, CommandRegistry, MessageService } from '@theia/core/lib/common';
+import { OAuthService, PersonalAccessToken } from '@eclipse-che/theia-remote-api/lib/common/oauth-service';
+import { QuickInputService, QuickPickItem } from '@theia/core/lib/browser';
+import { inject, injectable } from 'inversify';
+
+export const MANAGE_PERSONAL_ACCESS_TOKENS: Command = {
+  id: 'che.git.personalAccessTokens',
+  category: 'Git',
+  label: 'Add, Replace or Delete a Personal Access Token...',
+};
+
+interface TokenActionItem extends QuickPickItem {
+  run: () => Promise<void>;
+}
+
+/**
+ * Manage the personal access tokens used to authenticate to the SCM servers, like GitHub,
+ * they are stored as secrets of the user namespace and mounted into the new workspaces.
+ */
+@injectable()
+export class PersonalAccessTokenContribution implements CommandContribution {
+  @inject(OAuthService)
+  protected readonly oAuthService: OAuthService;
+
+  @inject(QuickInputService)
+  protected readonly quickInputService: QuickInputService;
+
+  @inject(MessageService)
+  protected readonly messageService: MessageService;
+
+  registerCommands(commands: CommandRegistry): void {
+    commands.registerCommand(MANAGE_PERSONAL_ACCESS_TOKENS, {
+      execute: () => this.manageTokens(),
+    });
+  }
+
+  async manageTokens(): Promise<void> {
+    let tokens: PersonalAccessToken[];
+    try {
+      tokens = await this.oAuthService.getPersonalAccessTokens();
+    } catch (error) {
+      this.messageService.error(error.message);
+      return;
+    }
+
+    const items: TokenActionItem[] = tokens.map(token => ({
+      label: token.scmUrl,
+      description: token.provider,
+      run: () => this.pickTokenAction(token),
+    }));
+    items.push({ label: 'Add a personal access token...', run: () => this.addToken() });
+    const item = await this.quickInputService.showQuickPick(items, {
+      placeholder: 'Select the SCM server of the token',
+    });
+    if (item) {
+      await item.run();
+    }
+  }
+
+  protected async pickTokenAction(token: PersonalAccessToken): Promise<void> {
+    const items: TokenActionItem[] = [
+      { label: 'Replace the token', run: () => this.setToken(token.scmUrl) },
+      { label: 'Delete the token', run: () => this.deleteToken(token.scmUrl) },
+    ];
+    const item = await this.quickInputService.showQuickPick(items, { placeholder: token.scmUrl });
+    if (item) {
+      await item.run();
+    }
+  }
+
+  protected async addToken(): Promise<void> {
+    const scmUrl = await this.quickInputService.input({
+      prompt: 'URL of the SCM server',
+      placeHolder: 'https://github.com',
+      validateInput: async value => (value.trim() ? undefined : 'The URL is required'),
+    });
+    if (scmUrl) {
+      await this.setToken(scmUrl.trim());
+    }
+  }
+
+  protected async setToken(scmUrl: string): Promise<void> {
+    const value = await this.quickInputService.input({
+      prompt: `Personal access token of ${scmUrl}`,
+      password: true,
+      validateInput: async input => (input.trim() ? undefined : 'The token is required'),
+    });
+    if (!value) {
+      return;
+    }
+    try {
+      const token = await this.oAuthService.setPersonalAccessToken(scmUrl, value.trim());
+      this.messageService.info(
+        `The personal access token of ${token.scmUrl} is stored, it is used by the workspaces started from now on.`
+      );
+    } catch (error) {
+      this.messageService.error(error.message);
+    }
+  }
+
+  protected async deleteToken(scmUrl: string): Promise<void> {
+    try {
+      await this.oAuthService.deletePersonalAccessToken(scmUrl);
+      this.messageService.info(`The personal access token of ${scmUrl} is deleted.`);
+    } catch (error) {
+      this.messageService.error(error.message);
+    }
+  }
+}
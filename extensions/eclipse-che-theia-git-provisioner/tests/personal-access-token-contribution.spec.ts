@@ -0,0 +1,132 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { Container } from 'inversify';
+import { MessageService } from '@theia/core/lib/common';
+import { OAuthService } from '@eclipse-che/theia-remote-api/lib/common/oauth-service';
+import { PersonalAccessTokenContribution } from '../src/browser/personal-access-token-contribution';
+import { QuickInputService } from '@theia/core/lib/browser';
+
+describe('Test PersonalAccessTokenContribution', () => {
+  const oAuthService = {
+    getPersonalAccessTokens: jest.fn(),
+    setPersonalAccessToken: jest.fn(),
+    deletePersonalAccessToken: jest.fn(),
+  };
+  const quickInputService = { showQuickPick: jest.fn(), input: jest.fn() };
+  const messageService = { info: jest.fn(), error: jest.fn() };
+
+  let personalAccessTokenContribution: PersonalAccessTokenContribution;
+
+  /** Selects the item with the given label in the next quick pick. */
+  function pick(label: string): void {
+    quickInputService.showQuickPick.mockImplementationOnce(async (items: any[]) =>
+      items.find(item => item.label === label)
+    );
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    oAuthService.getPersonalAccessTokens.mockResolvedValue([{ scmUrl: 'https://github.com', provider: 'github' }]);
+
+    const container = new Container();
+    container.bind(OAuthService).toConstantValue(oAuthService as any);
+    container.bind(QuickInputService).toConstantValue(quickInputService as any);
+    container.bind(MessageService).toConstantValue(messageService as any);
+    container.bind(PersonalAccessTokenContribution).toSelf().inSingletonScope();
+    personalAccessTokenContribution = container.get(PersonalAccessTokenContribution);
+  });
+
+  test('list the tokens', async () => {
+    await personalAccessTokenContribution.manageTokens();
+
+    expect(quickInputService.showQuickPick).toBeCalledTimes(1);
+    const items = quickInputService.showQuickPick.mock.calls[0][0];
+    expect(items.map((item: any) => [item.label, item.description])).toEqual([
+      ['https://github.com', 'github'],
+      ['Add a personal access token...', undefined],
+    ]);
+    expect(oAuthService.setPersonalAccessToken).not.toBeCalled();
+    expect(oAuthService.deletePersonalAccessToken).not.toBeCalled();
+  });
+
+  test('add a token', async () => {
+    pick('Add a personal access token...');
+    quickInputService.input.mockResolvedValueOnce(' https://gitlab.com ').mockResolvedValueOnce(' gitlab-token ');
+    oAuthService.setPersonalAccessToken.mockResolvedValue({ scmUrl: 'https://gitlab.com', provider: 'gitlab' });
+
+    await personalAccessTokenContribution.manageTokens();
+
+    expect(quickInputService.input.mock.calls[1][0]).toMatchObject({
+      prompt: 'Personal access token of https://gitlab.com',
+      password: true,
+    });
+    expect(oAuthService.setPersonalAccessToken).toBeCalledWith('https://gitlab.com', 'gitlab-token');
+    expect(messageService.info).toBeCalledWith(
+      'The personal access token of https://gitlab.com is stored, it is used by the workspaces started from now on.'
+    );
+  });
+
+  test('replace a token', async () => {
+    pick('https://github.com');
+    pick('Replace the token');
+    quickInputService.input.mockResolvedValueOnce('new-token');
+    oAuthService.setPersonalAccessToken.mockResolvedValue({ scmUrl: 'https://github.com', provider: 'github' });
+
+    await personalAccessTokenContribution.manageTokens();
+
+    expect(oAuthService.setPersonalAccessToken).toBeCalledWith('https://github.com', 'new-token');
+    expect(messageService.error).not.toBeCalled();
+  });
+
+  test('delete a token', async () => {
+    pick('https://github.com');
+    pick('Delete the token');
+
+    await personalAccessTokenContribution.manageTokens();
+
+    expect(oAuthService.deletePersonalAccessToken).toBeCalledWith('https://github.com');
+    expect(messageService.info).toBeCalledWith('The personal access token of https://github.com is deleted.');
+  });
+
+  test('cancel the input of a token', async () => {
+    pick('https://github.com');
+    pick('Replace the token');
+    quickInputService.input.mockResolvedValueOnce(undefined);
+
+    await personalAccessTokenContribution.manageTokens();
+
+    expect(oAuthService.setPersonalAccessToken).not.toBeCalled();
+    expect(messageService.info).not.toBeCalled();
+  });
+
+  test('report the failures', async () => {
+    oAuthService.getPersonalAccessTokens.mockRejectedValueOnce(new Error('Unable to list the personal access tokens.'));
+    await personalAccessTokenContribution.manageTokens();
+    expect(quickInputService.showQuickPick).not.toBeCalled();
+    expect(messageService.error).toBeCalledWith('Unable to list the personal access tokens.');
+
+    pick('Add a personal access token...');
+    quickInputService.input.mockResolvedValueOnce('https://git hub').mockResolvedValueOnce('token');
+    oAuthService.setPersonalAccessToken.mockRejectedValue(new Error('Invalid SCM server URL https://git hub'));
+    await personalAccessTokenContribution.manageTokens();
+    expect(messageService.error).toBeCalledWith('Invalid SCM server URL https://git hub');
+
+    pick('https://github.com');
+    pick('Delete the token');
+    oAuthService.deletePersonalAccessToken.mockRejectedValue(new Error('Unable to delete the personal access token.'));
+    await personalAccessTokenContribution.manageTokens();
+    expect(messageService.error).toBeCalledWith('Unable to delete the personal access token.');
+    expect(messageService.info).not.toBeCalled();
+  });
+});
@@ -8,8 +8,9 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
+import { SshKeyService, SshKeyType } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
+
 import { CheSshMain } from '../common/che-protocol';
-import { SshKeyService } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
 import { che as cheApi } from '@eclipse-che/api';
 import { interfaces } from 'inversify';
 
@@ -20,8 +21,8 @@ export class CheSshMainImpl implements CheSshMain {
     this.sshkeyService = container.get<SshKeyService>(SshKeyService);
   }
 
-  async $generate(service: string, name: string): Promise<cheApi.ssh.SshPair> {
-    return this.sshkeyService.generate(service, name);
+  async $generate(service: string, name: string, type?: SshKeyType): Promise<cheApi.ssh.SshPair> {
+    return this.sshkeyService.generate(service, name, type);
   }
 
   async $create(sshKeyPair: cheApi.ssh.SshPair): Promise<void> {
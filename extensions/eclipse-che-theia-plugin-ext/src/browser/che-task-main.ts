@@ -10,7 +10,7 @@
 
 import { CheTask, CheTaskClient, CheTaskMain, CheTaskService, PLUGIN_RPC_CONTEXT } from '../common/che-protocol';
 import { Disposable, DisposableCollection } from '@theia/core/lib/common/disposable';
-import { TaskExitedEvent, TaskInfo, TaskJSONSchema, TaskStatusOptions } from '@eclipse-che/plugin';
+import { TaskExitedEvent, TaskInfo, TaskJSONSchema, TaskOutputEvent, TaskStatusOptions } from '@eclipse-che/plugin';
 import { injectable, interfaces } from 'inversify';
 
 import { RPCProtocol } from '@theia/plugin-ext/lib/common/rpc-protocol';
@@ -52,6 +52,10 @@ export class CheTaskMainImpl implements CheTaskMain, Disposable {
     return this.delegate.fireTaskExited(event);
   }
 
+  $fireTaskOutput(event: TaskOutputEvent): Promise<void> {
+    return this.delegate.fireTaskOutput(event);
+  }
+
   async $addTaskSubschema(schema: TaskJSONSchema): Promise<void> {
     return this.taskSchemaUpdater.addSubschema(schema);
   }
@@ -9,14 +9,17 @@
  ***********************************************************************/
 
 import { DevfileComponentStatus, DevfileService } from '@eclipse-che/theia-remote-api/lib/common/devfile-service';
+import { FileLocationKind, ProblemMatcher, TaskConfiguration } from '@theia/task/lib/common';
 import { TaskResolver, TaskResolverRegistry } from '@theia/task/lib/browser';
 import { inject, injectable, postConstruct } from 'inversify';
 
 import { ContainerPicker } from './container-picker';
-import { TaskConfiguration } from '@theia/task/lib/common';
 import { VariableResolverService } from '@theia/variable-resolver/lib/browser';
 import { WorkspaceService } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
 
+const PROJECTS_ROOT_VARIABLE = '${env:PROJECTS_ROOT}';
+const DEFAULT_PROJECTS_ROOT = '/projects';
+
 @injectable()
 export class CheTaskResolver implements TaskResolver {
   @inject(WorkspaceService)
@@ -68,7 +71,44 @@ export class CheTaskResolver implements TaskResolver {
       commandLine = (await this.variableResolverService.resolve(command, variableResolverOptions)) || command;
     }
 
-    return { ...taskConfig, command: commandLine, target: resultTarget };
+    let env: { [name: string]: string } | undefined = undefined;
+    if (taskConfig.env) {
+      env = {};
+      for (const name of Object.keys(taskConfig.env)) {
+        const value = taskConfig.env[name];
+        env[name] = (await this.variableResolverService.resolve(value, variableResolverOptions)) || value;
+      }
+    }
+
+    const problemMatcher = await this.resolveProblemMatchers(taskConfig.problemMatcher, resultTarget.workingDir);
+
+    return { ...taskConfig, command: commandLine, target: resultTarget, env, problemMatcher };
+  }
+
+  /** Returns copies of the problem matchers with the unresolved relative paths mapped to the files of the task. */
+  private async resolveProblemMatchers(problemMatchers: unknown, workingDir: string | undefined): Promise<unknown> {
+    if (!Array.isArray(problemMatchers)) {
+      return problemMatchers;
+    }
+
+    let filePrefix = workingDir;
+    const result: unknown[] = [];
+    for (const matcher of problemMatchers) {
+      if (
+        !isProblemMatcher(matcher) ||
+        matcher.fileLocation !== FileLocationKind.Relative ||
+        (matcher.filePrefix && !matcher.filePrefix.includes('${'))
+      ) {
+        result.push(matcher);
+        continue;
+      }
+
+      if (!filePrefix) {
+        filePrefix = (await this.variableResolverService.resolve(PROJECTS_ROOT_VARIABLE)) || DEFAULT_PROJECTS_ROOT;
+      }
+      result.push({ ...matcher, filePrefix });
+    }
+    return result;
   }
 
   private async getContainerName(target?: { containerName?: string; component?: string }): Promise<string> {
@@ -136,3 +176,7 @@ export function getAttribute(attributeName: string, attributes?: { [key: string]
   }
   return undefined;
 }
+
+function isProblemMatcher(matcher: unknown): matcher is ProblemMatcher {
+  return !!matcher && typeof matcher === 'object' && 'fileLocation' in (matcher as object);
+}
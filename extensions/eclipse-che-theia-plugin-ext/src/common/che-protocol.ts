@@ -23,6 +23,7 @@ import { Preferences, User } from '@eclipse-che/theia-remote-api/lib/common/user
 import { BinaryBuffer } from '@theia/core/lib/common/buffer';
 import { CheLanguagesTestAPI } from './che-languages-test-protocol';
 import { K8SRawResponse } from '@eclipse-che/theia-remote-api/lib/common/k8s-service';
+import { SshKeyType } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
 import { che as cheApi } from '@eclipse-che/api';
 import { createProxyIdentifier } from '@theia/plugin-ext/lib/common/rpc-protocol';
 
@@ -69,7 +70,7 @@ export interface CheEndpointMain {
 export interface CheSsh {}
 
 export interface CheSshMain {
-  $generate(service: string, name: string): Promise<cheApi.ssh.SshPair>;
+  $generate(service: string, name: string, type?: SshKeyType): Promise<cheApi.ssh.SshPair>;
   $create(sshKeyPair: cheApi.ssh.SshPair): Promise<void>;
   $get(service: string, name: string): Promise<cheApi.ssh.SshPair>;
   $getAll(service: string): Promise<cheApi.ssh.SshPair[]>;
@@ -154,6 +155,7 @@ export interface CheVariablesMain {
 export interface CheTask {
   registerTaskRunner(type: string, runner: che.TaskRunner): Promise<che.Disposable>;
   fireTaskExited(event: che.TaskExitedEvent): Promise<void>;
+  fireTaskOutput(event: che.TaskOutputEvent): Promise<void>;
   $runTask(config: che.TaskConfiguration, ctx?: string): Promise<che.TaskInfo>;
   $killTask(taskInfo: che.TaskInfo): Promise<void>;
   $onDidStartTask(taskInfo: che.TaskInfo): Promise<void>;
@@ -165,6 +167,7 @@ export interface CheTaskMain {
   $registerTaskRunner(type: string): Promise<void>;
   $disposeTaskRunner(type: string): Promise<void>;
   $fireTaskExited(event: che.TaskExitedEvent): Promise<void>;
+  $fireTaskOutput(event: che.TaskOutputEvent): Promise<void>;
   $addTaskSubschema(schema: che.TaskJSONSchema): Promise<void>;
   $setTaskStatus(options: che.TaskStatusOptions): Promise<void>;
 }
@@ -498,6 +501,7 @@ export interface CheTaskService extends JsonRpcServer<CheTaskClient> {
   disposeTaskRunner(type: string): Promise<void>;
   disconnectClient(client: CheTaskClient): void;
   fireTaskExited(event: che.TaskExitedEvent): Promise<void>;
+  fireTaskOutput(event: che.TaskOutputEvent): Promise<void>;
 }
 
 export const CheTaskClient = Symbol('CheTaskClient');
@@ -12,9 +12,10 @@ import { CheTaskClient, CheTaskService } from '../common/che-protocol';
 import { Disposable, ILogger } from '@theia/core';
 import { Task, TaskManager, TaskOptions, TaskRunnerRegistry } from '@theia/task/lib/node';
 import { TaskConfiguration, TaskInfo } from '@theia/task/lib/common/task-protocol';
+import { TaskExitedEvent, TaskOutputEvent } from '@eclipse-che/plugin';
 import { injectable, interfaces } from 'inversify';
 
-import { TaskExitedEvent } from '@eclipse-che/plugin';
+import { removeAnsiEscapeCodes } from '@theia/task/lib/node/process/process-task';
 
 @injectable()
 export class CheTaskServiceImpl implements CheTaskService {
@@ -88,6 +89,16 @@ export class CheTaskServiceImpl implements CheTaskService {
       }
     }
   }
+
+  async fireTaskOutput(event: TaskOutputEvent): Promise<void> {
+    const task = this.cheTasks.find(cheTask => {
+      const runtimeInfo = cheTask.getRuntimeInfo();
+      return runtimeInfo.execId === event.execId || runtimeInfo.taskId === event.taskId;
+    });
+    if (task) {
+      task.fireOutput(event.output);
+    }
+  }
 }
 
 export interface CheTaskOptions extends TaskOptions {
@@ -97,6 +108,9 @@ export interface CheTaskOptions extends TaskOptions {
 class CheTask extends Task {
   private readonly clients: CheTaskClient[];
   private taskInfo: TaskInfo;
+  /** the last line of the output which is not terminated yet */
+  private outputBuffer = '';
+
   constructor(taskManager: TaskManager, logger: ILogger, clients: CheTaskClient[], options: CheTaskOptions) {
     super(taskManager, logger, options);
     this.clients = clients;
@@ -111,7 +125,19 @@ class CheTask extends Task {
     this.clients.forEach(client => client.killTask(this.taskInfo));
   }
 
+  /** Splits the given output to lines, so the lines can be processed by the problem matchers. */
+  fireOutput(output: string): void {
+    const lines = (this.outputBuffer + output).split('\n');
+    this.outputBuffer = lines.pop() || '';
+    lines.forEach(line => this.fireLine(line));
+  }
+
   fireTaskExited(event: TaskExitedEvent): void {
+    if (this.outputBuffer) {
+      this.fireLine(this.outputBuffer);
+      this.outputBuffer = '';
+    }
+
     super.fireTaskExited({
       taskId: event.taskId!,
       code: event.code,
@@ -121,6 +147,10 @@ class CheTask extends Task {
     });
   }
 
+  private fireLine(line: string): void {
+    this.fireOutputLine({ taskId: this.taskId, ctx: this.context, line: removeAnsiEscapeCodes(line) });
+  }
+
   private toTaskInfo(runtimeInfo: TaskInfo): TaskInfo {
     const { taskId, terminalId, ctx, config, ...properties } = runtimeInfo;
     const result: TaskInfo = {
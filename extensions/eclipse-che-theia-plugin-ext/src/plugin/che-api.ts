@@ -33,6 +33,7 @@ import { K8SRawResponse } from '@eclipse-che/theia-remote-api/lib/common/k8s-ser
 import { PLUGIN_RPC_CONTEXT } from '../common/che-protocol';
 import { Plugin } from '@theia/plugin-ext/lib/common/plugin-api-rpc';
 import { RPCProtocol } from '@theia/plugin-ext/lib/common/rpc-protocol';
+import { SshKeyType } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
 import { TaskStatusOptions } from '@eclipse-che/plugin';
 import { che as cheApi } from '@eclipse-che/api';
 
@@ -192,8 +193,8 @@ export function createAPIFactory(rpc: RPCProtocol): CheApiFactory {
       deleteKey(service: string, name: string): Promise<void> {
         return cheSshImpl.delete(service, name);
       },
-      generate(service: string, name: string): Promise<cheApi.ssh.SshPair> {
-        return cheSshImpl.generate(service, name);
+      generate(service: string, name: string, type?: SshKeyType): Promise<cheApi.ssh.SshPair> {
+        return cheSshImpl.generate(service, name, type);
       },
       create(sshKeyPair: cheApi.ssh.SshPair): Promise<void> {
         return cheSshImpl.create(sshKeyPair);
@@ -213,6 +214,9 @@ export function createAPIFactory(rpc: RPCProtocol): CheApiFactory {
       fireTaskExited(event: che.TaskExitedEvent): Promise<void> {
         return cheTaskImpl.fireTaskExited(event);
       },
+      fireTaskOutput(event: che.TaskOutputEvent): Promise<void> {
+        return cheTaskImpl.fireTaskOutput(event);
+      },
       addTaskSubschema(schema: che.TaskJSONSchema): Promise<void> {
         return cheTaskImpl.addTaskSubschema(schema);
       },
@@ -11,6 +11,7 @@
 import { CheSsh, CheSshMain, PLUGIN_RPC_CONTEXT } from '../common/che-protocol';
 
 import { RPCProtocol } from '@theia/plugin-ext/lib/common/rpc-protocol';
+import { SshKeyType } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
 import { che as cheApi } from '@eclipse-che/api';
 
 export class CheSshImpl implements CheSsh {
@@ -23,9 +24,9 @@ export class CheSshImpl implements CheSsh {
   /**
    * @inheritDoc
    */
-  async generate(service: string, name: string): Promise<cheApi.ssh.SshPair> {
+  async generate(service: string, name: string, type?: SshKeyType): Promise<cheApi.ssh.SshPair> {
     try {
-      return this.sshMain.$generate(service, name);
+      return this.sshMain.$generate(service, name, type);
     } catch (e) {
       throw new Error(e);
     }
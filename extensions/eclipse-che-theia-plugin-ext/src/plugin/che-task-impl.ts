@@ -15,6 +15,7 @@ import {
   TaskExitedEvent,
   TaskInfo,
   TaskJSONSchema,
+  TaskOutputEvent,
   TaskRunner,
   TaskStatusOptions,
 } from '@eclipse-che/plugin';
@@ -80,6 +81,10 @@ export class CheTaskImpl implements CheTask {
     this.cheTaskMain.$fireTaskExited(event);
   }
 
+  async fireTaskOutput(event: TaskOutputEvent): Promise<void> {
+    this.cheTaskMain.$fireTaskOutput(event);
+  }
+
   async addTaskSubschema(schema: TaskJSONSchema): Promise<void> {
     return this.cheTaskMain.$addTaskSubschema(schema);
   }
@@ -0,0 +1,101 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { FileLocationKind, ProblemMatcher, TaskConfiguration } from '@theia/task/lib/common';
+
+import { CheTaskResolver } from '../../src/browser/che-task-resolver';
+import { Container } from 'inversify';
+import { ContainerPicker } from '../../src/browser/container-picker';
+import { DevfileService } from '@eclipse-che/theia-remote-api/lib/common/devfile-service';
+import { TaskResolverRegistry } from '@theia/task/lib/browser';
+import { VariableResolverService } from '@theia/variable-resolver/lib/browser';
+import { WorkspaceService } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
+
+describe('Test CheTaskResolver', () => {
+  const resolveMock = jest.fn();
+
+  let cheTaskResolver: CheTaskResolver;
+
+  function matcher(fileLocation: FileLocationKind, filePrefix?: string): ProblemMatcher {
+    return { owner: 'tsc', fileLocation, filePrefix, pattern: { regexp: '' } } as ProblemMatcher;
+  }
+
+  function taskConfig(problemMatcher: ProblemMatcher[], workingDir?: string): TaskConfiguration {
+    return {
+      type: 'che',
+      label: 'build',
+      _scope: '',
+      command: 'npm run build',
+      target: { containerName: 'nodejs', workspaceId: 'workspace123', workingDir },
+      problemMatcher,
+    } as any;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolveMock.mockImplementation(async (value: string) =>
+      value === '${env:PROJECTS_ROOT}' ? '/home/user/projects' : value
+    );
+
+    const container = new Container();
+    container.bind(CheTaskResolver).toSelf().inSingletonScope();
+    container.bind(WorkspaceService).toConstantValue({ getCurrentWorkspaceId: async () => 'workspace123' } as any);
+    container.bind(DevfileService).toConstantValue({ getComponentStatuses: async () => [{ name: 'nodejs' }] } as any);
+    container.bind(VariableResolverService).toConstantValue({ resolve: resolveMock } as any);
+    container.bind(ContainerPicker).toConstantValue({ pick: jest.fn() } as any);
+    container.bind(TaskResolverRegistry).toConstantValue({ register: jest.fn() } as any);
+    cheTaskResolver = container.get(CheTaskResolver);
+  });
+
+  test('maps the relative paths to the working directory of the task', async () => {
+    const registryMatcher = matcher(FileLocationKind.Relative, '${workspaceFolder}');
+    const problemMatchers = [registryMatcher];
+
+    const resolvedTask = await cheTaskResolver.resolveTask(taskConfig(problemMatchers, '/projects/app'));
+
+    expect(resolvedTask.problemMatcher).toEqual([{ ...registryMatcher, filePrefix: '/projects/app' }]);
+    // the matchers of the task and of the registry are kept as is
+    expect(problemMatchers[0]).toBe(registryMatcher);
+    expect(registryMatcher.filePrefix).toBe('${workspaceFolder}');
+  });
+
+  test('maps the relative paths to the projects root when the task has no working directory', async () => {
+    const problemMatchers = [matcher(FileLocationKind.Relative)];
+
+    const resolvedTask = await cheTaskResolver.resolveTask(taskConfig(problemMatchers));
+
+    expect(resolvedTask.problemMatcher[0].filePrefix).toBe('/home/user/projects');
+  });
+
+  test('maps the relative paths to the default projects root', async () => {
+    resolveMock.mockResolvedValue(undefined);
+    const problemMatchers = [matcher(FileLocationKind.Relative)];
+
+    const resolvedTask = await cheTaskResolver.resolveTask(taskConfig(problemMatchers));
+
+    expect(resolvedTask.problemMatcher[0].filePrefix).toBe('/projects');
+  });
+
+  test('keeps the absolute paths and the resolved prefixes', async () => {
+    const absoluteMatcher = matcher(FileLocationKind.Absolute);
+    const resolvedMatcher = matcher(FileLocationKind.Relative, '/projects/lib');
+    const problemMatchers = [absoluteMatcher, resolvedMatcher];
+
+    const resolvedTask = await cheTaskResolver.resolveTask(taskConfig(problemMatchers, '/projects/app'));
+
+    expect(resolvedTask.problemMatcher).toEqual([absoluteMatcher, resolvedMatcher]);
+    expect(resolvedTask.problemMatcher[0]).toBe(absoluteMatcher);
+    expect(resolvedTask.problemMatcher[0].filePrefix).toBeUndefined();
+    expect(resolvedTask.problemMatcher[1]).toBe(resolvedMatcher);
+    expect(resolvedTask.problemMatcher[1].filePrefix).toBe('/projects/lib');
+  });
+});
@@ -272,7 +272,10 @@ declare module '@eclipse-che/plugin' {
     }
 
     export namespace ssh {
-        export function generate(service: string, name: string): Promise<cheApi.ssh.SshPair>;
+        /**
+         * Generate a key pair, RSA by default.
+         */
+        export function generate(service: string, name: string, type?: 'rsa' | 'ed25519'): Promise<cheApi.ssh.SshPair>;
 
         export function create(sshKeyPair: cheApi.ssh.SshPair): Promise<void>;
 
@@ -356,6 +359,8 @@ declare module '@eclipse-che/plugin' {
         export function registerTaskRunner(type: string, runner: TaskRunner): Promise<Disposable>;
         /** Needs to be executed when the task is finished */
         export function fireTaskExited(event: TaskExitedEvent): Promise<void>;
+        /** Needs to be executed when the task prints some output, so the output is scanned by the problem matchers */
+        export function fireTaskOutput(event: TaskOutputEvent): Promise<void>;
         /** Add task subschema */
         export function addTaskSubschema(schema: TaskJSONSchema): Promise<void>;
 
@@ -428,6 +433,14 @@ declare module '@eclipse-che/plugin' {
         readonly [key: string]: any;
     }
 
+    export interface TaskOutputEvent {
+        readonly taskId?: number;
+        readonly execId?: number;
+
+        /** a chunk of the task output, it may contain several lines or a part of a line */
+        readonly output: string;
+    }
+
     export enum TaskScope {
         Global = 1,
         Workspace = 2
@@ -20,11 +20,12 @@ import { OAuthService, cheOAuthServicePath } from '../common/oauth-service';
 import { SshKeyService, cheSshKeyServicePath } from '../common/ssh-key-service';
 import { TelemetryService, cheTelemetryServicePath } from '../common/telemetry-service';
 import { UserService, cheUserServicePath } from '../common/user-service';
-import { WorkspaceService, cheWorkspaceServicePath } from '../common/workspace-service';
+import { WorkspaceService, WorkspaceServiceClient, cheWorkspaceServicePath } from '../common/workspace-service';
 
 import { ContainerModule } from 'inversify';
 import { OauthUtils } from './oauth-utils';
 import { WebSocketConnectionProvider } from '@theia/core/lib/browser';
+import { WorkspaceServiceClientImpl } from './workspace-service-client';
 
 export default new ContainerModule(bind => {
   bind(CertificateService)
@@ -70,10 +71,13 @@ export default new ContainerModule(bind => {
     })
     .inSingletonScope();
 
+  bind(WorkspaceServiceClientImpl).toSelf().inSingletonScope();
+  bind(WorkspaceServiceClient).toService(WorkspaceServiceClientImpl);
   bind(WorkspaceService)
     .toDynamicValue(ctx => {
       const provider = ctx.container.get(WebSocketConnectionProvider);
-      return provider.createProxy<WorkspaceService>(cheWorkspaceServicePath);
+      const client: WorkspaceServiceClient = ctx.container.get(WorkspaceServiceClient);
+      return provider.createProxy<WorkspaceService>(cheWorkspaceServicePath, client);
     })
     .inSingletonScope();
 
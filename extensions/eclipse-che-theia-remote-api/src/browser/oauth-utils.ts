@@ -107,8 +107,7 @@ export class OauthUtils {
 
   async isAuthenticated(provider: string): Promise<boolean> {
     try {
-      await this.oAuthService.getOAuthToken(provider, await this.getUserToken());
-      return true;
+      return await this.oAuthService.isAuthenticated(provider, await this.getUserToken());
     } catch (e) {
       return false;
     }
@@ -0,0 +1,30 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import { Emitter, Event } from '@theia/core/lib/common';
+import { WorkspaceServiceClient, WorkspaceStatusEvent } from '../common/workspace-service';
+
+import { injectable } from 'inversify';
+
+@injectable()
+export class WorkspaceServiceClientImpl implements WorkspaceServiceClient {
+  protected readonly onDidChangeWorkspaceStatusEmitter = new Emitter<WorkspaceStatusEvent>();
+
+  get onDidChangeWorkspaceStatus(): Event<WorkspaceStatusEvent> {
+    return this.onDidChangeWorkspaceStatusEmitter.event;
+  }
+
+  /**
+   * Called by the workspace service when the status of a watched workspace has been changed.
+   */
+  async notifyWorkspaceStatusChanged(event: WorkspaceStatusEvent): Promise<void> {
+    this.onDidChangeWorkspaceStatusEmitter.fire(event);
+  }
+}
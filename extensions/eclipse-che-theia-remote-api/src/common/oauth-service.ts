@@ -12,7 +12,24 @@ export const cheOAuthServicePath = '/services/che-oauth-service';
 
 export const OAuthService = Symbol('OAuthService');
 
+/**
+ * Personal access token of a SCM server, the token itself is not exposed.
+ */
+export interface PersonalAccessToken {
+  // URL of the SCM server, like `https://github.com`
+  scmUrl: string;
+  // name of the OAuth provider served by the token, like `github`
+  provider: string;
+}
+
 export interface OAuthService {
   getOAuthToken(oAuthProvider: string, userToken?: string): Promise<string | undefined>;
   getOAuthProviders(userToken?: string): Promise<string[]>;
+  isAuthenticated(oAuthProvider: string, userToken?: string): Promise<boolean>;
+  getPersonalAccessTokens(): Promise<PersonalAccessToken[]>;
+  /**
+   * Add the token of a SCM server, or replace the existing one.
+   */
+  setPersonalAccessToken(scmUrl: string, token: string): Promise<PersonalAccessToken>;
+  deletePersonalAccessToken(scmUrl: string): Promise<void>;
 }
@@ -14,9 +14,14 @@ export const cheSshKeyServicePath = '/services/che-ssh-service';
 
 export interface SshPair extends che.ssh.SshPair {}
 
+/**
+ * Algorithm of a generated key pair, RSA when it's not specified.
+ */
+export type SshKeyType = 'rsa' | 'ed25519';
+
 export const SshKeyService = Symbol('SshKeyService');
 export interface SshKeyService {
-  generate(service: string, name: string): Promise<SshPair>;
+  generate(service: string, name: string, type?: SshKeyType): Promise<SshPair>;
   create(sshKeyPair: SshPair): Promise<void>;
   get(service: string, name: string): Promise<SshPair>;
   delete(service: string, name: string): Promise<void>;
@@ -8,6 +8,7 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
+import { JsonRpcServer } from '@theia/core';
 import { che as cheApi } from '@eclipse-che/api';
 
 export const cheWorkspaceServicePath = '/services/che-workspace-service';
@@ -40,7 +41,7 @@ export interface Workspace {
 
   config?: cheApi.workspace.WorkspaceConfig;
 
-  status?: 'STARTING' | 'RUNNING' | 'STOPPING' | 'STOPPED';
+  status?: 'STARTING' | 'RUNNING' | 'STOPPING' | 'STOPPED' | 'FAILED';
 }
 
 export interface Container extends cheApi.workspace.Machine {
@@ -53,8 +54,26 @@ export interface WorkspaceSettings {
   [key: string]: string;
 }
 
+/**
+ * Status of a watched workspace, sent each time it changes.
+ */
+export interface WorkspaceStatusEvent {
+  workspaceId: string;
+  status: 'STARTING' | 'RUNNING' | 'STOPPING' | 'STOPPED' | 'FAILED';
+  // reason of the failure
+  message?: string;
+  // URL of the IDE, known once the workspace is running
+  mainUrl?: string;
+}
+
+export const WorkspaceServiceClient = Symbol('WorkspaceServiceClient');
+export interface WorkspaceServiceClient {
+  notifyWorkspaceStatusChanged(event: WorkspaceStatusEvent): Promise<void>;
+}
+
 export const WorkspaceService = Symbol('WorkspaceService');
-export interface WorkspaceService {
+export interface WorkspaceService extends JsonRpcServer<WorkspaceServiceClient> {
+  disconnectClient(client: WorkspaceServiceClient): void;
   getCurrentNamespace(): Promise<string>;
   getCurrentWorkspaceId(): Promise<string>;
   currentWorkspace(): Promise<Workspace>;
@@ -67,6 +86,15 @@ export interface WorkspaceService {
 
   stop(): Promise<void>;
 
+  startWorkspace(workspaceId: string): Promise<void>;
+  stopWorkspace(workspaceId: string): Promise<void>;
+
+  /**
+   * Send the status changes of the workspace to the client, until the watch is stopped.
+   */
+  watchWorkspaceStatus(workspaceId: string): Promise<void>;
+  unwatchWorkspaceStatus(workspaceId: string): Promise<void>;
+
   getContainerList(): Promise<Container[]>;
 
   /**
@@ -28,7 +28,11 @@ import { OAuthService, cheOAuthServicePath } from '@eclipse-che/theia-remote-api
 import { SshKeyService, cheSshKeyServicePath } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
 import { TelemetryService, cheTelemetryServicePath } from '@eclipse-che/theia-remote-api/lib/common/telemetry-service';
 import { UserService, cheUserServicePath } from '@eclipse-che/theia-remote-api/lib/common/user-service';
-import { WorkspaceService, cheWorkspaceServicePath } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
+import {
+  WorkspaceService,
+  WorkspaceServiceClient,
+  cheWorkspaceServicePath,
+} from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
 
 import { CheDashboardServiceImpl } from './che-dashboard-service-impl';
 import { CheK8SServiceImpl } from './che-server-k8s-service-impl';
@@ -118,7 +122,13 @@ export default new ContainerModule(bind => {
 
   bind(ConnectionHandler)
     .toDynamicValue(
-      ctx => new JsonRpcConnectionHandler(cheWorkspaceServicePath, () => ctx.container.get(WorkspaceService))
+      ctx =>
+        new JsonRpcConnectionHandler<WorkspaceServiceClient>(cheWorkspaceServicePath, client => {
+          const server: WorkspaceService = ctx.container.get(WorkspaceService);
+          server.setClient(client);
+          client.onDidCloseConnection(() => server.disconnectClient(client));
+          return server;
+        })
     )
     .inSingletonScope();
 
@@ -8,10 +8,10 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
+import { OAuthService, PersonalAccessToken } from '@eclipse-che/theia-remote-api/lib/common/oauth-service';
 import { inject, injectable } from 'inversify';
 
 import { CheServerRemoteApiImpl } from './che-server-remote-api-impl';
-import { OAuthService } from '@eclipse-che/theia-remote-api/lib/common/oauth-service';
 
 @injectable()
 export class CheServerOAuthServiceImpl implements OAuthService {
@@ -25,4 +25,25 @@ export class CheServerOAuthServiceImpl implements OAuthService {
   public async getOAuthProviders(userToken?: string): Promise<string[]> {
     return this.cheServerRemoteApiImpl.getAPI(userToken).getOAuthProviders();
   }
+
+  public async isAuthenticated(oAuthProvider: string, userToken?: string): Promise<boolean> {
+    try {
+      await this.getOAuthToken(oAuthProvider, userToken);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  public async getPersonalAccessTokens(): Promise<PersonalAccessToken[]> {
+    return [];
+  }
+
+  public async setPersonalAccessToken(scmUrl: string, token: string): Promise<PersonalAccessToken> {
+    throw new Error(`CheServerOAuthServiceImpl.setPersonalAccessToken(${scmUrl}) is not supported`);
+  }
+
+  public async deletePersonalAccessToken(scmUrl: string): Promise<void> {
+    throw new Error(`CheServerOAuthServiceImpl.deletePersonalAccessToken(${scmUrl}) is not supported`);
+  }
 }
@@ -12,12 +12,17 @@ import {
   Container,
   Workspace,
   WorkspaceService,
+  WorkspaceServiceClient,
   WorkspaceSettings,
+  WorkspaceStatusEvent,
 } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
 import { inject, injectable } from 'inversify';
 
 import { CheServerRemoteApiImpl } from './che-server-remote-api-impl';
 
+// delay between two checks of a watched workspace
+const WATCH_INTERVAL = 2000;
+
 @injectable()
 export class CheServerWorkspaceServiceImpl implements WorkspaceService {
   @inject(CheServerRemoteApiImpl)
@@ -37,6 +42,11 @@ export class CheServerWorkspaceServiceImpl implements WorkspaceService {
    */
   private readonly projectsRoot: string;
 
+  private readonly clients: WorkspaceServiceClient[] = [];
+
+  // timers checking the status of the watched workspaces, by workspace id
+  private readonly watches = new Map<string, { timeout: NodeJS.Timeout }>();
+
   constructor() {
     if (process.env.CHE_WORKSPACE_ID === undefined) {
       console.error('Environment variable CHE_WORKSPACE_ID is not set');
@@ -50,6 +60,25 @@ export class CheServerWorkspaceServiceImpl implements WorkspaceService {
     }
   }
 
+  setClient(client: WorkspaceServiceClient): void {
+    this.clients.push(client);
+  }
+
+  disconnectClient(client: WorkspaceServiceClient): void {
+    const idx = this.clients.indexOf(client);
+    if (idx > -1) {
+      this.clients.splice(idx, 1);
+    }
+    // the watches are shared by the clients
+    if (this.clients.length === 0) {
+      this.clearWatches();
+    }
+  }
+
+  dispose(): void {
+    this.clearWatches();
+  }
+
   public async getCurrentWorkspaceId(): Promise<string> {
     return this.workspaceId;
   }
@@ -87,6 +116,52 @@ export class CheServerWorkspaceServiceImpl implements WorkspaceService {
     return this.cheServerRemoteApiImpl.getAPI().stop(this.workspaceId);
   }
 
+  public async startWorkspace(workspaceId: string): Promise<void> {
+    await this.cheServerRemoteApiImpl.getAPI().start(workspaceId, {});
+  }
+
+  public async stopWorkspace(workspaceId: string): Promise<void> {
+    return this.cheServerRemoteApiImpl.getAPI().stop(workspaceId);
+  }
+
+  /**
+   * Che server does not push the status of the other workspaces here, the status is polled.
+   */
+  public async watchWorkspaceStatus(workspaceId: string): Promise<void> {
+    if (this.watches.has(workspaceId)) {
+      return;
+    }
+    let lastEvent: WorkspaceStatusEvent | undefined;
+    // the workspace may be unwatched, and watched again, while it is checked
+    const isWatched = () => this.watches.get(workspaceId) === watch;
+    const check = async () => {
+      try {
+        const workspace = await this.cheServerRemoteApiImpl.getAPI().getById<Workspace>(workspaceId);
+        const event = this.toStatusEvent(workspaceId, workspace);
+        const changed = !lastEvent || event.status !== lastEvent.status || event.mainUrl !== lastEvent.mainUrl;
+        if (changed && isWatched()) {
+          lastEvent = event;
+          this.notifyStatusChanged(event);
+        }
+      } catch (e) {
+        console.error(`Unable to check the status of the workspace ${workspaceId}`, e);
+      }
+      if (isWatched()) {
+        watch.timeout = setTimeout(check, WATCH_INTERVAL);
+      }
+    };
+    const watch = { timeout: setTimeout(check, 0) };
+    this.watches.set(workspaceId, watch);
+  }
+
+  public async unwatchWorkspaceStatus(workspaceId: string): Promise<void> {
+    const watch = this.watches.get(workspaceId);
+    if (watch) {
+      clearTimeout(watch.timeout);
+      this.watches.delete(workspaceId);
+    }
+  }
+
   public async getWorkspaceSettings(): Promise<WorkspaceSettings> {
     return this.cheServerRemoteApiImpl.getAPI().getSettings();
   }
@@ -114,6 +189,42 @@ export class CheServerWorkspaceServiceImpl implements WorkspaceService {
     return containers;
   }
 
+  // the URL of the IDE is the one of the server of type `ide`
+  protected toStatusEvent(workspaceId: string, workspace: Workspace): WorkspaceStatusEvent {
+    const status = workspace.status || 'STOPPED';
+    const event: WorkspaceStatusEvent = { workspaceId, status };
+    const error = workspace.attributes && workspace.attributes.errorMessage;
+    if (status === 'STOPPED' && error) {
+      return { workspaceId, status: 'FAILED', message: error };
+    }
+    if (status === 'RUNNING' && workspace.runtime && workspace.runtime.machines) {
+      const machines = workspace.runtime.machines;
+      Object.keys(machines).forEach(machineName => {
+        const servers = machines[machineName].servers || {};
+        Object.keys(servers).forEach(serverName => {
+          const server = servers[serverName];
+          if (server.attributes && server.attributes.type === 'ide' && server.url) {
+            event.mainUrl = server.url;
+          }
+        });
+      });
+    }
+    return event;
+  }
+
+  private notifyStatusChanged(event: WorkspaceStatusEvent): void {
+    this.clients.forEach(client =>
+      client
+        .notifyWorkspaceStatusChanged(event)
+        .catch(error => console.error(`Unable to notify the status of the workspace ${event.workspaceId}`, error))
+    );
+  }
+
+  private clearWatches(): void {
+    this.watches.forEach(watch => clearTimeout(watch.timeout));
+    this.watches.clear();
+  }
+
   /**
    * Provides the root directory like /projects
    */
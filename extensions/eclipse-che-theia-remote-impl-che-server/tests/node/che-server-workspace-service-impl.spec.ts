@@ -0,0 +1,182 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { CheServerRemoteApiImpl } from '../../src/node/che-server-remote-api-impl';
+import { CheServerWorkspaceServiceImpl } from '../../src/node/che-server-workspace-service-impl';
+import { Container } from 'inversify';
+
+describe('Test CheServerWorkspaceServiceImpl', () => {
+  const getByIdMethod = jest.fn();
+  const cheServerRemoteApiImpl = {
+    getAPI: () => ({ getById: getByIdMethod }),
+  } as any;
+
+  let cheServerWorkspaceServiceImpl: CheServerWorkspaceServiceImpl;
+
+  const runningWorkspace = {
+    status: 'RUNNING',
+    runtime: {
+      machines: {
+        'theia-ide': {
+          servers: {
+            theia: { attributes: { type: 'ide' }, url: 'https://che.example.com/theia/' },
+            'theia-dev': { attributes: { type: 'ide-dev' }, url: 'https://che.example.com/theia-dev/' },
+          },
+        },
+      },
+    },
+  };
+
+  function createClient(): { notifyWorkspaceStatusChanged: jest.Mock } {
+    return { notifyWorkspaceStatusChanged: jest.fn().mockResolvedValue(undefined) };
+  }
+
+  async function flushPromises(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  /** Runs the next check of the watched workspaces and waits for its end. */
+  async function check(): Promise<void> {
+    jest.runOnlyPendingTimers();
+    await flushPromises();
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers();
+    process.env.CHE_WORKSPACE_ID = 'workspace456';
+    process.env.CHE_PROJECTS_ROOT = '/projects';
+
+    const container = new Container();
+    container.bind(CheServerWorkspaceServiceImpl).toSelf().inSingletonScope();
+    container.bind(CheServerRemoteApiImpl).toConstantValue(cheServerRemoteApiImpl);
+    cheServerWorkspaceServiceImpl = container.get(CheServerWorkspaceServiceImpl);
+  });
+
+  afterEach(() => {
+    cheServerWorkspaceServiceImpl.dispose();
+    jest.useRealTimers();
+  });
+
+  test('watchWorkspaceStatus', async () => {
+    const client = createClient();
+    cheServerWorkspaceServiceImpl.setClient(client);
+    getByIdMethod
+      .mockResolvedValueOnce({ status: 'STOPPED' })
+      .mockResolvedValueOnce({ status: 'STARTING' })
+      .mockResolvedValueOnce({ status: 'STARTING' })
+      .mockResolvedValueOnce(runningWorkspace)
+      .mockResolvedValueOnce({ status: 'STOPPED', attributes: { errorMessage: 'Unrecoverable event occurred' } });
+
+    await cheServerWorkspaceServiceImpl.watchWorkspaceStatus('workspace123');
+    for (let i = 0; i < 5; i++) {
+      await check();
+    }
+
+    expect(getByIdMethod).toBeCalledWith('workspace123');
+    // only the transitions are reported
+    expect(client.notifyWorkspaceStatusChanged.mock.calls.map(call => call[0])).toEqual([
+      { workspaceId: 'workspace123', status: 'STOPPED' },
+      { workspaceId: 'workspace123', status: 'STARTING' },
+      { workspaceId: 'workspace123', status: 'RUNNING', mainUrl: 'https://che.example.com/theia/' },
+      { workspaceId: 'workspace123', status: 'FAILED', message: 'Unrecoverable event occurred' },
+    ]);
+  });
+
+  test('keep polling when the workspace cannot be read', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const client = createClient();
+    cheServerWorkspaceServiceImpl.setClient(client);
+    getByIdMethod.mockRejectedValueOnce(new Error('Service Unavailable')).mockResolvedValueOnce(runningWorkspace);
+
+    await cheServerWorkspaceServiceImpl.watchWorkspaceStatus('workspace123');
+    await check();
+    await check();
+
+    expect(consoleErrorSpy).toBeCalledWith(
+      'Unable to check the status of the workspace workspace123',
+      new Error('Service Unavailable')
+    );
+    expect(client.notifyWorkspaceStatusChanged).toBeCalledTimes(1);
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('unwatchWorkspaceStatus', async () => {
+    cheServerWorkspaceServiceImpl.setClient(createClient());
+    getByIdMethod.mockResolvedValue({ status: 'STARTING' });
+
+    await cheServerWorkspaceServiceImpl.watchWorkspaceStatus('workspace123');
+    await check();
+    await cheServerWorkspaceServiceImpl.unwatchWorkspaceStatus('workspace123');
+    await check();
+
+    expect(getByIdMethod).toBeCalledTimes(1);
+  });
+
+  test('keep a single check of a workspace watched again while it is checked', async () => {
+    const client = createClient();
+    cheServerWorkspaceServiceImpl.setClient(client);
+    let resolveFirstCheck: (workspace: unknown) => void = () => {};
+    getByIdMethod
+      .mockImplementationOnce(() => new Promise(resolve => (resolveFirstCheck = resolve)))
+      .mockResolvedValue({ status: 'STARTING' });
+
+    await cheServerWorkspaceServiceImpl.watchWorkspaceStatus('workspace123');
+    jest.runOnlyPendingTimers();
+    await cheServerWorkspaceServiceImpl.unwatchWorkspaceStatus('workspace123');
+    await cheServerWorkspaceServiceImpl.watchWorkspaceStatus('workspace123');
+    // the check of the previous watch ends once the workspace is watched again
+    resolveFirstCheck({ status: 'STOPPED' });
+    await flushPromises();
+    expect(client.notifyWorkspaceStatusChanged).not.toBeCalled();
+
+    await check();
+    await check();
+    expect(getByIdMethod).toBeCalledTimes(3);
+    expect(client.notifyWorkspaceStatusChanged).toBeCalledTimes(1);
+    expect(client.notifyWorkspaceStatusChanged).toBeCalledWith({ workspaceId: 'workspace123', status: 'STARTING' });
+  });
+
+  test('notify all the clients and keep the watches until the last client is disconnected', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const firstClient = createClient();
+    const secondClient = createClient();
+    firstClient.notifyWorkspaceStatusChanged.mockRejectedValue(new Error('connection closed'));
+    cheServerWorkspaceServiceImpl.setClient(firstClient);
+    cheServerWorkspaceServiceImpl.setClient(secondClient);
+    getByIdMethod.mockResolvedValueOnce({ status: 'STARTING' }).mockResolvedValue(runningWorkspace);
+
+    await cheServerWorkspaceServiceImpl.watchWorkspaceStatus('workspace123');
+    await check();
+    expect(secondClient.notifyWorkspaceStatusChanged).toBeCalledWith({
+      workspaceId: 'workspace123',
+      status: 'STARTING',
+    });
+    expect(consoleErrorSpy).toBeCalledWith(
+      'Unable to notify the status of the workspace workspace123',
+      new Error('connection closed')
+    );
+
+    cheServerWorkspaceServiceImpl.disconnectClient(firstClient);
+    await check();
+    expect(firstClient.notifyWorkspaceStatusChanged).toBeCalledTimes(1);
+    expect(secondClient.notifyWorkspaceStatusChanged).toBeCalledTimes(2);
+
+    cheServerWorkspaceServiceImpl.disconnectClient(secondClient);
+    await check();
+    expect(getByIdMethod).toBeCalledTimes(2);
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -28,7 +28,11 @@ import { OAuthService, cheOAuthServicePath } from '@eclipse-che/theia-remote-api
 import { SshKeyService, cheSshKeyServicePath } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
 import { TelemetryService, cheTelemetryServicePath } from '@eclipse-che/theia-remote-api/lib/common/telemetry-service';
 import { UserService, cheUserServicePath } from '@eclipse-che/theia-remote-api/lib/common/user-service';
-import { WorkspaceService, cheWorkspaceServicePath } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
+import {
+  WorkspaceService,
+  WorkspaceServiceClient,
+  cheWorkspaceServicePath,
+} from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
 
 import { ContainerModule } from 'inversify';
 import { K8SHttpServiceImpl } from './k8s-http-service-impl';
@@ -36,6 +40,7 @@ import { K8SServiceImpl } from './k8s-service-impl';
 import { K8sCertificateServiceImpl } from './k8s-certificate-service-impl';
 import { K8sDashboardServiceImpl } from './k8s-dashboard-service-impl';
 import { K8sDevWorkspaceEnvVariables } from './k8s-devworkspace-env-variables';
+import { K8sDevWorkspacePatcher } from './k8s-devworkspace-patcher';
 import { K8sDevfileServiceImpl } from './k8s-devfile-service-impl';
 import { K8sEndpointServiceImpl } from './k8s-endpoint-service-impl';
 import { K8sFactoryServiceImpl } from './k8s-factory-service-impl';
@@ -67,6 +72,7 @@ export default new ContainerModule(bind => {
   bind(K8sEndpointServiceImpl).toSelf().inSingletonScope();
   bind(K8SHttpServiceImpl).toSelf().inSingletonScope();
   bind(K8sDevWorkspaceEnvVariables).toSelf().inSingletonScope();
+  bind(K8sDevWorkspacePatcher).toSelf().inSingletonScope();
   bind(K8sDashboardServiceImpl).toSelf().inSingletonScope();
 
   bind(CertificateService).to(K8sCertificateServiceImpl).inSingletonScope();
@@ -114,7 +120,13 @@ export default new ContainerModule(bind => {
 
   bind(ConnectionHandler)
     .toDynamicValue(
-      ctx => new JsonRpcConnectionHandler(cheWorkspaceServicePath, () => ctx.container.get(WorkspaceService))
+      ctx =>
+        new JsonRpcConnectionHandler<WorkspaceServiceClient>(cheWorkspaceServicePath, client => {
+          const server: WorkspaceService = ctx.container.get(WorkspaceService);
+          server.setClient(client);
+          client.onDidCloseConnection(() => server.disconnectClient(client));
+          return server;
+        })
     )
     .inSingletonScope();
 
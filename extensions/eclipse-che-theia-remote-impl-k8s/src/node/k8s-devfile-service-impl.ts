@@ -22,6 +22,7 @@ import { inject, injectable } from 'inversify';
 
 import { K8SServiceImpl } from './k8s-service-impl';
 import { K8sDevWorkspaceEnvVariables } from './k8s-devworkspace-env-variables';
+import { K8sDevWorkspacePatcher } from './k8s-devworkspace-patcher';
 import { V1Pod } from '@kubernetes/client-node';
 
 @injectable()
@@ -32,6 +33,9 @@ export class K8sDevfileServiceImpl implements DevfileService {
   @inject(K8sDevWorkspaceEnvVariables)
   private env: K8sDevWorkspaceEnvVariables;
 
+  @inject(K8sDevWorkspacePatcher)
+  private devWorkspacePatcher: K8sDevWorkspacePatcher;
+
   async getRaw(): Promise<string> {
     // get content of the file
     const devFilePath = this.env.getDevWorkspaceFlattenedDevfilePath();
@@ -150,7 +154,10 @@ export class K8sDevfileServiceImpl implements DevfileService {
   }
 
   async updateDevfile(devfile: Devfile): Promise<void> {
-    await this.patch('/spec/template', devfile);
+    await this.devWorkspacePatcher.updateTemplate(
+      this.env.getWorkspaceName(),
+      devfile as unknown as { [field: string]: unknown }
+    );
   }
 
   async patch(path: string, newValue: object): Promise<void> {
@@ -0,0 +1,171 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as k8s from '@kubernetes/client-node';
+
+import { getErrorMessage, getStatusCode } from './k8s-error-utils';
+import { inject, injectable } from 'inversify';
+
+import { K8SServiceImpl } from './k8s-service-impl';
+import { K8sDevWorkspaceEnvVariables } from './k8s-devworkspace-env-variables';
+
+export const DEVWORKSPACE_GROUP = 'workspace.devfile.io';
+export const DEVWORKSPACE_VERSION = 'v1alpha2';
+export const DEVWORKSPACE_PLURAL = 'devworkspaces';
+
+// fields of the DevWorkspace template written back by an update
+export const DEVWORKSPACE_TEMPLATE_FIELDS = ['components', 'commands', 'projects', 'attributes'];
+
+// number of attempts of an update when the DevWorkspace is modified concurrently
+const MAX_ATTEMPTS = 5;
+
+export interface JsonPatchOperation {
+  op: 'add' | 'replace' | 'remove' | 'test';
+  path: string;
+  value?: unknown;
+}
+
+export interface DevWorkspaceObject {
+  metadata: {
+    name: string;
+    resourceVersion: string;
+  };
+  spec: {
+    template: { [field: string]: unknown };
+  };
+}
+
+/**
+ * Compute the operations writing the fields of the updated template over the current one,
+ * a field missing in the updated template is removed.
+ */
+export function createTemplatePatch(
+  current: { [field: string]: unknown },
+  updated: { [field: string]: unknown }
+): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  DEVWORKSPACE_TEMPLATE_FIELDS.forEach(field => {
+    const path = `/spec/template/${field}`;
+    if (updated[field] !== undefined) {
+      operations.push({ op: current[field] === undefined ? 'add' : 'replace', path, value: updated[field] });
+    } else if (current[field] !== undefined) {
+      operations.push({ op: 'remove', path });
+    }
+  });
+  return operations;
+}
+
+/**
+ * Merge the fields of the updated template with the ones changed concurrently in the current template,
+ * both templates being based on the same template.
+ * @throws an error if a field has been changed differently in both templates
+ */
+export function mergeTemplate(
+  base: { [field: string]: unknown },
+  current: { [field: string]: unknown },
+  updated: { [field: string]: unknown }
+): { [field: string]: unknown } {
+  const merged: { [field: string]: unknown } = {};
+  DEVWORKSPACE_TEMPLATE_FIELDS.forEach(field => {
+    if (isEqual(updated[field], base[field])) {
+      merged[field] = current[field];
+    } else if (isEqual(current[field], base[field]) || isEqual(current[field], updated[field])) {
+      merged[field] = updated[field];
+    } else {
+      throw new Error(`the ${field} have been modified concurrently`);
+    }
+  });
+  return merged;
+}
+
+// deep equality of the JSON values, the order of the object keys doesn't matter
+function isEqual(value: unknown, other: unknown): boolean {
+  if (value === other) {
+    return true;
+  }
+  if (Array.isArray(value) || Array.isArray(other)) {
+    return (
+      Array.isArray(value) &&
+      Array.isArray(other) &&
+      value.length === other.length &&
+      value.every((item, index) => isEqual(item, other[index]))
+    );
+  }
+  if (!isObject(value) || !isObject(other)) {
+    return false;
+  }
+  const keys = Object.keys(value).filter(key => value[key] !== undefined);
+  const otherKeys = Object.keys(other).filter(key => other[key] !== undefined);
+  return keys.length === otherKeys.length && keys.every(key => isEqual(value[key], other[key]));
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && !!value;
+}
+
+/**
+ * Update the template of a DevWorkspace with a JSON patch.
+ * The patch carries the resourceVersion of the DevWorkspace read before computing it, so the API server rejects it
+ * with a conflict if the DevWorkspace has been changed meanwhile. Then the update is merged with the changed
+ * DevWorkspace, the fields changed meanwhile are kept unless the update changes them as well.
+ */
+@injectable()
+export class K8sDevWorkspacePatcher {
+  @inject(K8SServiceImpl)
+  private k8SService: K8SServiceImpl;
+
+  @inject(K8sDevWorkspaceEnvVariables)
+  private env: K8sDevWorkspaceEnvVariables;
+
+  async updateTemplate(name: string, template: { [field: string]: unknown }): Promise<DevWorkspaceObject> {
+    const customObjectsApi = this.k8SService.makeApiClient(k8s.CustomObjectsApi);
+    const namespace = this.env.getWorkspaceNamespace();
+    const options = { headers: { 'Content-type': k8s.PatchUtils.PATCH_FORMAT_JSON_PATCH } };
+    // template of the DevWorkspace the update is based on
+    let base: { [field: string]: unknown } | undefined;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { body } = await customObjectsApi.getNamespacedCustomObject(
+          DEVWORKSPACE_GROUP,
+          DEVWORKSPACE_VERSION,
+          namespace,
+          DEVWORKSPACE_PLURAL,
+          name
+        );
+        const devWorkspace = body as DevWorkspaceObject;
+        const current = devWorkspace.spec.template || {};
+        const updated = base ? mergeTemplate(base, current, template) : template;
+        base = base || current;
+        // the resource version makes the patch fail if the DevWorkspace has been changed since it has been read
+        const patch: JsonPatchOperation[] = [
+          { op: 'replace', path: '/metadata/resourceVersion', value: devWorkspace.metadata.resourceVersion },
+          ...createTemplatePatch(current, updated),
+        ];
+        const response = await customObjectsApi.patchNamespacedCustomObject(
+          DEVWORKSPACE_GROUP,
+          DEVWORKSPACE_VERSION,
+          namespace,
+          DEVWORKSPACE_PLURAL,
+          name,
+          patch,
+          undefined,
+          undefined,
+          undefined,
+          options
+        );
+        return response.body as DevWorkspaceObject;
+      } catch (e) {
+        if (getStatusCode(e) !== 409 || attempt >= MAX_ATTEMPTS) {
+          throw new Error(`Unable to update the workspace ${name}. Cause: ${getErrorMessage(e)}`);
+        }
+      }
+    }
+  }
+}
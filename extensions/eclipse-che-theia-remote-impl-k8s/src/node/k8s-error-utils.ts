@@ -0,0 +1,35 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/**
+ * Fields of the errors of the Kubernetes client, the HTTP errors carry the status code and the body of the response.
+ */
+interface K8sClientError {
+  statusCode?: number;
+  response?: { statusCode?: number };
+  body?: { message?: string };
+  message?: string;
+}
+
+/**
+ * HTTP status code of an error of the Kubernetes client.
+ */
+export function getStatusCode(error: unknown): number | undefined {
+  const clientError = error as K8sClientError;
+  return clientError.statusCode || (clientError.response && clientError.response.statusCode);
+}
+
+/**
+ * Message of an error of the Kubernetes client, the API server describes the failure in the body of the response.
+ */
+export function getErrorMessage(error: unknown): string {
+  const clientError = error as K8sClientError;
+  return (clientError.body && clientError.body.message) || clientError.message || String(error);
+}
@@ -8,16 +8,191 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
-import { OAuthService } from '@eclipse-che/theia-remote-api/lib/common/oauth-service';
-import { injectable } from 'inversify';
+import * as crypto from 'crypto';
+import * as k8s from '@kubernetes/client-node';
 
+import { OAuthService, PersonalAccessToken } from '@eclipse-che/theia-remote-api/lib/common/oauth-service';
+import { inject, injectable } from 'inversify';
+
+import { K8SServiceImpl } from './k8s-service-impl';
+import { K8sDevWorkspaceEnvVariables } from './k8s-devworkspace-env-variables';
+import { getErrorMessage } from './k8s-error-utils';
+
+// labels and annotations of the personal access token secrets
+export const PERSONAL_ACCESS_TOKEN_LABELS = {
+  'app.kubernetes.io/component': 'scm-personal-access-token',
+  'app.kubernetes.io/part-of': 'che.eclipse.org',
+};
+export const SCM_URL_ANNOTATION = 'che.eclipse.org/scm-url';
+export const TOKEN_NAME_ANNOTATION = 'che.eclipse.org/scm-personal-access-token-name';
+
+// OAuth providers of the well-known SCM servers
+const PROVIDERS: { [host: string]: string } = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+};
+
+/**
+ * Read the OAuth tokens from the personal access token secrets of the user namespace, one secret per SCM server.
+ */
 @injectable()
 export class K8sOAuthServiceImpl implements OAuthService {
+  @inject(K8SServiceImpl)
+  private k8SService: K8SServiceImpl;
+
+  @inject(K8sDevWorkspaceEnvVariables)
+  private env: K8sDevWorkspaceEnvVariables;
+
+  /**
+   * The provider may be the name of an OAuth provider, like `github`, or the URL of a SCM server.
+   */
   public async getOAuthToken(oAuthProvider: string, userToken?: string): Promise<string | undefined> {
-    throw new Error(`K8sOAuthServiceImpl.getOAuthToken(${oAuthProvider}, ${userToken}) is not supported`);
+    const secret = await this.findSecret(oAuthProvider);
+    const token = secret && secret.data && secret.data.token;
+    if (!token) {
+      throw new Error(`No personal access token is defined for ${oAuthProvider}`);
+    }
+    return Buffer.from(token, 'base64').toString();
   }
 
   public async getOAuthProviders(userToken?: string): Promise<string[]> {
-    throw new Error(`K8sOAuthServiceImpl.getOAuthProviders(${userToken}) is not supported`);
+    const tokens = await this.getPersonalAccessTokens();
+    return Array.from(new Set(tokens.map(token => token.provider)));
+  }
+
+  public async isAuthenticated(oAuthProvider: string, userToken?: string): Promise<boolean> {
+    const secret = await this.findSecret(oAuthProvider);
+    return !!(secret && secret.data && secret.data.token);
+  }
+
+  public async getPersonalAccessTokens(): Promise<PersonalAccessToken[]> {
+    const secrets = await this.listSecrets();
+    return secrets.map(secret => this.toPersonalAccessToken(secret)!);
+  }
+
+  public async setPersonalAccessToken(scmUrl: string, token: string): Promise<PersonalAccessToken> {
+    const url = this.parseUrl(scmUrl);
+    if (!token) {
+      throw new Error(`The personal access token of ${url} is empty`);
+    }
+    const coreApi = this.getCoreApi();
+    const namespace = this.env.getWorkspaceNamespace();
+    const data = { token: Buffer.from(token).toString('base64') };
+    const existing = await this.findSecret(url);
+    try {
+      if (existing) {
+        const name = existing.metadata!.name!;
+        await coreApi.replaceNamespacedSecret(name, namespace, { ...existing, data: { ...existing.data, ...data } });
+        return this.toPersonalAccessToken(existing)!;
+      }
+
+      const provider = this.getProvider(url);
+      const secret: k8s.V1Secret = {
+        metadata: {
+          name: this.getSecretName(url),
+          labels: { ...PERSONAL_ACCESS_TOKEN_LABELS },
+          annotations: {
+            [SCM_URL_ANNOTATION]: url,
+            [TOKEN_NAME_ANNOTATION]: provider,
+          },
+        },
+        type: 'Opaque',
+        data,
+      };
+      await coreApi.createNamespacedSecret(namespace, secret);
+      return { scmUrl: url, provider };
+    } catch (e) {
+      throw new Error(`Unable to store the personal access token of ${url}. Cause: ${getErrorMessage(e)}`);
+    }
+  }
+
+  public async deletePersonalAccessToken(scmUrl: string): Promise<void> {
+    const url = this.parseUrl(scmUrl);
+    const secret = await this.findSecret(url);
+    if (!secret) {
+      throw new Error(`No personal access token is defined for ${url}`);
+    }
+    try {
+      await this.getCoreApi().deleteNamespacedSecret(secret.metadata!.name!, this.env.getWorkspaceNamespace());
+    } catch (e) {
+      throw new Error(`Unable to delete the personal access token of ${url}. Cause: ${getErrorMessage(e)}`);
+    }
+  }
+
+  protected async listSecrets(): Promise<k8s.V1Secret[]> {
+    const labelSelector = Object.entries(PERSONAL_ACCESS_TOKEN_LABELS)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(',');
+    try {
+      const response = await this.getCoreApi().listNamespacedSecret(
+        this.env.getWorkspaceNamespace(),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        labelSelector
+      );
+      // the secrets without a valid SCM server URL can't be used
+      return response.body.items.filter(secret => this.toPersonalAccessToken(secret));
+    } catch (e) {
+      throw new Error(`Unable to list the personal access tokens. Cause: ${getErrorMessage(e)}`);
+    }
+  }
+
+  // find the secret of a SCM server URL, or the first secret of an OAuth provider
+  protected async findSecret(providerOrUrl: string): Promise<k8s.V1Secret | undefined> {
+    const secrets = await this.listSecrets();
+    if (/^https?:\/\//.test(providerOrUrl)) {
+      const url = this.parseUrl(providerOrUrl);
+      return secrets.find(secret => this.toPersonalAccessToken(secret)!.scmUrl === url);
+    }
+    return secrets.find(secret => this.toPersonalAccessToken(secret)!.provider === providerOrUrl);
+  }
+
+  // undefined if the secret has no valid SCM server URL
+  protected toPersonalAccessToken(secret: k8s.V1Secret): PersonalAccessToken | undefined {
+    const annotations = secret.metadata?.annotations || {};
+    const scmUrl = this.normalizeUrl(annotations[SCM_URL_ANNOTATION]);
+    if (!scmUrl) {
+      return undefined;
+    }
+    return { scmUrl, provider: annotations[TOKEN_NAME_ANNOTATION] || this.getProvider(scmUrl) };
+  }
+
+  protected parseUrl(scmUrl: string): string {
+    const url = this.normalizeUrl(scmUrl);
+    if (!url) {
+      throw new Error(`Invalid SCM server URL ${scmUrl}`);
+    }
+    return url;
+  }
+
+  // the URL of the SCM server is its origin, the scheme is optional
+  protected normalizeUrl(scmUrl: string | undefined): string | undefined {
+    if (!scmUrl) {
+      return undefined;
+    }
+    try {
+      return new URL(/^[a-z]+:\/\//i.test(scmUrl) ? scmUrl : `https://${scmUrl}`).origin;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  // the well-known SCM servers are matched by their exact host name, the other ones are named after their host
+  protected getProvider(scmUrl: string): string {
+    const host = new URL(scmUrl).hostname;
+    return PROVIDERS[host] || host;
+  }
+
+  protected getSecretName(scmUrl: string): string {
+    const host = new URL(scmUrl).hostname.replace(/[^a-z0-9-]+/g, '-').substring(0, 40);
+    const hash = crypto.createHash('sha256').update(scmUrl).digest('hex').substring(0, 8);
+    return `personal-access-token-${host}-${hash}`;
+  }
+
+  private getCoreApi(): k8s.CoreV1Api {
+    return this.k8SService.makeApiClient(k8s.CoreV1Api);
   }
 }
@@ -8,29 +8,207 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
-import { SshKeyService, SshPair } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
+import * as k8s from '@kubernetes/client-node';
+import * as path from 'path';
 
-import { injectable } from 'inversify';
+import { SshKeyService, SshKeyType, SshPair } from '@eclipse-che/theia-remote-api/lib/common/ssh-key-service';
+import { getErrorMessage, getStatusCode } from './k8s-error-utils';
+import { inject, injectable } from 'inversify';
 
+import { K8SServiceImpl } from './k8s-service-impl';
+import { K8sDevWorkspaceEnvVariables } from './k8s-devworkspace-env-variables';
+import { generateSshKeyPair } from './ssh-key-generator';
+
+// secret of the user namespace holding the credentials, mounted into the workspaces like the SSH plug-in expects it
+export const CREDENTIALS_SECRET_NAME = 'workspace-credentials-secret';
+export const SSH_CONFIG_KEY = 'ssh_config';
+export const SSH_KEYS_DIRECTORY = '/etc/ssh';
+
+// the DevWorkspace operator mounts the secret into the new workspaces and updates it in the running ones
+const CREDENTIALS_SECRET_LABELS = {
+  'controller.devfile.io/mount-to-devworkspace': 'true',
+  'controller.devfile.io/watch-secret': 'true',
+};
+const CREDENTIALS_SECRET_ANNOTATIONS = { 'controller.devfile.io/mount-path': SSH_KEYS_DIRECTORY };
+
+// the name of a key pair is the name of its entry in the secret
+const SSH_KEY_NAME_PATTERN = /^[-._a-zA-Z0-9]+$/;
+
+/**
+ * Store the SSH key pairs in the credentials secret of the user namespace, with the layout of the SSH plug-in:
+ * the private key and the public key are the entries `<name>` and `<name>.pub`, and the entry `ssh_config`
+ * uses each key for the host of the same name.
+ * The secret doesn't record the service of the key pairs, they are shared by all the services.
+ * The secret is created with the first key pair if the namespace has none.
+ */
 @injectable()
 export class K8sSshKeyServiceImpl implements SshKeyService {
-  generate(service: string, name: string): Promise<SshPair> {
-    throw new Error('Unsupported operation');
+  @inject(K8SServiceImpl)
+  private k8SService: K8SServiceImpl;
+
+  @inject(K8sDevWorkspaceEnvVariables)
+  private env: K8sDevWorkspaceEnvVariables;
+
+  async generate(service: string, name: string, type: SshKeyType = 'rsa'): Promise<SshPair> {
+    const { publicKey, privateKey } = await generateSshKeyPair(type, name);
+    const sshPair: SshPair = { service, name, publicKey, privateKey };
+    await this.create(sshPair);
+    return sshPair;
   }
 
   async create(sshKeyPair: SshPair): Promise<void> {
-    console.log('K8sSshKeyServiceImpl.create() is not implemented');
+    const { service, name, privateKey } = sshKeyPair;
+    if (!service || !name || !privateKey) {
+      throw new Error('The service, the name and the private key of the SSH key pair are required');
+    }
+    if (!SSH_KEY_NAME_PATTERN.test(name) || name === SSH_CONFIG_KEY || name.endsWith('.pub')) {
+      throw new Error(`The name ${name} of the SSH key pair must consist of alphanumeric characters, '-', '_' or '.'`);
+    }
+
+    let secret: k8s.V1Secret | undefined;
+    try {
+      secret = await this.readSecret();
+    } catch (e) {
+      if (getStatusCode(e) !== 404) {
+        throw new Error(`Unable to store the SSH key pair ${service}/${name}. Cause: ${getErrorMessage(e)}`);
+      }
+    }
+    const data = (secret && secret.data) || {};
+    if (data[name] !== undefined) {
+      throw new Error(`SSH key pair ${service}/${name} already exists`);
+    }
+    data[name] = this.encode(privateKey.endsWith('\n') ? privateKey : `${privateKey}\n`);
+    // the SSH plug-in lists the key pairs by their public key
+    data[`${name}.pub`] = this.encode(sshKeyPair.publicKey || '');
+    const config = this.decode(data[SSH_CONFIG_KEY]) || '';
+    const keyConfig = this.getConfig(name);
+    if (config.indexOf(keyConfig) < 0) {
+      data[SSH_CONFIG_KEY] = this.encode(config + keyConfig);
+    }
+    try {
+      if (secret) {
+        await this.replaceSecret({ ...secret, data });
+      } else {
+        await this.createSecret(data);
+      }
+    } catch (e) {
+      throw new Error(`Unable to store the SSH key pair ${service}/${name}. Cause: ${getErrorMessage(e)}`);
+    }
   }
 
-  get(service: string, name: string): Promise<SshPair> {
-    throw new Error(`K8sSshKeyServiceImpl.get(${service}, ${name}) is not implemented`);
+  async get(service: string, name: string): Promise<SshPair> {
+    let data: { [key: string]: string };
+    try {
+      data = (await this.readSecret()).data || {};
+    } catch (e) {
+      if (getStatusCode(e) === 404) {
+        throw new Error(`SSH key pair ${service}/${name} was not found`);
+      }
+      throw new Error(`Unable to get the SSH key pair ${service}/${name}. Cause: ${getErrorMessage(e)}`);
+    }
+    if (!this.isSshKey(name, data)) {
+      throw new Error(`SSH key pair ${service}/${name} was not found`);
+    }
+    return this.toSshPair(service, name, data);
   }
 
-  getAll(service: string): Promise<SshPair[]> {
-    throw new Error('K8sSshKeyServiceImpl.getAll() is not implemented');
+  async getAll(service: string): Promise<SshPair[]> {
+    let data: { [key: string]: string };
+    try {
+      data = (await this.readSecret()).data || {};
+    } catch (e) {
+      if (getStatusCode(e) === 404) {
+        return [];
+      }
+      throw new Error(`Unable to list the SSH key pairs of ${service}. Cause: ${getErrorMessage(e)}`);
+    }
+    return Object.keys(data)
+      .filter(key => this.isSshKey(key, data))
+      .map(name => this.toSshPair(service, name, data));
   }
 
   async delete(service: string, name: string): Promise<void> {
-    console.log('K8sSshKeyServiceImpl.delete() is not implemented');
+    let secret: k8s.V1Secret;
+    try {
+      secret = await this.readSecret();
+    } catch (e) {
+      if (getStatusCode(e) === 404) {
+        throw new Error(`SSH key pair ${service}/${name} was not found`);
+      }
+      throw new Error(`Unable to delete the SSH key pair ${service}/${name}. Cause: ${getErrorMessage(e)}`);
+    }
+    const data = secret.data || {};
+    if (!this.isSshKey(name, data)) {
+      throw new Error(`SSH key pair ${service}/${name} was not found`);
+    }
+    delete data[name];
+    delete data[`${name}.pub`];
+    const config = this.decode(data[SSH_CONFIG_KEY]);
+    if (config !== undefined) {
+      data[SSH_CONFIG_KEY] = this.encode(config.replace(this.getConfig(name), ''));
+    }
+    try {
+      await this.replaceSecret({ ...secret, data });
+    } catch (e) {
+      throw new Error(`Unable to delete the SSH key pair ${service}/${name}. Cause: ${getErrorMessage(e)}`);
+    }
+  }
+
+  // the keys named `default-...` are used for all the hosts, as in the SSH plug-in
+  protected getConfig(name: string): string {
+    const host = name.startsWith('default-') ? '*' : name;
+    const identityFile = path.resolve(SSH_KEYS_DIRECTORY, name);
+    return `\nHost ${host}\nIdentityFile ${identityFile}\nStrictHostKeyChecking = no\n`;
+  }
+
+  protected toSshPair(service: string, name: string, data: { [key: string]: string }): SshPair {
+    return {
+      service,
+      name,
+      privateKey: this.decode(data[name]),
+      publicKey: this.decode(data[`${name}.pub`]) || undefined,
+    };
+  }
+
+  // the other credentials are stored in the same secret
+  private isSshKey(name: string, data: { [key: string]: string }): boolean {
+    return data[name] !== undefined && data[`${name}.pub`] !== undefined;
+  }
+
+  private async readSecret(): Promise<k8s.V1Secret> {
+    const response = await this.getCoreApi().readNamespacedSecret(
+      CREDENTIALS_SECRET_NAME,
+      this.env.getWorkspaceNamespace()
+    );
+    return response.body;
+  }
+
+  private async createSecret(data: { [key: string]: string }): Promise<void> {
+    await this.getCoreApi().createNamespacedSecret(this.env.getWorkspaceNamespace(), {
+      metadata: {
+        name: CREDENTIALS_SECRET_NAME,
+        labels: { ...CREDENTIALS_SECRET_LABELS },
+        annotations: { ...CREDENTIALS_SECRET_ANNOTATIONS },
+      },
+      type: 'Opaque',
+      data,
+    });
+  }
+
+  // the resource version of the read secret makes the replacement fail if the secret has been changed meanwhile
+  private async replaceSecret(secret: k8s.V1Secret): Promise<void> {
+    await this.getCoreApi().replaceNamespacedSecret(CREDENTIALS_SECRET_NAME, this.env.getWorkspaceNamespace(), secret);
+  }
+
+  private getCoreApi(): k8s.CoreV1Api {
+    return this.k8SService.makeApiClient(k8s.CoreV1Api);
+  }
+
+  private encode(value: string): string {
+    return Buffer.from(value).toString('base64');
+  }
+
+  private decode(value: string | undefined): string | undefined {
+    return value === undefined ? undefined : Buffer.from(value, 'base64').toString();
   }
 }
@@ -14,8 +14,16 @@ import {
   Container,
   Workspace,
   WorkspaceService,
+  WorkspaceServiceClient,
   WorkspaceSettings,
+  WorkspaceStatusEvent,
 } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
+import {
+  DEVWORKSPACE_GROUP,
+  DEVWORKSPACE_PLURAL,
+  DEVWORKSPACE_VERSION,
+  K8sDevWorkspacePatcher,
+} from './k8s-devworkspace-patcher';
 import { inject, injectable } from 'inversify';
 
 import { DevfileService } from '@eclipse-che/theia-remote-api/lib/common/devfile-service';
@@ -23,6 +31,60 @@ import { EndpointService } from '@eclipse-che/theia-remote-api/lib/common/endpoi
 import { HttpService } from '@eclipse-che/theia-remote-api/lib/common/http-service';
 import { K8SServiceImpl } from './k8s-service-impl';
 import { K8sDevWorkspaceEnvVariables } from './k8s-devworkspace-env-variables';
+import { che as cheApi } from '@eclipse-che/api';
+
+const LAST_UPDATED_ANNOTATION = 'che.eclipse.org/last-updated-timestamp';
+
+interface DevWorkspaceEndpoint {
+  name: string;
+  targetPort: number;
+  exposure?: string;
+  protocol?: string;
+  path?: string;
+  attributes?: { [key: string]: string };
+}
+
+interface DevWorkspaceComponent {
+  name: string;
+  container?: {
+    image: string;
+    endpoints?: DevWorkspaceEndpoint[];
+  };
+}
+
+/**
+ * DevWorkspace custom object, only the fields used by the workspace service are described.
+ */
+interface DevWorkspace {
+  metadata: {
+    name: string;
+    namespace: string;
+    creationTimestamp?: string;
+    annotations?: { [key: string]: string };
+  };
+  spec: {
+    started: boolean;
+    template: {
+      components?: DevWorkspaceComponent[];
+      [key: string]: unknown;
+    };
+  };
+  status?: {
+    devworkspaceId?: string;
+    phase?: string;
+    mainUrl?: string;
+    message?: string;
+  };
+}
+
+/**
+ * Watch of the status of a DevWorkspace, the request is pending until the watch is started and it is replaced
+ * when the watch is restarted.
+ */
+interface WorkspaceWatch {
+  request?: { abort(): void };
+  aborted: boolean;
+}
 
 @injectable()
 export class K8sWorkspaceServiceImpl implements WorkspaceService {
@@ -41,6 +103,33 @@ export class K8sWorkspaceServiceImpl implements WorkspaceService {
   @inject(HttpService)
   private httpService: HttpService;
 
+  @inject(K8sDevWorkspacePatcher)
+  private devWorkspacePatcher: K8sDevWorkspacePatcher;
+
+  private readonly clients: WorkspaceServiceClient[] = [];
+
+  // watches of the DevWorkspaces, by workspace id
+  private readonly watches = new Map<string, WorkspaceWatch>();
+
+  setClient(client: WorkspaceServiceClient): void {
+    this.clients.push(client);
+  }
+
+  disconnectClient(client: WorkspaceServiceClient): void {
+    const idx = this.clients.indexOf(client);
+    if (idx > -1) {
+      this.clients.splice(idx, 1);
+    }
+    // the watches are shared by the clients
+    if (this.clients.length === 0) {
+      this.abortWatches();
+    }
+  }
+
+  dispose(): void {
+    this.abortWatches();
+  }
+
   public async getCurrentNamespace(): Promise<string> {
     return this.env.getWorkspaceNamespace();
   }
@@ -60,19 +149,33 @@ export class K8sWorkspaceServiceImpl implements WorkspaceService {
   }
 
   public async getWorkspaceById(workspaceId: string): Promise<Workspace> {
-    throw new Error('workspaceService.getWorkspaceById() not supported');
+    return this.toWorkspace(await this.getDevWorkspace(workspaceId));
   }
 
+  // the DevWorkspaces are read with the service account of the workspace, it can only access the user's namespace
   public async getAll(userToken?: string): Promise<Workspace[]> {
-    throw new Error('workspaceService.getAll() not supported');
+    return this.getAllByNamespace(this.env.getWorkspaceNamespace(), userToken);
   }
 
   public async getAllByNamespace(namespace: string, userToken?: string): Promise<Workspace[]> {
-    throw new Error(`workspaceService.getAllByNamespace(${namespace}) not supported`);
+    const devWorkspaces = await this.listDevWorkspaces(namespace);
+    return devWorkspaces.map(devWorkspace => this.toWorkspace(devWorkspace));
   }
 
+  /**
+   * Write the components, commands, projects and attributes of the devfile of the workspace to its DevWorkspace.
+   */
   public async updateWorkspace(workspaceId: string, workspace: Workspace): Promise<Workspace> {
-    throw new Error(`workspaceService.updateWorkspace(${workspaceId}) not supported`);
+    // the DevWorkspace template is updated from the devfile, the other fields of the workspace can't be updated
+    if (!workspace.devfile) {
+      throw new Error(`Unable to update the workspace ${workspaceId}, it has no devfile`);
+    }
+    const devWorkspace = await this.getDevWorkspace(workspaceId);
+    const updated = await this.devWorkspacePatcher.updateTemplate(
+      devWorkspace.metadata.name,
+      workspace.devfile as unknown as { [field: string]: unknown }
+    );
+    return this.toWorkspace(updated as unknown as DevWorkspace);
   }
 
   public async updateWorkspaceActivity(): Promise<void> {
@@ -89,34 +192,54 @@ export class K8sWorkspaceServiceImpl implements WorkspaceService {
 
   public async stop(): Promise<void> {
     // stopping the workspace is changing the started state to false
+    await this.patchStarted(this.env.getWorkspaceName(), false);
+  }
 
-    const customObjectsApi = this.k8SService.makeApiClient(k8s.CustomObjectsApi);
-    const group = 'workspace.devfile.io';
-    const version = 'v1alpha2';
-    const namespace = this.env.getWorkspaceNamespace();
-    const plural = 'devworkspaces';
-    const name = this.env.getWorkspaceName();
-    const patch = [
-      {
-        op: 'replace',
-        path: '/spec/started',
-        value: false,
-      },
-    ];
+  public async startWorkspace(workspaceId: string): Promise<void> {
+    const devWorkspace = await this.getDevWorkspace(workspaceId);
+    await this.patchStarted(devWorkspace.metadata.name, true);
+  }
 
-    const options = { headers: { 'Content-type': k8s.PatchUtils.PATCH_FORMAT_JSON_PATCH } };
-    await customObjectsApi.patchNamespacedCustomObject(
-      group,
-      version,
-      namespace,
-      plural,
-      name,
-      patch,
-      undefined,
-      undefined,
-      undefined,
-      options
-    );
+  public async stopWorkspace(workspaceId: string): Promise<void> {
+    const devWorkspace = await this.getDevWorkspace(workspaceId);
+    await this.patchStarted(devWorkspace.metadata.name, false);
+  }
+
+  public async watchWorkspaceStatus(workspaceId: string): Promise<void> {
+    if (this.watches.has(workspaceId)) {
+      return;
+    }
+    const watch: WorkspaceWatch = { aborted: false };
+    this.watches.set(workspaceId, watch);
+    try {
+      const devWorkspace = await this.getDevWorkspace(workspaceId);
+      if (watch.aborted) {
+        return;
+      }
+      let lastEvent = this.toStatusEvent(devWorkspace);
+      this.notifyStatusChanged(lastEvent);
+
+      await this.startWatch(workspaceId, devWorkspace.metadata.name, watch, (type: string, object: DevWorkspace) => {
+        const event: WorkspaceStatusEvent =
+          type === 'DELETED' ? { workspaceId, status: 'STOPPED' } : this.toStatusEvent(object);
+        // only the transitions are reported
+        if (event.status !== lastEvent.status || event.mainUrl !== lastEvent.mainUrl) {
+          lastEvent = event;
+          this.notifyStatusChanged(event);
+        }
+      });
+    } catch (e) {
+      this.removeWatch(workspaceId, watch);
+      throw e;
+    }
+  }
+
+  public async unwatchWorkspaceStatus(workspaceId: string): Promise<void> {
+    const watch = this.watches.get(workspaceId);
+    if (watch) {
+      this.watches.delete(workspaceId);
+      this.abortWatch(watch);
+    }
   }
 
   public async getWorkspaceSettings(): Promise<WorkspaceSettings> {
@@ -149,4 +272,210 @@ export class K8sWorkspaceServiceImpl implements WorkspaceService {
   async getProjectsRootDirectory(): Promise<string> {
     return this.env.getProjectsRoot();
   }
+
+  protected createWatch(): k8s.Watch {
+    return new k8s.Watch(this.k8SService.getConfig());
+  }
+
+  protected async patchStarted(name: string, started: boolean): Promise<void> {
+    const customObjectsApi = this.k8SService.makeApiClient(k8s.CustomObjectsApi);
+    const patch = [
+      {
+        op: 'replace',
+        path: '/spec/started',
+        value: started,
+      },
+    ];
+
+    const options = { headers: { 'Content-type': k8s.PatchUtils.PATCH_FORMAT_JSON_PATCH } };
+    await customObjectsApi.patchNamespacedCustomObject(
+      DEVWORKSPACE_GROUP,
+      DEVWORKSPACE_VERSION,
+      this.env.getWorkspaceNamespace(),
+      DEVWORKSPACE_PLURAL,
+      name,
+      patch,
+      undefined,
+      undefined,
+      undefined,
+      options
+    );
+  }
+
+  protected async getDevWorkspace(workspaceId: string): Promise<DevWorkspace> {
+    const devWorkspace = (await this.listDevWorkspaces(this.env.getWorkspaceNamespace())).find(
+      item => item.status && item.status.devworkspaceId === workspaceId
+    );
+    if (!devWorkspace) {
+      throw new Error(`Workspace with id ${workspaceId} not found`);
+    }
+    return devWorkspace;
+  }
+
+  protected async listDevWorkspaces(namespace: string): Promise<DevWorkspace[]> {
+    const customObjectsApi = this.k8SService.makeApiClient(k8s.CustomObjectsApi);
+    try {
+      const { body } = await customObjectsApi.listNamespacedCustomObject(
+        DEVWORKSPACE_GROUP,
+        DEVWORKSPACE_VERSION,
+        namespace,
+        DEVWORKSPACE_PLURAL
+      );
+      return (body as { items?: DevWorkspace[] }).items || [];
+    } catch (e) {
+      throw new Error(`Unable to list the workspaces of the namespace ${namespace}. Cause: ${e.message || e}`);
+    }
+  }
+
+  protected toWorkspace(devWorkspace: DevWorkspace): Workspace {
+    const { metadata, spec } = devWorkspace;
+    const status = devWorkspace.status || {};
+    const attributes: { [key: string]: string } = {};
+    if (metadata.creationTimestamp) {
+      attributes.created = `${new Date(metadata.creationTimestamp).getTime()}`;
+    }
+    const updated = metadata.annotations && metadata.annotations[LAST_UPDATED_ANNOTATION];
+    if (updated) {
+      attributes.updated = `${new Date(updated).getTime()}`;
+    }
+    if (status.message) {
+      attributes.errorMessage = status.message;
+    }
+
+    const workspace: Workspace = {
+      id: status.devworkspaceId,
+      name: metadata.name,
+      namespace: metadata.namespace,
+      status: this.toWorkspaceStatus(status.phase),
+      attributes,
+      devfile: {
+        schemaVersion: '2.1.0',
+        metadata: { name: metadata.name },
+        ...spec.template,
+      } as unknown as cheApi.workspace.devfile.Devfile,
+    };
+    if (status.mainUrl) {
+      workspace.links = { ide: status.mainUrl };
+    }
+    if (workspace.status === 'RUNNING') {
+      workspace.runtime = this.toRuntime(spec.template.components || [], status.mainUrl);
+    }
+    return workspace;
+  }
+
+  protected toStatusEvent(devWorkspace: DevWorkspace): WorkspaceStatusEvent {
+    const status = devWorkspace.status || {};
+    const workspaceId = status.devworkspaceId || '';
+    const workspaceStatus = this.toWorkspaceStatus(status.phase) || 'STOPPED';
+    if (workspaceStatus === 'FAILED') {
+      return { workspaceId, status: workspaceStatus, message: status.message };
+    }
+    const event: WorkspaceStatusEvent = { workspaceId, status: workspaceStatus };
+    if (workspaceStatus === 'RUNNING' && status.mainUrl) {
+      event.mainUrl = status.mainUrl;
+    }
+    return event;
+  }
+
+  private notifyStatusChanged(event: WorkspaceStatusEvent): void {
+    this.clients.forEach(client =>
+      client
+        .notifyWorkspaceStatusChanged(event)
+        .catch(error => console.error(`Unable to notify the status of the workspace ${event.workspaceId}`, error))
+    );
+  }
+
+  // the API server ends the watches after a timeout, so the watch is restarted until it is aborted
+  private async startWatch(
+    workspaceId: string,
+    name: string,
+    watch: WorkspaceWatch,
+    callback: (type: string, object: DevWorkspace) => void
+  ): Promise<void> {
+    const namespace = this.env.getWorkspaceNamespace();
+    const path = `/apis/${DEVWORKSPACE_GROUP}/${DEVWORKSPACE_VERSION}/namespaces/${namespace}/${DEVWORKSPACE_PLURAL}`;
+    const request = await this.createWatch().watch(
+      path,
+      { fieldSelector: `metadata.name=${name}` },
+      callback,
+      error => {
+        if (watch.aborted) {
+          return;
+        }
+        if (error) {
+          console.error(`The watch of the workspace ${workspaceId} has failed`, error);
+          this.removeWatch(workspaceId, watch);
+          return;
+        }
+        this.startWatch(workspaceId, name, watch, callback).catch(e => {
+          console.error(`The watch of the workspace ${workspaceId} has failed`, e);
+          this.removeWatch(workspaceId, watch);
+        });
+      }
+    );
+    if (watch.aborted) {
+      request.abort();
+      return;
+    }
+    watch.request = request;
+  }
+
+  // a late end of an aborted watch doesn't remove the watch started next
+  private removeWatch(workspaceId: string, watch: WorkspaceWatch): void {
+    if (this.watches.get(workspaceId) === watch) {
+      this.watches.delete(workspaceId);
+    }
+  }
+
+  private abortWatch(watch: WorkspaceWatch): void {
+    watch.aborted = true;
+    if (watch.request) {
+      watch.request.abort();
+    }
+  }
+
+  private abortWatches(): void {
+    this.watches.forEach(watch => this.abortWatch(watch));
+    this.watches.clear();
+  }
+
+  // the phases of a DevWorkspace are Starting, Running, Stopping, Stopped and Failed
+  protected toWorkspaceStatus(phase: string | undefined): Workspace['status'] {
+    switch (phase) {
+      case 'Starting':
+        return 'STARTING';
+      case 'Running':
+        return 'RUNNING';
+      case 'Stopping':
+        return 'STOPPING';
+      case 'Failed':
+        return 'FAILED';
+      default:
+        return 'STOPPED';
+    }
+  }
+
+  /**
+   * Describe the containers and their endpoints, only the URL of the main endpoint is known from the DevWorkspace.
+   */
+  protected toRuntime(components: DevWorkspaceComponent[], mainUrl: string | undefined): cheApi.workspace.Runtime {
+    const machines: { [key: string]: cheApi.workspace.Machine } = {};
+    components.forEach(component => {
+      if (!component.container) {
+        return;
+      }
+      const servers: { [key: string]: cheApi.workspace.Server } = {};
+      (component.container.endpoints || []).forEach(endpoint => {
+        const attributes: { [key: string]: string } = { ...endpoint.attributes, port: `${endpoint.targetPort}` };
+        const server: cheApi.workspace.Server = { attributes, status: 'UNKNOWN' };
+        if (mainUrl && attributes.type === 'main') {
+          server.url = mainUrl;
+          server.status = 'RUNNING';
+        }
+        servers[endpoint.name] = server;
+      });
+      machines[component.name] = { servers, status: 'RUNNING' };
+    });
+    return { machines };
+  }
 }
@@ -0,0 +1,96 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Fake core API of Kubernetes, keeping the secrets in memory by namespace.
+ * Like an API server, the resourceVersion is increased on each change and a replacement with an old one is a conflict.
+ */
+export class FakeCoreV1Api {
+  readonly secrets = new Map<string, any[]>();
+
+  async createNamespacedSecret(namespace: string, body: any): Promise<any> {
+    const secrets = this.secrets.get(namespace) || [];
+    if (secrets.some(secret => secret.metadata.name === body.metadata.name)) {
+      throw this.httpError(409, `secrets "${body.metadata.name}" already exists`);
+    }
+    const secret = this.copy({ ...body, metadata: { ...body.metadata, namespace, resourceVersion: '1' } });
+    this.secrets.set(namespace, [...secrets, secret]);
+    return { body: this.copy(secret) };
+  }
+
+  async readNamespacedSecret(name: string, namespace: string): Promise<any> {
+    return { body: this.copy(this.find(name, namespace)) };
+  }
+
+  async listNamespacedSecret(
+    namespace: string,
+    pretty?: string,
+    allowWatchBookmarks?: boolean,
+    _continue?: string,
+    fieldSelector?: string,
+    labelSelector?: string
+  ): Promise<any> {
+    // only the equality requirements, like `name=value,other=value`, are supported
+    const requirements = (labelSelector ? labelSelector.split(',') : []).map(requirement => requirement.split('='));
+    const items = (this.secrets.get(namespace) || []).filter(secret =>
+      requirements.every(([key, value]) => (secret.metadata.labels || {})[key] === value)
+    );
+    return { body: { items: this.copy(items) } };
+  }
+
+  async replaceNamespacedSecret(name: string, namespace: string, body: any): Promise<any> {
+    const secret = this.find(name, namespace);
+    const resourceVersion = body.metadata && body.metadata.resourceVersion;
+    if (resourceVersion !== undefined && resourceVersion !== secret.metadata.resourceVersion) {
+      throw this.httpError(409, 'the object has been modified');
+    }
+    const replaced = this.copy({
+      ...body,
+      metadata: {
+        ...body.metadata,
+        name,
+        namespace,
+        resourceVersion: `${parseInt(secret.metadata.resourceVersion) + 1}`,
+      },
+    });
+    this.secrets.set(
+      namespace,
+      (this.secrets.get(namespace) || []).map(existing => (existing === secret ? replaced : existing))
+    );
+    return { body: this.copy(replaced) };
+  }
+
+  async deleteNamespacedSecret(name: string, namespace: string): Promise<any> {
+    const secret = this.find(name, namespace);
+    this.secrets.set(
+      namespace,
+      (this.secrets.get(namespace) || []).filter(existing => existing !== secret)
+    );
+    return { body: { status: 'Success' } };
+  }
+
+  private find(name: string, namespace: string): any {
+    const secret = (this.secrets.get(namespace) || []).find(item => item.metadata.name === name);
+    if (!secret) {
+      throw this.httpError(404, `secrets "${name}" not found`);
+    }
+    return secret;
+  }
+
+  // same fields as the errors of the k8s client
+  private httpError(statusCode: number, message: string): Error {
+    return Object.assign(new Error(message), { statusCode });
+  }
+
+  private copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
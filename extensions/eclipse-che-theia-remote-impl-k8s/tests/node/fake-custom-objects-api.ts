@@ -0,0 +1,106 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Fake custom objects API of Kubernetes, keeping the DevWorkspaces in memory like an API server:
+ * the resourceVersion is increased on each change, and a patch replacing it with an old value is a conflict.
+ */
+export class FakeCustomObjectsApi {
+  readonly objects = new Map<string, any[]>();
+
+  // called before applying a patch, to simulate a concurrent change
+  beforePatch: ((object: any) => void) | undefined;
+
+  patchCount = 0;
+
+  async listNamespacedCustomObject(group: string, version: string, namespace: string, plural: string): Promise<any> {
+    this.checkResource(group, version, plural);
+    const items = this.objects.get(namespace);
+    if (!items) {
+      throw new Error(`namespaces "${namespace}" is forbidden`);
+    }
+    return { body: { items: this.copy(items) } };
+  }
+
+  async getNamespacedCustomObject(
+    group: string,
+    version: string,
+    namespace: string,
+    plural: string,
+    name: string
+  ): Promise<any> {
+    this.checkResource(group, version, plural);
+    return { body: this.copy(this.find(namespace, name)) };
+  }
+
+  async patchNamespacedCustomObject(
+    group: string,
+    version: string,
+    namespace: string,
+    plural: string,
+    name: string,
+    patch: any[]
+  ): Promise<any> {
+    this.checkResource(group, version, plural);
+    this.patchCount++;
+    const object = this.find(namespace, name);
+    if (this.beforePatch) {
+      this.beforePatch(object);
+    }
+    const patched = this.copy(object);
+    for (const operation of patch) {
+      if (operation.path === '/metadata/resourceVersion' && operation.value !== object.metadata.resourceVersion) {
+        throw this.httpError(409, 'the object has been modified');
+      }
+      this.apply(patched, operation);
+    }
+    patched.metadata.resourceVersion = `${parseInt(object.metadata.resourceVersion || '0') + 1}`;
+    Object.assign(object, patched);
+    return { body: this.copy(object) };
+  }
+
+  private apply(object: any, operation: any): void {
+    const segments = operation.path.split('/').slice(1);
+    const field = segments.pop();
+    const parent = segments.reduce((value: any, segment: string) => value[segment], object);
+    if ((operation.op === 'remove' || operation.op === 'replace') && !(field in parent)) {
+      throw this.httpError(422, `missing path ${operation.path}`);
+    }
+    if (operation.op === 'remove') {
+      delete parent[field];
+    } else {
+      parent[field] = operation.value;
+    }
+  }
+
+  private find(namespace: string, name: string): any {
+    const object = (this.objects.get(namespace) || []).find(item => item.metadata.name === name);
+    if (!object) {
+      throw this.httpError(404, `devworkspaces "${name}" not found`);
+    }
+    return object;
+  }
+
+  private checkResource(group: string, version: string, plural: string): void {
+    if (group !== 'workspace.devfile.io' || version !== 'v1alpha2' || plural !== 'devworkspaces') {
+      throw new Error(`Unexpected resource ${plural}.${group}/${version}`);
+    }
+  }
+
+  // same fields as the errors of the k8s client
+  private httpError(statusCode: number, message: string): Error {
+    return Object.assign(new Error(message), { statusCode });
+  }
+
+  private copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -18,8 +18,10 @@ import * as path from 'path';
 import { Devfile, DevfileComponent, DevfileProject } from '@eclipse-che/theia-remote-api/lib/common/devfile-service';
 
 import { Container } from 'inversify';
+import { FakeCustomObjectsApi } from './fake-custom-objects-api';
 import { K8SServiceImpl } from '../..//src/node/k8s-service-impl';
 import { K8sDevWorkspaceEnvVariables } from '../../src/node/k8s-devworkspace-env-variables';
+import { K8sDevWorkspacePatcher } from '../../src/node/k8s-devworkspace-patcher';
 import { K8sDevfileServiceImpl } from '../../src/node/k8s-devfile-service-impl';
 
 describe('Test K8sDevfileServiceImpl', () => {
@@ -50,6 +52,7 @@ describe('Test K8sDevfileServiceImpl', () => {
     container.bind(K8sDevWorkspaceEnvVariables).toConstantValue(k8sDevWorkspaceEnvVariables);
     container.bind(K8sDevfileServiceImpl).toSelf().inSingletonScope();
     container.bind(K8SServiceImpl).toConstantValue(k8sServiceMock);
+    container.bind(K8sDevWorkspacePatcher).toSelf().inSingletonScope();
     k8sDevfileServiceImpl = container.get(K8sDevfileServiceImpl);
     workspaceNameEnvVariablesMethod.mockReturnValue('fake-workspace-name');
     workspaceNamespaceEnvVariablesMethod.mockReturnValue('fake-workspace-namespace');
@@ -143,4 +146,32 @@ describe('Test K8sDevfileServiceImpl', () => {
     expect(theiaEnv[0].name).toBe('THEIA_PLUGINS');
     expect(theiaEnv[0].value).toBe('local-dir:///plugins');
   });
+
+  test('updateDevfile keeps the changes made concurrently to the DevWorkspace', async () => {
+    const customObjectsApi = new FakeCustomObjectsApi();
+    const components = [{ name: 'tools', container: { image: 'quay.io/devfile/universal-developer-image' } }];
+    customObjectsApi.objects.set('fake-workspace-namespace', [
+      {
+        metadata: { name: 'fake-workspace-name', resourceVersion: '3' },
+        spec: { started: true, template: { components } },
+      },
+    ]);
+    k8sServiceMakeApiClientMethod.mockReturnValue(customObjectsApi);
+    // the workspace is started with a new component while the devfile is updated
+    const sidecar = { name: 'sidecar', container: { image: 'quay.io/eclipse/che-sidecar-java' } };
+    customObjectsApi.beforePatch = object => {
+      customObjectsApi.beforePatch = undefined;
+      object.metadata.resourceVersion = '4';
+      object.spec.template.components = [...components, sidecar];
+    };
+    const commands = [{ id: 'build', exec: { component: 'tools', commandLine: 'mvn clean install' } }];
+
+    await k8sDevfileServiceImpl.updateDevfile({ schemaVersion: '2.1.0', components, commands } as Devfile);
+
+    const devWorkspace = customObjectsApi.objects.get('fake-workspace-namespace')![0];
+    expect(customObjectsApi.patchCount).toBe(2);
+    expect(devWorkspace.metadata.resourceVersion).toBe('5');
+    expect(devWorkspace.spec.template.components).toStrictEqual([...components, sidecar]);
+    expect(devWorkspace.spec.template.commands).toStrictEqual(commands);
+  });
 });
@@ -0,0 +1,156 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { K8sDevWorkspacePatcher, createTemplatePatch, mergeTemplate } from '../../src/node/k8s-devworkspace-patcher';
+
+import { Container } from 'inversify';
+import { FakeCustomObjectsApi } from './fake-custom-objects-api';
+import { K8SServiceImpl } from '../../src/node/k8s-service-impl';
+import { K8sDevWorkspaceEnvVariables } from '../../src/node/k8s-devworkspace-env-variables';
+
+describe('Test K8sDevWorkspacePatcher', () => {
+  let customObjectsApi: FakeCustomObjectsApi;
+  let patcher: K8sDevWorkspacePatcher;
+
+  const commands = [{ id: 'build', exec: { component: 'tools', commandLine: 'mvn clean install' } }];
+
+  beforeEach(() => {
+    customObjectsApi = new FakeCustomObjectsApi();
+    customObjectsApi.objects.set('user-che', [
+      {
+        metadata: { name: 'java-spring', namespace: 'user-che', resourceVersion: '7' },
+        spec: {
+          started: true,
+          template: {
+            components: [{ name: 'tools', container: { image: 'quay.io/devfile/universal-developer-image' } }],
+            projects: [{ name: 'petclinic', git: { remotes: { origin: 'https://github.com/spring.git' } } }],
+            events: { postStart: ['build'] },
+          },
+        },
+      },
+    ]);
+
+    const container = new Container();
+    container.bind(K8SServiceImpl).toConstantValue({ makeApiClient: () => customObjectsApi } as any);
+    container.bind(K8sDevWorkspaceEnvVariables).toConstantValue({ getWorkspaceNamespace: () => 'user-che' } as any);
+    container.bind(K8sDevWorkspacePatcher).toSelf().inSingletonScope();
+    patcher = container.get(K8sDevWorkspacePatcher);
+  });
+
+  test('createTemplatePatch', () => {
+    const operations = createTemplatePatch(
+      { components: [], projects: [], attributes: {}, events: {} },
+      { components: [{ name: 'tools' }], commands, attributes: {}, metadata: { name: 'java-spring' } }
+    );
+
+    expect(operations).toStrictEqual([
+      { op: 'replace', path: '/spec/template/components', value: [{ name: 'tools' }] },
+      { op: 'add', path: '/spec/template/commands', value: commands },
+      { op: 'remove', path: '/spec/template/projects' },
+      { op: 'replace', path: '/spec/template/attributes', value: {} },
+    ]);
+  });
+
+  test('mergeTemplate', () => {
+    const base = { components: [{ name: 'tools', container: { image: 'ubi8', memoryLimit: '1Gi' } }], projects: [] };
+    // the same change on both sides and the reordered keys are not conflicts
+    const current = { components: [{ container: { memoryLimit: '1Gi', image: 'ubi8' }, name: 'tools' }], commands };
+    const updated = { components: base.components, projects: [], commands };
+
+    expect(mergeTemplate(base, current, updated)).toEqual({ components: current.components, commands });
+    expect(() => mergeTemplate(base, current, { ...updated, commands: [] })).toThrow(
+      'the commands have been modified concurrently'
+    );
+  });
+
+  test('update the template', async () => {
+    const devWorkspace = await patcher.updateTemplate('java-spring', {
+      components: [{ name: 'tools', container: { image: 'quay.io/devfile/universal-developer-image' } }],
+      commands,
+    });
+
+    expect(devWorkspace.metadata.resourceVersion).toBe('8');
+    expect(devWorkspace.spec.template.commands).toStrictEqual(commands);
+    expect(devWorkspace.spec.template.projects).toBeUndefined();
+    // fields not handled by the update are kept
+    expect(devWorkspace.spec.template.events).toStrictEqual({ postStart: ['build'] });
+    expect(customObjectsApi.patchCount).toBe(1);
+  });
+
+  test('retry the update on conflict', async () => {
+    // a controller changes the DevWorkspace between the read and the first patch
+    customObjectsApi.beforePatch = object => {
+      customObjectsApi.beforePatch = undefined;
+      object.metadata.resourceVersion = '8';
+      object.spec.started = false;
+    };
+
+    const devWorkspace = await patcher.updateTemplate('java-spring', { commands });
+
+    expect(customObjectsApi.patchCount).toBe(2);
+    expect(devWorkspace.metadata.resourceVersion).toBe('9');
+    expect(devWorkspace.spec.template.commands).toStrictEqual(commands);
+    expect((devWorkspace.spec as any).started).toBe(false);
+  });
+
+  test('keep the fields changed concurrently on conflict', async () => {
+    const projects = [{ name: 'petclinic-rest', git: { remotes: { origin: 'https://github.com/spring-rest.git' } } }];
+    customObjectsApi.beforePatch = object => {
+      customObjectsApi.beforePatch = undefined;
+      object.metadata.resourceVersion = '8';
+      object.spec.template.projects = projects;
+    };
+    const devWorkspace = customObjectsApi.objects.get('user-che')![0];
+
+    const updated = await patcher.updateTemplate('java-spring', { ...devWorkspace.spec.template, commands });
+
+    expect(customObjectsApi.patchCount).toBe(2);
+    expect(updated.spec.template.commands).toStrictEqual(commands);
+    expect(updated.spec.template.projects).toStrictEqual(projects);
+  });
+
+  test('fail when a field is changed concurrently by the update and by another client', async () => {
+    customObjectsApi.beforePatch = object => {
+      customObjectsApi.beforePatch = undefined;
+      object.metadata.resourceVersion = '8';
+      object.spec.template.projects = [];
+    };
+    const devWorkspace = customObjectsApi.objects.get('user-che')![0];
+
+    await expect(
+      patcher.updateTemplate('java-spring', { components: devWorkspace.spec.template.components, commands })
+    ).rejects.toThrow(
+      'Unable to update the workspace java-spring. Cause: the projects have been modified concurrently'
+    );
+    expect(customObjectsApi.patchCount).toBe(1);
+    expect(customObjectsApi.objects.get('user-che')![0].spec.template.projects).toStrictEqual([]);
+  });
+
+  test('give up after repeated conflicts', async () => {
+    customObjectsApi.beforePatch = object => {
+      object.metadata.resourceVersion = `${parseInt(object.metadata.resourceVersion) + 1}`;
+    };
+
+    await expect(patcher.updateTemplate('java-spring', { commands })).rejects.toThrow(
+      'Unable to update the workspace java-spring. Cause: the object has been modified'
+    );
+    expect(customObjectsApi.patchCount).toBe(5);
+  });
+
+  test('do not retry on other errors', async () => {
+    await expect(patcher.updateTemplate('python', { commands })).rejects.toThrow(
+      'Unable to update the workspace python. Cause: devworkspaces "python" not found'
+    );
+    expect(customObjectsApi.patchCount).toBe(0);
+  });
+});
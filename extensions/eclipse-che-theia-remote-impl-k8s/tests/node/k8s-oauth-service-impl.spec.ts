@@ -0,0 +1,138 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { Container } from 'inversify';
+import { FakeCoreV1Api } from './fake-core-v1-api';
+import { K8SServiceImpl } from '../../src/node/k8s-service-impl';
+import { K8sDevWorkspaceEnvVariables } from '../../src/node/k8s-devworkspace-env-variables';
+import { K8sOAuthServiceImpl } from '../../src/node/k8s-oauth-service-impl';
+
+describe('Test K8sOAuthServiceImpl', () => {
+  let coreApi: FakeCoreV1Api;
+  let oAuthService: K8sOAuthServiceImpl;
+
+  const encode = (value: string) => Buffer.from(value).toString('base64');
+
+  function createTokenSecret(name: string, scmUrl: string, token: string, provider?: string): any {
+    const annotations: { [key: string]: string } = { 'che.eclipse.org/scm-url': scmUrl };
+    if (provider) {
+      annotations['che.eclipse.org/scm-personal-access-token-name'] = provider;
+    }
+    return {
+      metadata: {
+        name,
+        labels: {
+          'app.kubernetes.io/component': 'scm-personal-access-token',
+          'app.kubernetes.io/part-of': 'che.eclipse.org',
+        },
+        annotations,
+      },
+      data: { token: encode(token) },
+    };
+  }
+
+  beforeEach(() => {
+    coreApi = new FakeCoreV1Api();
+    coreApi.secrets.set('user-che', [
+      createTokenSecret('personal-access-token-1', 'https://github.com', 'github-token', 'github'),
+      createTokenSecret('personal-access-token-2', 'https://gitlab.example.com/', 'gitlab-token'),
+      // secrets of other components are ignored
+      { metadata: { name: 'git-credentials', labels: {} }, data: { token: encode('other') } },
+      // as well as the secrets without a valid SCM server URL
+      createTokenSecret('personal-access-token-3', 'https://git hub', 'malformed-token', 'github'),
+    ]);
+
+    const container = new Container();
+    container.bind(K8SServiceImpl).toConstantValue({ makeApiClient: () => coreApi } as any);
+    container.bind(K8sDevWorkspaceEnvVariables).toConstantValue({ getWorkspaceNamespace: () => 'user-che' } as any);
+    container.bind(K8sOAuthServiceImpl).toSelf().inSingletonScope();
+    oAuthService = container.get(K8sOAuthServiceImpl);
+  });
+
+  test('getOAuthProviders', async () => {
+    expect(await oAuthService.getOAuthProviders()).toStrictEqual(['github', 'gitlab.example.com']);
+  });
+
+  test('getOAuthToken by provider or SCM server URL', async () => {
+    expect(await oAuthService.getOAuthToken('github')).toBe('github-token');
+    expect(await oAuthService.getOAuthToken('gitlab.example.com')).toBe('gitlab-token');
+    expect(await oAuthService.getOAuthToken('https://gitlab.example.com')).toBe('gitlab-token');
+    await expect(oAuthService.getOAuthToken('bitbucket')).rejects.toThrow(
+      'No personal access token is defined for bitbucket'
+    );
+  });
+
+  test('isAuthenticated', async () => {
+    expect(await oAuthService.isAuthenticated('github')).toBe(true);
+    expect(await oAuthService.isAuthenticated('bitbucket')).toBe(false);
+  });
+
+  test('getPersonalAccessTokens', async () => {
+    expect(await oAuthService.getPersonalAccessTokens()).toStrictEqual([
+      { scmUrl: 'https://github.com', provider: 'github' },
+      { scmUrl: 'https://gitlab.example.com', provider: 'gitlab.example.com' },
+    ]);
+  });
+
+  test('match the well-known SCM servers by their exact host', async () => {
+    const token = await oAuthService.setPersonalAccessToken('https://github.com.example.com', 'other-token');
+
+    expect(token).toStrictEqual({ scmUrl: 'https://github.com.example.com', provider: 'github.com.example.com' });
+    expect(await oAuthService.getOAuthToken('github')).toBe('github-token');
+  });
+
+  test('add a personal access token', async () => {
+    const token = await oAuthService.setPersonalAccessToken('bitbucket.org', 'bitbucket-token');
+
+    expect(token).toStrictEqual({ scmUrl: 'https://bitbucket.org', provider: 'bitbucket' });
+    expect(await oAuthService.getOAuthToken('bitbucket')).toBe('bitbucket-token');
+    const secret = (coreApi.secrets.get('user-che') || [])[4];
+    expect(secret.metadata.name).toMatch(/^personal-access-token-bitbucket-org-[0-9a-f]{8}$/);
+    expect(secret.metadata.labels).toStrictEqual({
+      'app.kubernetes.io/component': 'scm-personal-access-token',
+      'app.kubernetes.io/part-of': 'che.eclipse.org',
+    });
+    expect(secret.metadata.annotations).toStrictEqual({
+      'che.eclipse.org/scm-url': 'https://bitbucket.org',
+      'che.eclipse.org/scm-personal-access-token-name': 'bitbucket',
+    });
+  });
+
+  test('replace a personal access token', async () => {
+    await oAuthService.setPersonalAccessToken('https://github.com/eclipse/che', 'new-token');
+
+    expect(await oAuthService.getOAuthToken('github')).toBe('new-token');
+    const secrets = coreApi.secrets.get('user-che') || [];
+    expect(secrets.length).toBe(4);
+    expect(secrets[0].metadata.name).toBe('personal-access-token-1');
+  });
+
+  test('add an invalid personal access token', async () => {
+    await expect(oAuthService.setPersonalAccessToken('https://github.com', '')).rejects.toThrow(
+      'The personal access token of https://github.com is empty'
+    );
+    await expect(oAuthService.setPersonalAccessToken('https://git hub', 'token')).rejects.toThrow(
+      'Invalid SCM server URL https://git hub'
+    );
+  });
+
+  test('delete a personal access token', async () => {
+    await oAuthService.deletePersonalAccessToken('https://github.com');
+
+    expect(await oAuthService.isAuthenticated('github')).toBe(false);
+    expect((coreApi.secrets.get('user-che') || []).length).toBe(3);
+    await expect(oAuthService.deletePersonalAccessToken('github.com')).rejects.toThrow(
+      'No personal access token is defined for https://github.com'
+    );
+  });
+});
@@ -0,0 +1,350 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { Container } from 'inversify';
+import { DevfileService } from '@eclipse-che/theia-remote-api/lib/common/devfile-service';
+import { EndpointService } from '@eclipse-che/theia-remote-api/lib/common/endpoint-service';
+import { FakeCustomObjectsApi } from './fake-custom-objects-api';
+import { HttpService } from '@eclipse-che/theia-remote-api/lib/common/http-service';
+import { K8SServiceImpl } from '../../src/node/k8s-service-impl';
+import { K8sDevWorkspaceEnvVariables } from '../../src/node/k8s-devworkspace-env-variables';
+import { K8sDevWorkspacePatcher } from '../../src/node/k8s-devworkspace-patcher';
+import { K8sWorkspaceServiceImpl } from '../../src/node/k8s-workspace-service-impl';
+
+/**
+ * Fake watch of Kubernetes, the events are sent by the tests.
+ */
+class FakeWatch {
+  path: string;
+  queryParams: any;
+  callback: (type: string, object: any) => void;
+  done: (error: any) => void;
+  readonly request = { abort: jest.fn() };
+
+  async watch(
+    path: string,
+    queryParams: any,
+    callback: (type: string, object: any) => void,
+    done: (error: any) => void
+  ): Promise<any> {
+    this.path = path;
+    this.queryParams = queryParams;
+    this.callback = callback;
+    this.done = done;
+    return this.request;
+  }
+}
+
+function createDevWorkspace(name: string, id: string, phase: string, mainUrl?: string, namespace = 'user-che'): any {
+  return {
+    apiVersion: 'workspace.devfile.io/v1alpha2',
+    kind: 'DevWorkspace',
+    metadata: {
+      name,
+      namespace,
+      resourceVersion: '100',
+      creationTimestamp: '2022-01-10T10:00:00Z',
+      annotations: { 'che.eclipse.org/last-updated-timestamp': '2022-01-12T08:30:00Z' },
+    },
+    spec: {
+      started: phase !== 'Stopped',
+      template: {
+        projects: [
+          { name: 'web-nodejs-sample', git: { remotes: { origin: 'https://github.com/che-samples/web.git' } } },
+        ],
+        components: [
+          {
+            name: 'theia-ide',
+            container: {
+              image: 'quay.io/eclipse/che-theia:next',
+              endpoints: [
+                { name: 'theia', targetPort: 3100, exposure: 'public', attributes: { type: 'main' } },
+                { name: 'theia-dev', targetPort: 3130, exposure: 'public' },
+              ],
+            },
+          },
+          { name: 'projects', volume: {} },
+        ],
+      },
+    },
+    status: { devworkspaceId: id, phase, mainUrl },
+  };
+}
+
+describe('Test K8sWorkspaceServiceImpl', () => {
+  let container: Container;
+  let customObjectsApi: FakeCustomObjectsApi;
+  let k8sWorkspaceService: K8sWorkspaceServiceImpl;
+
+  const k8sServiceMock = {
+    makeApiClient: () => customObjectsApi,
+  } as any;
+
+  const k8sDevWorkspaceEnvVariables = {
+    getWorkspaceId: () => 'workspace-running',
+    getWorkspaceName: () => 'nodejs-web-app',
+    getWorkspaceNamespace: () => 'user-che',
+  } as any;
+
+  beforeEach(() => {
+    customObjectsApi = new FakeCustomObjectsApi();
+    customObjectsApi.objects.set('user-che', [
+      createDevWorkspace('nodejs-web-app', 'workspace-running', 'Running', 'https://che.example.com/user/nodejs/3100/'),
+      createDevWorkspace('java-spring', 'workspace-stopped', 'Stopped'),
+    ]);
+    customObjectsApi.objects.set('other-che', [
+      createDevWorkspace('python', 'workspace-other', 'Starting', undefined, 'other-che'),
+    ]);
+
+    container = new Container();
+    container.bind(K8SServiceImpl).toConstantValue(k8sServiceMock);
+    container.bind(K8sDevWorkspaceEnvVariables).toConstantValue(k8sDevWorkspaceEnvVariables);
+    container.bind(DevfileService).toConstantValue({} as any);
+    container.bind(EndpointService).toConstantValue({} as any);
+    container.bind(HttpService).toConstantValue({} as any);
+    container.bind(K8sDevWorkspacePatcher).toSelf().inSingletonScope();
+    container.bind(K8sWorkspaceServiceImpl).toSelf().inSingletonScope();
+    k8sWorkspaceService = container.get(K8sWorkspaceServiceImpl);
+  });
+
+  test('getAll', async () => {
+    const workspaces = await k8sWorkspaceService.getAll();
+
+    expect(workspaces.map(workspace => workspace.id)).toStrictEqual(['workspace-running', 'workspace-stopped']);
+    expect(workspaces.map(workspace => workspace.status)).toStrictEqual(['RUNNING', 'STOPPED']);
+  });
+
+  test('getAllByNamespace', async () => {
+    const workspaces = await k8sWorkspaceService.getAllByNamespace('other-che');
+
+    expect(workspaces.length).toBe(1);
+    expect(workspaces[0].name).toBe('python');
+    expect(workspaces[0].namespace).toBe('other-che');
+    expect(workspaces[0].status).toBe('STARTING');
+    expect(workspaces[0].runtime).toBeUndefined();
+  });
+
+  test('getAllByNamespace in a forbidden namespace', async () => {
+    await expect(k8sWorkspaceService.getAllByNamespace('admin-che')).rejects.toThrow(
+      'Unable to list the workspaces of the namespace admin-che. Cause: namespaces "admin-che" is forbidden'
+    );
+  });
+
+  test('getWorkspaceById', async () => {
+    const workspace = await k8sWorkspaceService.getWorkspaceById('workspace-running');
+
+    expect(workspace.name).toBe('nodejs-web-app');
+    expect(workspace.attributes).toStrictEqual({
+      created: `${Date.UTC(2022, 0, 10, 10)}`,
+      updated: `${Date.UTC(2022, 0, 12, 8, 30)}`,
+    });
+    expect(workspace.links).toStrictEqual({ ide: 'https://che.example.com/user/nodejs/3100/' });
+    expect(workspace.devfile?.metadata?.name).toBe('nodejs-web-app');
+    expect(workspace.devfile?.projects?.[0].name).toBe('web-nodejs-sample');
+
+    const servers = workspace.runtime?.machines?.['theia-ide'].servers || {};
+    expect(servers['theia']).toStrictEqual({
+      attributes: { type: 'main', port: '3100' },
+      url: 'https://che.example.com/user/nodejs/3100/',
+      status: 'RUNNING',
+    });
+    expect(servers['theia-dev'].url).toBeUndefined();
+    expect(workspace.runtime?.machines?.['projects']).toBeUndefined();
+  });
+
+  test('getWorkspaceById of a failed workspace', async () => {
+    const failed = createDevWorkspace('go', 'workspace-failed', 'Failed');
+    failed.status.message = 'Container tools has state CrashLoopBackOff';
+    customObjectsApi.objects.get('user-che')!.push(failed);
+
+    const workspace = await k8sWorkspaceService.getWorkspaceById('workspace-failed');
+
+    expect(workspace.status).toBe('FAILED');
+    expect(workspace.attributes!.errorMessage).toBe('Container tools has state CrashLoopBackOff');
+    expect(workspace.runtime).toBeUndefined();
+  });
+
+  test('startWorkspace', async () => {
+    await k8sWorkspaceService.startWorkspace('workspace-stopped');
+
+    const devWorkspaces = customObjectsApi.objects.get('user-che') || [];
+    expect(devWorkspaces[1].spec.started).toBe(true);
+  });
+
+  test('stopWorkspace', async () => {
+    await k8sWorkspaceService.stopWorkspace('workspace-running');
+
+    const devWorkspaces = customObjectsApi.objects.get('user-che') || [];
+    expect(devWorkspaces[0].spec.started).toBe(false);
+    expect(devWorkspaces[1].spec.started).toBe(false);
+  });
+
+  test('watchWorkspaceStatus', async () => {
+    const watch = new FakeWatch();
+    jest.spyOn(k8sWorkspaceService as any, 'createWatch').mockReturnValue(watch);
+    const notifyWorkspaceStatusChanged = jest.fn().mockResolvedValue(undefined);
+    k8sWorkspaceService.setClient({ notifyWorkspaceStatusChanged });
+
+    await k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped');
+    expect(watch.path).toBe('/apis/workspace.devfile.io/v1alpha2/namespaces/user-che/devworkspaces');
+    expect(watch.queryParams).toStrictEqual({ fieldSelector: 'metadata.name=java-spring' });
+
+    const url = 'https://che.example.com/user/java/3100/';
+    watch.callback('MODIFIED', createDevWorkspace('java-spring', 'workspace-stopped', 'Starting'));
+    // no transition
+    watch.callback('MODIFIED', createDevWorkspace('java-spring', 'workspace-stopped', 'Starting'));
+    watch.callback('MODIFIED', createDevWorkspace('java-spring', 'workspace-stopped', 'Running', url));
+    const failed = createDevWorkspace('java-spring', 'workspace-stopped', 'Failed');
+    failed.status.message = 'Container tools has state CrashLoopBackOff';
+    watch.callback('MODIFIED', failed);
+
+    expect(notifyWorkspaceStatusChanged.mock.calls.map(call => call[0])).toEqual([
+      { workspaceId: 'workspace-stopped', status: 'STOPPED' },
+      { workspaceId: 'workspace-stopped', status: 'STARTING' },
+      { workspaceId: 'workspace-stopped', status: 'RUNNING', mainUrl: url },
+      { workspaceId: 'workspace-stopped', status: 'FAILED', message: 'Container tools has state CrashLoopBackOff' },
+    ]);
+
+    await k8sWorkspaceService.unwatchWorkspaceStatus('workspace-stopped');
+    expect(watch.request.abort).toHaveBeenCalled();
+  });
+
+  test('watch a workspace once when it is watched concurrently', async () => {
+    const createWatchSpy = jest.spyOn(k8sWorkspaceService as any, 'createWatch').mockReturnValue(new FakeWatch());
+
+    await Promise.all([
+      k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped'),
+      k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped'),
+    ]);
+
+    expect(createWatchSpy).toBeCalledTimes(1);
+  });
+
+  test('restart the watch ended by the API server', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const firstWatch = new FakeWatch();
+    const secondWatch = new FakeWatch();
+    const createWatchSpy = jest
+      .spyOn(k8sWorkspaceService as any, 'createWatch')
+      .mockReturnValueOnce(firstWatch)
+      .mockReturnValueOnce(secondWatch);
+    const notifyWorkspaceStatusChanged = jest.fn().mockResolvedValue(undefined);
+    k8sWorkspaceService.setClient({ notifyWorkspaceStatusChanged });
+
+    await k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped');
+    firstWatch.done(undefined);
+    await Promise.resolve();
+    expect(createWatchSpy).toBeCalledTimes(2);
+    expect(secondWatch.queryParams).toStrictEqual({ fieldSelector: 'metadata.name=java-spring' });
+    secondWatch.callback('MODIFIED', createDevWorkspace('java-spring', 'workspace-stopped', 'Starting'));
+    expect(notifyWorkspaceStatusChanged).lastCalledWith({ workspaceId: 'workspace-stopped', status: 'STARTING' });
+
+    // the failed watch is not restarted, the workspace can be watched again
+    secondWatch.done(new Error('Gone'));
+    expect(consoleErrorSpy).toBeCalledWith(
+      'The watch of the workspace workspace-stopped has failed',
+      new Error('Gone')
+    );
+    createWatchSpy.mockReturnValue(new FakeWatch());
+    await k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped');
+    expect(createWatchSpy).toBeCalledTimes(3);
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('keep the next watch of a workspace when the aborted watch ends', async () => {
+    const firstWatch = new FakeWatch();
+    const secondWatch = new FakeWatch();
+    const createWatchSpy = jest
+      .spyOn(k8sWorkspaceService as any, 'createWatch')
+      .mockReturnValueOnce(firstWatch)
+      .mockReturnValueOnce(secondWatch);
+
+    await k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped');
+    await k8sWorkspaceService.unwatchWorkspaceStatus('workspace-stopped');
+    await k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped');
+    firstWatch.done(undefined);
+    await Promise.resolve();
+
+    expect(createWatchSpy).toBeCalledTimes(2);
+    await k8sWorkspaceService.unwatchWorkspaceStatus('workspace-stopped');
+    expect(secondWatch.request.abort).toHaveBeenCalled();
+  });
+
+  test('keep watching the workspaces until the last client is disconnected', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const watch = new FakeWatch();
+    jest.spyOn(k8sWorkspaceService as any, 'createWatch').mockReturnValue(watch);
+    const firstClient = { notifyWorkspaceStatusChanged: jest.fn().mockRejectedValue(new Error('connection closed')) };
+    const secondClient = { notifyWorkspaceStatusChanged: jest.fn().mockResolvedValue(undefined) };
+    k8sWorkspaceService.setClient(firstClient);
+    k8sWorkspaceService.setClient(secondClient);
+
+    await k8sWorkspaceService.watchWorkspaceStatus('workspace-stopped');
+    await Promise.resolve();
+    expect(secondClient.notifyWorkspaceStatusChanged).toBeCalledWith({
+      workspaceId: 'workspace-stopped',
+      status: 'STOPPED',
+    });
+    expect(consoleErrorSpy).toBeCalledWith(
+      'Unable to notify the status of the workspace workspace-stopped',
+      new Error('connection closed')
+    );
+
+    k8sWorkspaceService.disconnectClient(firstClient);
+    expect(watch.request.abort).not.toHaveBeenCalled();
+    watch.callback('MODIFIED', createDevWorkspace('java-spring', 'workspace-stopped', 'Starting'));
+    expect(firstClient.notifyWorkspaceStatusChanged).toBeCalledTimes(1);
+    expect(secondClient.notifyWorkspaceStatusChanged).toBeCalledTimes(2);
+
+    k8sWorkspaceService.disconnectClient(secondClient);
+    expect(watch.request.abort).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('updateWorkspace', async () => {
+    const workspace = await k8sWorkspaceService.getWorkspaceById('workspace-stopped');
+    const devfile: any = workspace.devfile;
+    devfile.projects.push({ name: 'spring-petclinic', git: { remotes: { origin: 'https://github.com/spring.git' } } });
+    devfile.attributes = { 'che-theia.eclipse.org/sidecar-policy': 'USE_DEV_CONTAINER' };
+
+    const updated = await k8sWorkspaceService.updateWorkspace('workspace-stopped', workspace);
+
+    expect(updated.devfile?.projects?.map(project => project.name)).toStrictEqual([
+      'web-nodejs-sample',
+      'spring-petclinic',
+    ]);
+    const devWorkspace = (customObjectsApi.objects.get('user-che') || [])[1];
+    expect(devWorkspace.metadata.resourceVersion).toBe('101');
+    expect(devWorkspace.spec.template.projects.length).toBe(2);
+    expect(devWorkspace.spec.template.attributes).toStrictEqual({
+      'che-theia.eclipse.org/sidecar-policy': 'USE_DEV_CONTAINER',
+    });
+    // the fields added to map the DevWorkspace to a devfile are not written back
+    expect(devWorkspace.spec.template.schemaVersion).toBeUndefined();
+  });
+
+  test('updateWorkspace without devfile', async () => {
+    const workspace = await k8sWorkspaceService.getWorkspaceById('workspace-stopped');
+
+    await expect(
+      k8sWorkspaceService.updateWorkspace('workspace-stopped', { ...workspace, devfile: undefined })
+    ).rejects.toThrow('Unable to update the workspace workspace-stopped, it has no devfile');
+    expect((customObjectsApi.objects.get('user-che') || [])[1].metadata.resourceVersion).toBe('100');
+  });
+
+  test('getWorkspaceById with an unknown id', async () => {
+    await expect(k8sWorkspaceService.getWorkspaceById('unknown')).rejects.toThrow(
+      'Workspace with id unknown not found'
+    );
+  });
+});
@@ -12,6 +12,7 @@ import { ApplicationShell, Key, KeyCode, KeyModifier, KeybindingRegistry } from
 import { Command, CommandRegistry, MenuModelRegistry } from '@theia/core/lib/common';
 import {
   REMOTE_TERMINAL_WIDGET_FACTORY_ID,
+  RemoteTerminalWidget,
   RemoteTerminalWidgetFactoryOptions,
 } from '../terminal-widget/remote-terminal-widget';
 import {
@@ -19,18 +20,22 @@ import {
   TerminalFrontendContribution,
   TerminalMenus,
 } from '@theia/terminal/lib/browser/terminal-frontend-contribution';
+import { TerminalProfile, resolveProfileCwd } from './terminal-profiles';
 import { TerminalWidget, TerminalWidgetOptions } from '@theia/terminal/lib/browser/base/terminal-widget';
 import { inject, injectable } from 'inversify';
 
 import { BrowserMainMenuFactory } from '@theia/core/lib/browser/menu/browser-menu-plugin';
 import { EndpointService } from '@eclipse-che/theia-remote-api/lib/common/endpoint-service';
 import { EnvVariablesServer } from '@theia/core/lib/common/env-variables';
+import { FileStatNode } from '@theia/filesystem/lib/browser';
 import { MenuBar as MenuBarWidget } from '@phosphor/widgets';
 import { TERMINAL_WIDGET_FACTORY_ID } from '@theia/terminal/lib/browser/terminal-widget-impl';
 import { TerminalApiEndPointProvider } from '../server-definition/terminal-proxy-creator';
+import { TerminalBroadcastService } from '../terminal-widget/terminal-broadcast-service';
 import { TerminalKeybindingContext } from './keybinding-context';
 import { TerminalKeybindingContexts } from '@theia/terminal/lib/browser/terminal-keybinding-contexts';
 import { TerminalQuickOpenService } from './terminal-quick-open';
+import URI from '@theia/core/lib/common/uri';
 import { WorkspaceService } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
 import { filterRecipeContainers } from './terminal-command-filter';
 import { isOSX } from '@theia/core/lib/common/os';
@@ -40,8 +45,28 @@ export const NewTerminalInSpecificContainer = {
   label: 'Open Terminal in specific container',
 };
 
+export const ToggleTerminalLogging = {
+  id: 'terminal-logging:toggle',
+  label: 'Terminal: Start/Stop Logging',
+};
+
+export const ToggleTerminalBroadcast = {
+  id: 'terminal-broadcast:toggle',
+  label: 'Terminal: Toggle Broadcast Input',
+};
+
+export const StopTerminalBroadcast = {
+  id: 'terminal-broadcast:stop',
+  label: 'Terminal: Stop Broadcast Input',
+};
+
+export const OpenBroadcastTerminals = {
+  id: 'terminal-broadcast:open-all',
+  label: 'Terminal: Open Terminals in All Containers with Broadcast Input',
+};
+
 export interface OpenTerminalHandler {
-  (containerName: string): void;
+  (containerName: string, profile?: TerminalProfile): void;
 }
 
 @injectable()
@@ -67,6 +92,9 @@ export class ExecTerminalFrontendContribution extends TerminalFrontendContributi
   @inject(EnvVariablesServer)
   protected readonly baseEnvVariablesServer: EnvVariablesServer;
 
+  @inject(TerminalBroadcastService)
+  protected readonly broadcastService: TerminalBroadcastService;
+
   private readonly mainMenuId = 'theia:menubar';
   private editorContainerName: string | undefined;
 
@@ -78,8 +106,8 @@ export class ExecTerminalFrontendContribution extends TerminalFrontendContributi
           if (containerNameToExecute) {
             this.openTerminalByContainerName(containerNameToExecute);
           } else {
-            this.terminalQuickOpen.displayListMachines(containerName => {
-              this.openTerminalByContainerName(containerName);
+            this.terminalQuickOpen.displayListMachines((containerName, profile) => {
+              this.openTerminalByContainerName(containerName, profile);
             });
           }
         },
@@ -87,6 +115,23 @@ export class ExecTerminalFrontendContribution extends TerminalFrontendContributi
 
       await this.registerTerminalCommandPerContainer(registry);
 
+      registry.registerCommand(ToggleTerminalLogging, {
+        isEnabled: () => this.shell.activeWidget instanceof RemoteTerminalWidget,
+        execute: () => (this.shell.activeWidget as RemoteTerminalWidget).toggleLogging(),
+      });
+
+      registry.registerCommand(ToggleTerminalBroadcast, {
+        isEnabled: () => this.shell.activeWidget instanceof RemoteTerminalWidget,
+        execute: () => (this.shell.activeWidget as RemoteTerminalWidget).toggleBroadcast(),
+      });
+      registry.registerCommand(StopTerminalBroadcast, {
+        isEnabled: () => this.broadcastService.size > 0,
+        execute: () => this.broadcastService.clear(),
+      });
+      registry.registerCommand(OpenBroadcastTerminals, {
+        execute: () => this.openBroadcastTerminals(),
+      });
+
       registry.registerCommand(TerminalCommands.TERMINAL_FIND_TEXT);
       registry.registerHandler(TerminalCommands.TERMINAL_FIND_TEXT.id, {
         isEnabled: () => {
@@ -170,7 +215,10 @@ export class ExecTerminalFrontendContribution extends TerminalFrontendContributi
         label: 'New terminal for ' + container.name,
       };
       registry.registerCommand(termCommandPerContainer, {
-        execute: () => this.openTerminalByContainerName(container.name),
+        execute: () =>
+          this.terminalQuickOpen.displayListProfiles(container.name, (containerName, profile) =>
+            this.openTerminalByContainerName(containerName, profile)
+          ),
       });
     }
   }
@@ -201,13 +249,57 @@ export class ExecTerminalFrontendContribution extends TerminalFrontendContributi
     throw new Error('Unable to create new terminal for machine: ' + containerName);
   }
 
-  async openTerminalByContainerName(containerName: string): Promise<void> {
-    const cwd = await this.selectTerminalCwd();
-    const termWidget = await this.newTerminalPerContainer(containerName, { cwd });
+  async openTerminalByContainerName(containerName: string, profile?: TerminalProfile): Promise<void> {
+    const options: TerminalWidgetOptions = {};
+    if (profile) {
+      // the relative directory of the profile is resolved from the folder selected in the explorer
+      const selectedFolder = this.getSelectedFolder() || (await this.selectTerminalCwd());
+      const selectedPath = selectedFolder ? new URI(selectedFolder).path.toString() : undefined;
+      options.cwd = resolveProfileCwd(profile.cwd, selectedPath);
+      options.shellPath = profile.shellPath;
+      options.shellArgs = profile.shellArgs;
+      options.env = profile.env;
+    } else {
+      options.cwd = await this.selectTerminalCwd();
+    }
+    const termWidget = await this.newTerminalPerContainer(containerName, options);
     this.open(termWidget);
     termWidget.start();
   }
 
+  /**
+   * Open a terminal in each container of the workspace, the input typed in any of them is sent to all of them.
+   */
+  async openBroadcastTerminals(): Promise<void> {
+    const containers = filterRecipeContainers(await this.remoteWorkspaceService.getContainerList());
+    for (const container of containers) {
+      // the terminals of the other containers are opened when a container fails
+      try {
+        const termWidget = await this.newTerminalPerContainer(container.name, {});
+        this.open(termWidget);
+        await termWidget.start();
+        if (termWidget instanceof RemoteTerminalWidget) {
+          this.broadcastService.add(termWidget);
+        }
+      } catch (error) {
+        console.error(`Failed to open the broadcast terminal of the container ${container.name}. Cause: `, error);
+      }
+    }
+  }
+
+  /**
+   * Folder selected in the explorer, or the folder of the selected file.
+   */
+  protected getSelectedFolder(): string | undefined {
+    const selection = this.selectionService.selection;
+    const node = Array.isArray(selection) ? selection[0] : selection;
+    if (FileStatNode.is(node)) {
+      const uri = node.fileStat.isDirectory ? node.uri : node.uri.parent;
+      return uri.toString();
+    }
+    return undefined;
+  }
+
   async getEditorContainerName(): Promise<string | undefined> {
     if (!this.editorContainerName) {
       const ideComponents = await this.endpointService.getEndpointsByType('main');
@@ -0,0 +1,82 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import {
+  PreferenceContribution,
+  PreferenceProxy,
+  PreferenceSchema,
+  PreferenceService,
+  createPreferenceProxy,
+} from '@theia/core/lib/browser';
+
+import { interfaces } from 'inversify';
+
+export const TerminalLoggingConfigurationSchema: PreferenceSchema = {
+  type: 'object',
+  properties: {
+    'terminal.che.logging.containers': {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Containers whose terminals are always logged, `*` logs the terminals of all the containers.',
+      default: [],
+    },
+    'terminal.che.logging.directory': {
+      type: 'string',
+      description: 'Directory of the terminal logs, relative to the projects root.',
+      default: '.che/terminal-logs',
+    },
+    'terminal.che.logging.timestamps': {
+      type: 'boolean',
+      description: 'Add the time at the beginning of each logged line.',
+      default: false,
+    },
+    'terminal.che.logging.stripAnsi': {
+      type: 'boolean',
+      description: 'Remove the colors and the other escape sequences from the logs.',
+      default: true,
+    },
+    'terminal.che.logging.maxFileSize': {
+      type: 'number',
+      description: 'Size in kilobytes above which a log file is rotated.',
+      default: 5120,
+      minimum: 1,
+    },
+    'terminal.che.logging.maxFiles': {
+      type: 'number',
+      description: 'Number of rotated log files kept for each terminal.',
+      default: 3,
+      minimum: 0,
+    },
+  },
+};
+
+export interface TerminalLoggingConfiguration {
+  'terminal.che.logging.containers': string[];
+  'terminal.che.logging.directory': string;
+  'terminal.che.logging.timestamps': boolean;
+  'terminal.che.logging.stripAnsi': boolean;
+  'terminal.che.logging.maxFileSize': number;
+  'terminal.che.logging.maxFiles': number;
+}
+
+export const TerminalLoggingPreferences = Symbol('TerminalLoggingPreferences');
+export type TerminalLoggingPreferences = PreferenceProxy<TerminalLoggingConfiguration>;
+
+export function createTerminalLoggingPreferences(preferences: PreferenceService): TerminalLoggingPreferences {
+  return createPreferenceProxy(preferences, TerminalLoggingConfigurationSchema);
+}
+
+export function bindTerminalLoggingPreferences(bind: interfaces.Bind): void {
+  bind(TerminalLoggingPreferences).toDynamicValue(ctx => {
+    const preferences = ctx.container.get<PreferenceService>(PreferenceService);
+    return createTerminalLoggingPreferences(preferences);
+  });
+  bind(PreferenceContribution).toConstantValue({ schema: TerminalLoggingConfigurationSchema });
+}
@@ -0,0 +1,82 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import {
+  PreferenceContribution,
+  PreferenceProxy,
+  PreferenceSchema,
+  PreferenceService,
+  createPreferenceProxy,
+} from '@theia/core/lib/browser';
+
+import { TerminalProfile } from './terminal-profiles';
+import { interfaces } from 'inversify';
+
+export const TerminalProfilesConfigurationSchema: PreferenceSchema = {
+  type: 'object',
+  properties: {
+    'terminal.che.profiles': {
+      type: 'array',
+      description: 'Profiles offered when a terminal is opened in a container.',
+      default: [],
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the profile.',
+          },
+          container: {
+            type: 'string',
+            description: 'Name of the container, the profile is offered for all the containers when it is not set.',
+          },
+          shellPath: {
+            type: 'string',
+            description: 'Path of the shell in the container, like /bin/zsh.',
+          },
+          shellArgs: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Arguments of the shell.',
+          },
+          cwd: {
+            type: 'string',
+            description: 'Working directory, absolute or relative to the folder selected in the explorer.',
+          },
+          env: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            description: 'Environment variables added to the terminal.',
+          },
+        },
+      },
+    },
+  },
+};
+
+export interface TerminalProfilesConfiguration {
+  'terminal.che.profiles': TerminalProfile[];
+}
+
+export const TerminalProfilesPreferences = Symbol('TerminalProfilesPreferences');
+export type TerminalProfilesPreferences = PreferenceProxy<TerminalProfilesConfiguration>;
+
+export function createTerminalProfilesPreferences(preferences: PreferenceService): TerminalProfilesPreferences {
+  return createPreferenceProxy(preferences, TerminalProfilesConfigurationSchema);
+}
+
+export function bindTerminalProfilesPreferences(bind: interfaces.Bind): void {
+  bind(TerminalProfilesPreferences).toDynamicValue(ctx => {
+    const preferences = ctx.container.get<PreferenceService>(PreferenceService);
+    return createTerminalProfilesPreferences(preferences);
+  });
+  bind(PreferenceContribution).toConstantValue({ schema: TerminalProfilesConfigurationSchema });
+}
@@ -0,0 +1,68 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/**
+ * Shell, working directory and environment used to open a terminal in a container.
+ */
+export interface TerminalProfile {
+  name: string;
+  // name of the container, the profile is offered for all the containers when it's not set
+  container?: string;
+  shellPath?: string;
+  shellArgs?: string[];
+  // absolute path, or path relative to the selected folder
+  cwd?: string;
+  env?: { [name: string]: string };
+}
+
+/**
+ * Profiles of the given container, the malformed profiles are ignored.
+ */
+export function getContainerProfiles(
+  profiles: TerminalProfile[] | undefined,
+  containerName: string
+): TerminalProfile[] {
+  if (!Array.isArray(profiles)) {
+    return [];
+  }
+  return profiles.filter(
+    profile =>
+      profile &&
+      typeof profile.name === 'string' &&
+      profile.name.length > 0 &&
+      (!profile.container || profile.container === containerName)
+  );
+}
+
+/**
+ * Working directory of a terminal: the directory of the profile, resolved against the selected folder when it's relative.
+ */
+export function resolveProfileCwd(
+  profileCwd: string | undefined,
+  selectedFolder: string | undefined
+): string | undefined {
+  if (!profileCwd) {
+    return selectedFolder;
+  }
+  if (profileCwd.startsWith('/') || !selectedFolder) {
+    return profileCwd;
+  }
+  const segments = selectedFolder.replace(/\/+$/, '').split('/');
+  profileCwd.split('/').forEach(segment => {
+    if (segment === '..') {
+      if (segments.length > 1) {
+        segments.pop();
+      }
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  });
+  return segments.join('/') || '/';
+}
@@ -9,9 +9,11 @@
  ***********************************************************************/
 
 import { ApplicationShell, KeybindingRegistry, QuickInputService, QuickPickItem } from '@theia/core/lib/browser';
+import { TerminalProfile, getContainerProfiles } from './terminal-profiles';
 import { inject, injectable } from 'inversify';
 
 import { OpenTerminalHandler } from './exec-terminal-contribution';
+import { TerminalProfilesPreferences } from './terminal-profiles-preferences';
 import { WorkspaceService } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
 import { isDevContainer } from './terminal-command-filter';
 
@@ -34,6 +36,9 @@ export class TerminalQuickOpenService {
   @inject('terminal-in-specific-container-command-id')
   protected readonly terminalInSpecificContainerCommandId: string;
 
+  @inject(TerminalProfilesPreferences)
+  protected readonly terminalProfilesPreferences: TerminalProfilesPreferences;
+
   async displayListMachines(doOpen: OpenTerminalHandler): Promise<void> {
     this.items = [];
 
@@ -42,29 +47,17 @@ export class TerminalQuickOpenService {
     const devContainers = containers.filter(container => isDevContainer(container));
     const toolingContainers = containers.filter(container => !isDevContainer(container));
 
-    const devContainerItems = devContainers.map(
-      container =>
-        ({
-          label: container.name,
-          execute: () => {
-            setTimeout(() => doOpen(container.name), 0);
-          },
-        } as QuickPickItem)
-    );
+    const devContainerItems: QuickPickItem[] = [];
+    devContainers.forEach(container => devContainerItems.push(...this.getContainerItems(container.name, doOpen)));
 
     if (devContainerItems.length > 0) {
       const groupLabel = devContainers.length === 1 ? 'Developer Container' : 'Developer Containers';
       devContainerItems.unshift({ type: 'separator', label: groupLabel });
     }
 
-    const toolingContainerItems = toolingContainers.map(
-      container =>
-        ({
-          label: container.name,
-          execute: () => {
-            setTimeout(() => doOpen(container.name), 0);
-          },
-        } as QuickPickItem)
+    const toolingContainerItems: QuickPickItem[] = [];
+    toolingContainers.forEach(container =>
+      toolingContainerItems.push(...this.getContainerItems(container.name, doOpen))
     );
 
     if (toolingContainerItems.length > 0) {
@@ -77,6 +70,62 @@ export class TerminalQuickOpenService {
     this.quickInputService.showQuickPick(this.items, { placeholder: 'Select container to create new terminal' });
   }
 
+  /**
+   * Let the user choose a profile of the container, the default shell is used when there are no profiles.
+   */
+  async displayListProfiles(containerName: string, doOpen: OpenTerminalHandler): Promise<void> {
+    const profiles = this.getProfiles(containerName);
+    if (profiles.length === 0) {
+      doOpen(containerName);
+      return;
+    }
+
+    const items: QuickPickItem[] = [
+      {
+        label: 'Default shell',
+        execute: () => {
+          setTimeout(() => doOpen(containerName), 0);
+        },
+      } as QuickPickItem,
+      ...profiles.map(profile => this.getProfileItem(profile.name, containerName, profile, doOpen)),
+    ];
+    this.quickInputService.showQuickPick(items, { placeholder: `Select terminal profile for ${containerName}` });
+  }
+
+  protected getContainerItems(containerName: string, doOpen: OpenTerminalHandler): QuickPickItem[] {
+    return [
+      {
+        label: containerName,
+        execute: () => {
+          setTimeout(() => doOpen(containerName), 0);
+        },
+      } as QuickPickItem,
+      ...this.getProfiles(containerName).map(profile =>
+        this.getProfileItem(`${containerName}: ${profile.name}`, containerName, profile, doOpen)
+      ),
+    ];
+  }
+
+  protected getProfileItem(
+    label: string,
+    containerName: string,
+    profile: TerminalProfile,
+    doOpen: OpenTerminalHandler
+  ): QuickPickItem {
+    return {
+      label,
+      description: [profile.shellPath, ...(profile.shellArgs || [])].filter(part => !!part).join(' '),
+      detail: profile.cwd,
+      execute: () => {
+        setTimeout(() => doOpen(containerName, profile), 0);
+      },
+    } as QuickPickItem;
+  }
+
+  protected getProfiles(containerName: string): TerminalProfile[] {
+    return getContainerProfiles(this.terminalProfilesPreferences['terminal.che.profiles'], containerName);
+  }
+
   protected getShortCutCommand(): string | undefined {
     const keyCommand = this.keybindingRegistry.getKeybindingsForCommand(this.terminalInSpecificContainerCommandId);
     if (keyCommand) {
@@ -25,6 +25,10 @@ export interface MachineIdentifier {
 export interface MachineExec {
   identifier: MachineIdentifier;
   cmd: string[];
+  // working directory of the process
+  cwd?: string;
+  // environment variables added to the process
+  env?: { [name: string]: string };
   tty: boolean;
   cols: number;
   rows: number;
@@ -53,6 +57,8 @@ export type RemoteTerminalServerProxy = JsonRpcProxy<RemoteTerminalServer>;
 // Terminal exec exit event
 export class ExecExitEvent {
   id: number;
+  // exit code of the process, when the server knows it
+  code?: number;
 }
 
 // Terminal exec error event
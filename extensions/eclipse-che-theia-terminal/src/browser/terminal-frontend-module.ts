@@ -8,6 +8,9 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
+import '../../src/browser/style/terminal-broadcast.css';
+import '../../src/browser/style/terminal-logging.css';
+
 import { Container, ContainerModule, interfaces } from 'inversify';
 import {
   ExecTerminalFrontendContribution,
@@ -36,12 +39,16 @@ import { EndpointService } from '@eclipse-che/theia-remote-api/lib/common/endpoi
 import { EnvVariablesServer } from '@theia/core/lib/common/env-variables';
 import { RemoteTerminaActiveKeybingContext } from './contribution/keybinding-context';
 import { RemoteWebSocketConnectionProvider } from './server-definition/remote-connection';
+import { TerminalBroadcastService } from './terminal-widget/terminal-broadcast-service';
 import { TerminalFrontendContribution } from '@theia/terminal/lib/browser/terminal-frontend-contribution';
 import { TerminalQuickOpenService } from './contribution/terminal-quick-open';
 import { TerminalSearchWidgetFactory } from '@theia/terminal/lib/browser/search/terminal-search-widget';
 import { TerminalService } from '@theia/terminal/lib/browser/base/terminal-service';
+import { TerminalSessionLogger } from './terminal-widget/terminal-session-logger';
 import { TerminalWidgetImpl } from '@theia/terminal/lib/browser/terminal-widget-impl';
 import URI from '@theia/core/lib/common/uri';
+import { bindTerminalLoggingPreferences } from './contribution/terminal-logging-preferences';
+import { bindTerminalProfilesPreferences } from './contribution/terminal-profiles-preferences';
 import { createTerminalSearchFactory } from '@theia/terminal/lib/browser/search/terminal-search-container';
 
 export default new ContainerModule(
@@ -52,8 +59,13 @@ export default new ContainerModule(
     bind(KeybindingContext).to(RemoteTerminaActiveKeybingContext).inSingletonScope();
 
     bind(RemoteTerminalWidget).toSelf();
+    // one logger per terminal
+    bind(TerminalSessionLogger).toSelf();
+    bindTerminalLoggingPreferences(bind);
+    bind(TerminalBroadcastService).toSelf().inSingletonScope();
 
     bind(TerminalQuickOpenService).toSelf().inSingletonScope();
+    bindTerminalProfilesPreferences(bind);
 
     bind(ExecTerminalFrontendContribution).toSelf().inSingletonScope();
 
@@ -9,6 +9,7 @@
 
 import {
   ATTACH_TERMINAL_SEGMENT,
+  MachineExec,
   RemoteTerminalServerProxy,
   RemoteTerminalWatcher,
 } from '../server-definition/remote-terminal-protocol';
@@ -23,7 +24,10 @@ import { Message } from '@theia/core/lib/browser';
 import { MessageService } from '@theia/core/lib/common';
 import ReconnectingWebSocket from 'reconnecting-websocket';
 import { RemoteWebSocketConnectionProvider } from '../server-definition/remote-connection';
+import { TerminalBroadcastService } from './terminal-broadcast-service';
+import { TerminalLoggingPreferences } from '../contribution/terminal-logging-preferences';
 import { TerminalProxyCreatorProvider } from '../server-definition/terminal-proxy-creator';
+import { TerminalSessionLogger } from './terminal-session-logger';
 import { TerminalWidgetImpl } from '@theia/terminal/lib/browser/terminal-widget-impl';
 import { TerminalWidgetOptions } from '@theia/terminal/lib/browser/base/terminal-widget';
 import URI from '@theia/core/lib/common/uri';
@@ -42,6 +46,25 @@ export interface RemoteTerminalWidgetFactoryOptions extends Partial<TerminalWidg
   created: string;
 }
 
+/**
+ * State stored in the layout, used to reattach the terminal to its exec session after a page reload.
+ */
+export interface RemoteTerminalWidgetState {
+  terminalId: number;
+  titleLabel: string;
+  machineName: string;
+  workspaceId: string;
+  cwd?: string;
+  // exit code of the session, set when the session ended while the page was open
+  exitCode?: number;
+  sessionEnded?: boolean;
+  // last lines of the terminal, replayed when the terminal is restored
+  scrollback?: string[];
+}
+
+// number of lines of the terminal kept in the layout
+const SCROLLBACK_LINES = 500;
+
 @injectable()
 export class RemoteTerminalWidget extends TerminalWidgetImpl {
   public static OUTPUT_CHANNEL_NAME = 'remote-terminal';
@@ -68,25 +91,47 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
   @inject(OutputChannelManager)
   protected readonly outputChannelManager: OutputChannelManager;
 
+  @inject(TerminalSessionLogger)
+  protected readonly sessionLogger: TerminalSessionLogger;
+
+  @inject(TerminalLoggingPreferences)
+  protected readonly loggingPreferences: TerminalLoggingPreferences;
+
+  @inject(TerminalBroadcastService)
+  protected readonly broadcastService: TerminalBroadcastService;
+
   private socket: ReconnectingWebSocket;
   protected channel: OutputChannel;
   protected closeOutputConnectionDisposable: Disposable;
   protected processGone: boolean;
+  protected exitCode: number | undefined;
+  protected restoredState: RemoteTerminalWidgetState | undefined;
+  protected scrollbackToReplay: string[] | undefined;
   private terminalApiEndPoint: URI | undefined;
 
   @postConstruct()
   protected init(): void {
     super.init();
     this.channel = this.outputChannelManager.getChannel(RemoteTerminalWidget.OUTPUT_CHANNEL_NAME);
+    this.toDispose.push(
+      Disposable.create(() =>
+        this.sessionLogger.stop().catch(error => this.logger.error(`Unable to stop the terminal log: ${error}`))
+      )
+    );
+    this.toDispose.push(this.broadcastService.onDidChange(() => this.updateTitle()));
+    this.toDispose.push(Disposable.create(() => this.broadcastService.remove(this)));
 
     this.toDispose.push(
       this.remoteTerminalWatcher.onTerminalExecExit(exitEvent => {
         if (this.terminalId === exitEvent.id) {
           this.processGone = true;
+          // machine-exec doesn't always send the exit code, the banner is shown without it then
+          this.exitCode = typeof exitEvent.code === 'number' ? exitEvent.code : undefined;
           if (this.options.closeWidgetOnExitOrError) {
             this.dispose();
           } else {
             this.closeOutputConnectionDisposable.dispose();
+            this.writeSessionEndedBanner(this.exitCode);
           }
           this.onTermDidClose.fire(this);
           this.onTermDidClose.dispose();
@@ -155,6 +200,10 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
     }
 
     this._terminalId = typeof id !== 'number' ? await this.createTerminal() : await this.attachTerminal(id);
+    if (this.processGone) {
+      // the restored session has ended, nothing to connect to
+      return this.terminalId;
+    }
 
     this.connectTerminalProcess();
 
@@ -166,6 +215,9 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
 
     if (IBaseTerminalServer.validateId(this.terminalId)) {
       this.onDidOpenEmitter.fire(undefined);
+      if (this.isAutoLogged()) {
+        await this.startLogging();
+      }
       return this.terminalId;
     }
     throw new Error('Failed to start terminal' + (id ? ` for id: ${id}.` : '.'));
@@ -230,15 +282,22 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
 
     this.socket = this.createWebSocket(this.terminalApiEndPoint!);
 
-    const sendListener = (data: string) => this.socket.send(data);
+    const sendListener = (data: string) => {
+      this.socket.send(data);
+      this.broadcastService.broadcast(this, data);
+    };
 
     let onDataDisposeHandler: IDisposable;
     this.socket.onopen = () => {
       this.term.reset();
+      this.replayScrollback();
       this.resolveRemoteConnection();
 
       onDataDisposeHandler = this.term.onData(sendListener);
-      this.socket.onmessage = ev => this.write(ev.data);
+      this.socket.onmessage = ev => {
+        this.write(ev.data);
+        this.sessionLogger.log(ev.data);
+      };
 
       this.closeOutputConnectionDisposable = Disposable.create(() => {
         onDataDisposeHandler.dispose();
@@ -265,6 +324,77 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
     };
   }
 
+  get isLogging(): boolean {
+    return this.sessionLogger.isLogging;
+  }
+
+  /**
+   * Start or stop to write the output of the terminal into a log file.
+   */
+  async toggleLogging(): Promise<void> {
+    if (this.sessionLogger.isLogging) {
+      await this.stopLogging();
+    } else {
+      await this.startLogging();
+    }
+  }
+
+  // the errors are shown to the user, the terminal is used without logging then
+  protected async startLogging(): Promise<void> {
+    let logFile: URI;
+    try {
+      logFile = await this.sessionLogger.start(this.options.machineName);
+    } catch (error) {
+      this.messageService.error(error.message);
+      return;
+    }
+    this.updateTitle();
+    this.messageService.info(`The output of the terminal is logged to ${logFile.path.toString()}`);
+  }
+
+  protected async stopLogging(): Promise<void> {
+    const logFile = this.sessionLogger.file;
+    await this.sessionLogger.stop();
+    this.updateTitle();
+    if (logFile) {
+      this.messageService.info(`The output of the terminal has been logged to ${logFile.path.toString()}`);
+    }
+  }
+
+  get isBroadcasting(): boolean {
+    return this.broadcastService.has(this);
+  }
+
+  /**
+   * Add the terminal to the terminals receiving the broadcast input, or remove it.
+   */
+  toggleBroadcast(): void {
+    this.broadcastService.toggle(this);
+  }
+
+  // show if the terminal is logged or receives the broadcast input
+  protected updateTitle(): void {
+    const classNames: string[] = [];
+    const captions: string[] = [];
+    const logFile = this.sessionLogger.file;
+    if (logFile) {
+      classNames.push('che-terminal-logging');
+      captions.push(`Logging to ${logFile.path.toString()}`);
+    }
+    if (this.isBroadcasting) {
+      classNames.push('che-terminal-broadcast');
+      captions.push(`Broadcast input to ${this.broadcastService.size} terminals`);
+    }
+    this.title.className = classNames.join(' ');
+    this.title.caption = captions.join('\n');
+  }
+
+  // the terminals of the containers listed in the preferences are logged as soon as they are opened
+  protected isAutoLogged(): boolean {
+    const containers = this.loggingPreferences['terminal.che.logging.containers'] || [];
+    return containers.includes('*') || containers.includes(this.options.machineName);
+  }
+
   protected createWebSocket(apiEndPoint: URI): ReconnectingWebSocket {
     const url = apiEndPoint.resolve(ATTACH_TERMINAL_SEGMENT).resolve(this.terminalId + '');
     return new ReconnectingWebSocket(url.toString(true), undefined, {
@@ -288,6 +418,11 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
     if (IBaseTerminalServer.validateId(termId) || this.kind !== 'user') {
       return termId;
     }
+    if (this.restoredState) {
+      // do not replace a session restored from the layout by a fresh shell silently
+      this.showEndedSession(this.restoredState.exitCode);
+      return id;
+    }
     this.logger.error(
       `Error attaching to terminal id ${id}, the terminal is most likely gone. Starting up a new terminal instead.`
     );
@@ -302,13 +437,14 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
       cmd = [this.options.shellPath, ...(this.options.shellArgs || [])];
     }
 
-    const machineExec = {
+    const machineExec: MachineExec = {
       identifier: {
         machineName: this.options.machineName,
         workspaceId: this.options.workspaceId,
       },
       cmd: cmd,
-      cwd: this.options.cwd,
+      cwd: this.getCwdPath(),
+      env: this.getEnv(),
       cols,
       rows,
       tty: true,
@@ -321,6 +457,32 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
     throw new Error('Error creating terminal widget');
   }
 
+  // the working directory may be given as an URI by the callers
+  protected getCwdPath(): string | undefined {
+    const cwd = this.options.cwd;
+    if (!cwd) {
+      return undefined;
+    }
+    const uri = typeof cwd === 'string' ? new URI(cwd) : cwd;
+    return uri.scheme === 'file' ? uri.path.toString() : cwd.toString();
+  }
+
+  // variables without a value can't be unset in an exec session, so they are ignored
+  protected getEnv(): { [name: string]: string } | undefined {
+    const env = this.options.env;
+    if (!env) {
+      return undefined;
+    }
+    const execEnv: { [name: string]: string } = {};
+    Object.keys(env).forEach(name => {
+      const value = env[name];
+      if (typeof value === 'string') {
+        execEnv[name] = value;
+      }
+    });
+    return execEnv;
+  }
+
   protected resizeTerminalProcess(): void {
     if (this.processGone) {
       return;
@@ -344,6 +506,76 @@ export class RemoteTerminalWidget extends TerminalWidgetImpl {
     }
   }
 
+  storeState(): object {
+    const state: RemoteTerminalWidgetState = {
+      ...(super.storeState() as { terminalId: number; titleLabel: string }),
+      machineName: this.options.machineName,
+      workspaceId: this.options.workspaceId,
+      cwd: this.options.cwd ? this.options.cwd.toString() : undefined,
+      exitCode: this.exitCode,
+      sessionEnded: this.processGone,
+      scrollback: this.getScrollback(),
+    };
+    return state;
+  }
+
+  restoreState(oldState: object): void {
+    if (this.restored) {
+      return;
+    }
+    const state = oldState as RemoteTerminalWidgetState;
+    this.restoredState = state;
+    this.options.machineName = this.options.machineName || state.machineName;
+    this.options.workspaceId = this.options.workspaceId || state.workspaceId;
+    if (!this.options.cwd && state.cwd) {
+      this.options.cwd = state.cwd;
+    }
+    this.scrollbackToReplay = state.scrollback;
+
+    if (state.sessionEnded) {
+      this.restored = true;
+      this.title.label = state.titleLabel;
+      this._terminalId = state.terminalId;
+      this.showEndedSession(state.exitCode);
+      return;
+    }
+    super.restoreState(oldState);
+  }
+
+  protected getScrollback(): string[] {
+    const buffer = this.term.buffer.active;
+    const lines: string[] = [];
+    for (let i = Math.max(buffer.length - SCROLLBACK_LINES, 0); i < buffer.length; i++) {
+      const line = buffer.getLine(i);
+      lines.push(line ? line.translateToString(true) : '');
+    }
+    // the empty lines below the prompt are not useful
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return lines;
+  }
+
+  protected replayScrollback(): void {
+    if (this.scrollbackToReplay && this.scrollbackToReplay.length > 0) {
+      this.term.write(this.scrollbackToReplay.join('\r\n') + '\r\n');
+      this.term.write('\x1b[2m--- reattached to the terminal session ---\x1b[0m\r\n');
+    }
+    this.scrollbackToReplay = undefined;
+  }
+
+  protected showEndedSession(exitCode: number | undefined): void {
+    this.processGone = true;
+    this.exitCode = exitCode;
+    this.replayScrollback();
+    this.writeSessionEndedBanner(exitCode);
+  }
+
+  protected writeSessionEndedBanner(exitCode: number | undefined): void {
+    const ended = typeof exitCode === 'number' ? `Session ended with code ${exitCode}.` : 'Session ended.';
+    this.term.write(`\r\n\x1b[1;33m${ended}\x1b[0m Open a new terminal to continue.\r\n`);
+  }
+
   protected onCloseRequest(msg: Message): void {
     this.closeOnDispose = true;
     super.onCloseRequest(msg);
@@ -0,0 +1,94 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import { Emitter, Event } from '@theia/core/lib/common/event';
+
+import { Disposable } from '@theia/core/lib/common/disposable';
+import { injectable } from 'inversify';
+
+export interface BroadcastTerminal {
+  readonly onTerminalDidClose: Event<unknown>;
+  sendText(text: string): void;
+}
+
+/**
+ * Group of terminals receiving the input typed in any of them, the terminals leave the group when they are closed.
+ */
+@injectable()
+export class TerminalBroadcastService {
+  // the terminals of the group, with the listener of their close
+  private readonly terminals = new Map<BroadcastTerminal, Disposable>();
+  private readonly onDidChangeEmitter = new Emitter<void>();
+
+  get onDidChange(): Event<void> {
+    return this.onDidChangeEmitter.event;
+  }
+
+  get size(): number {
+    return this.terminals.size;
+  }
+
+  has(terminal: BroadcastTerminal): boolean {
+    return this.terminals.has(terminal);
+  }
+
+  add(terminal: BroadcastTerminal): void {
+    if (!this.terminals.has(terminal)) {
+      const onCloseListener = terminal.onTerminalDidClose(() => this.remove(terminal));
+      this.terminals.set(terminal, onCloseListener);
+      this.onDidChangeEmitter.fire(undefined);
+    }
+  }
+
+  remove(terminal: BroadcastTerminal): void {
+    const onCloseListener = this.terminals.get(terminal);
+    if (onCloseListener) {
+      onCloseListener.dispose();
+      this.terminals.delete(terminal);
+      this.onDidChangeEmitter.fire(undefined);
+    }
+  }
+
+  toggle(terminal: BroadcastTerminal): void {
+    if (this.terminals.has(terminal)) {
+      this.remove(terminal);
+    } else {
+      this.add(terminal);
+    }
+  }
+
+  clear(): void {
+    if (this.terminals.size > 0) {
+      this.terminals.forEach(onCloseListener => onCloseListener.dispose());
+      this.terminals.clear();
+      this.onDidChangeEmitter.fire(undefined);
+    }
+  }
+
+  /**
+   * Mirror the input typed in a terminal of the group to the other terminals of the group.
+   */
+  broadcast(source: BroadcastTerminal, data: string): void {
+    if (!this.terminals.has(source)) {
+      return;
+    }
+    this.terminals.forEach((_, terminal) => {
+      if (terminal === source) {
+        return;
+      }
+      // a terminal which cannot receive the input doesn't prevent the others from receiving it
+      try {
+        terminal.sendText(data);
+      } catch (error) {
+        console.error('Unable to broadcast the input to a terminal', error);
+      }
+    });
+  }
+}
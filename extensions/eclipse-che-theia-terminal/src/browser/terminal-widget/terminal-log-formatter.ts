@@ -0,0 +1,65 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+// CSI sequences (colors, cursor moves), OSC sequences (titles) and the other escape sequences
+const ANSI_SEQUENCES =
+  // eslint-disable-next-line no-control-regex
+  /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[=>78cDEHMNOZ]/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_SEQUENCES, '');
+}
+
+export interface TerminalLogFormatterOptions {
+  timestamps: boolean;
+  stripAnsi: boolean;
+}
+
+/**
+ * Format the output of a terminal for a log file, the output is received by chunks which may end in the middle of a line.
+ */
+export class TerminalLogFormatter {
+  private atLineStart = true;
+
+  constructor(
+    private readonly options: TerminalLogFormatterOptions,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  format(data: string): string {
+    const text = (this.options.stripAnsi ? stripAnsi(data) : data).replace(/\r\n/g, '\n');
+    if (!this.options.timestamps) {
+      return text;
+    }
+
+    let result = '';
+    text.split('\n').forEach((line, index) => {
+      if (index > 0) {
+        result += '\n';
+        this.atLineStart = true;
+      }
+      if (line.length > 0) {
+        if (this.atLineStart) {
+          result += `[${this.now().toISOString()}] `;
+        }
+        result += line;
+        this.atLineStart = false;
+      }
+    });
+    return result;
+  }
+}
+
+/**
+ * Name of a rotated log file, `terminal.log.1` is the newest rotated file.
+ */
+export function getRotatedFileName(fileName: string, index: number): string {
+  return index === 0 ? fileName : `${fileName}.${index}`;
+}
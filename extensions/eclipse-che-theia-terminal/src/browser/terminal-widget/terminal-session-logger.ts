@@ -0,0 +1,160 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import { TerminalLogFormatter, getRotatedFileName } from './terminal-log-formatter';
+import { inject, injectable } from 'inversify';
+
+import { BinaryBuffer } from '@theia/core/lib/common/buffer';
+import { EnvVariablesServer } from '@theia/core/lib/common/env-variables';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import { TerminalLoggingPreferences } from '../contribution/terminal-logging-preferences';
+import URI from '@theia/core/lib/common/uri';
+
+// delay between two writes of the log file
+const FLUSH_DELAY = 2000;
+
+// positions after the end of a file are moved to its end, so the changes at this position are appended
+const END_OF_FILE = { line: Number.MAX_SAFE_INTEGER, character: 0 };
+
+/**
+ * Write the output of a terminal into a log file under the projects root.
+ * The output is appended to the log file periodically, the file is rotated once it exceeds the size limit.
+ */
+@injectable()
+export class TerminalSessionLogger {
+  @inject(FileService)
+  protected readonly fileService: FileService;
+
+  @inject(EnvVariablesServer)
+  protected readonly envVariablesServer: EnvVariablesServer;
+
+  @inject(TerminalLoggingPreferences)
+  protected readonly preferences: TerminalLoggingPreferences;
+
+  private logFile: URI | undefined;
+  private formatter: TerminalLogFormatter;
+  // output not written yet
+  private pending = '';
+  // size of the current log file
+  private size = 0;
+  private flushTimeout: number | undefined;
+  private writing: Promise<void> = Promise.resolve();
+
+  get isLogging(): boolean {
+    return this.logFile !== undefined;
+  }
+
+  get file(): URI | undefined {
+    return this.logFile;
+  }
+
+  /**
+   * Start to log the output of the terminal of the given container.
+   * @returns the log file
+   * @throws an error when the log file cannot be created
+   */
+  async start(containerName: string): Promise<URI> {
+    if (this.logFile) {
+      return this.logFile;
+    }
+    const directory = (await this.getProjectsRoot()).resolve(this.preferences['terminal.che.logging.directory']);
+    const time = new Date().toISOString().replace(/[:.]/g, '-');
+    const logFile = directory.resolve(`${containerName}-${time}.log`);
+    try {
+      await this.createLogFile(logFile);
+    } catch (error) {
+      throw new Error(`Unable to create the terminal log ${logFile.path.toString()}: ${error.message}`);
+    }
+    this.formatter = new TerminalLogFormatter({
+      timestamps: this.preferences['terminal.che.logging.timestamps'],
+      stripAnsi: this.preferences['terminal.che.logging.stripAnsi'],
+    });
+    this.pending = '';
+    this.logFile = logFile;
+    return this.logFile;
+  }
+
+  log(data: string): void {
+    if (!this.logFile) {
+      return;
+    }
+    this.pending += this.formatter.format(data);
+    if (this.flushTimeout === undefined) {
+      this.flushTimeout = window.setTimeout(() => {
+        this.flushTimeout = undefined;
+        this.writing = this.writing.then(() => this.flush());
+      }, FLUSH_DELAY);
+    }
+  }
+
+  /**
+   * Write what remains to log and stop logging.
+   */
+  async stop(): Promise<void> {
+    if (!this.logFile) {
+      return;
+    }
+    if (this.flushTimeout !== undefined) {
+      window.clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+      this.writing = this.writing.then(() => this.flush());
+    }
+    await this.writing;
+    this.logFile = undefined;
+  }
+
+  // the output logged while the file is written is kept for the next flush
+  protected async flush(): Promise<void> {
+    const logFile = this.logFile;
+    if (!logFile || !this.pending) {
+      return;
+    }
+    const data = this.pending;
+    this.pending = '';
+    try {
+      await this.fileService.update(logFile, [{ range: { start: END_OF_FILE, end: END_OF_FILE }, text: data }], {
+        readEncoding: 'utf8',
+      });
+      this.size += data.length;
+      if (this.size > this.preferences['terminal.che.logging.maxFileSize'] * 1024) {
+        await this.rotate(logFile);
+        await this.createLogFile(logFile);
+      }
+    } catch (error) {
+      console.error(`Unable to write the terminal log ${logFile.path.toString()}`, error);
+    }
+  }
+
+  // terminal.log is moved to terminal.log.1, terminal.log.1 to terminal.log.2 and so on, the oldest file is deleted
+  protected async rotate(logFile: URI): Promise<void> {
+    const maxFiles = this.preferences['terminal.che.logging.maxFiles'];
+    const getFile = (index: number) => logFile.parent.resolve(getRotatedFileName(logFile.path.base, index));
+    if (await this.fileService.exists(getFile(maxFiles))) {
+      await this.fileService.delete(getFile(maxFiles));
+    }
+    for (let index = maxFiles - 1; index >= 0; index--) {
+      if (await this.fileService.exists(getFile(index))) {
+        await this.fileService.move(getFile(index), getFile(index + 1), { overwrite: true });
+      }
+    }
+  }
+
+  protected async createLogFile(file: URI): Promise<void> {
+    await this.fileService.writeFile(file, BinaryBuffer.fromString(''));
+    this.size = 0;
+  }
+
+  protected async getProjectsRoot(): Promise<URI> {
+    const projectsRoot =
+      (await this.envVariablesServer.getValue('PROJECTS_ROOT')) ||
+      (await this.envVariablesServer.getValue('CHE_PROJECTS_ROOT'));
+    return new URI(`file://${(projectsRoot && projectsRoot.value) || '/projects'}`);
+  }
+}
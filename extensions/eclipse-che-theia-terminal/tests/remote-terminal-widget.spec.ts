@@ -0,0 +1,194 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { RemoteTerminalWidget, RemoteTerminalWidgetState } from '../src/browser/terminal-widget/remote-terminal-widget';
+
+const mockRestoreState = jest.fn();
+
+// the terminal widget of Theia needs a whole frontend application, only the state handling is kept
+jest.mock('@theia/terminal/lib/browser/terminal-widget-impl', () => ({
+  TerminalWidgetImpl: class {
+    restored = false;
+    kind = 'user';
+    title = { label: '' };
+    _terminalId: number | undefined;
+    get terminalId(): number | undefined {
+      return this._terminalId;
+    }
+    storeState(): object {
+      return { terminalId: this._terminalId, titleLabel: this.title.label };
+    }
+    restoreState(oldState: any): void {
+      mockRestoreState(oldState);
+    }
+  },
+}));
+jest.mock('@theia/output/lib/browser/output-channel', () => ({ OutputChannelManager: class {} }));
+jest.mock('../src/browser/contribution/terminal-logging-preferences', () => ({
+  TerminalLoggingPreferences: Symbol('TerminalLoggingPreferences'),
+}));
+jest.mock('../src/browser/terminal-widget/terminal-session-logger', () => ({ TerminalSessionLogger: class {} }));
+
+describe('Test RemoteTerminalWidget', () => {
+  const writeMock = jest.fn();
+
+  let widget: RemoteTerminalWidget;
+  let lines: string[];
+
+  function createWidget(): RemoteTerminalWidget {
+    const terminalWidget = new RemoteTerminalWidget();
+    const term = {
+      write: writeMock,
+      buffer: {
+        active: {
+          get length(): number {
+            return lines.length;
+          },
+          getLine: (index: number) => ({ translateToString: () => lines[index] }),
+        },
+      },
+    };
+    Object.assign(terminalWidget, { term, options: { machineName: '', workspaceId: '' } });
+    return terminalWidget;
+  }
+
+  function written(): string {
+    return writeMock.mock.calls.map(call => call[0]).join('');
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lines = [];
+    widget = createWidget();
+  });
+
+  test('store the session and the last lines of the terminal', () => {
+    lines = ['user@host:~$ ls', 'README.md', 'user@host:~$ ', '', ''];
+    Object.assign(widget, { _terminalId: 3, exitCode: undefined, processGone: false });
+    widget.title.label = 'maven terminal 1';
+    Object.assign(widget.options, { machineName: 'maven', workspaceId: 'workspace123', cwd: '/projects/app' });
+
+    const state = widget.storeState() as RemoteTerminalWidgetState;
+
+    expect(state).toEqual({
+      terminalId: 3,
+      titleLabel: 'maven terminal 1',
+      machineName: 'maven',
+      workspaceId: 'workspace123',
+      cwd: '/projects/app',
+      exitCode: undefined,
+      sessionEnded: false,
+      scrollback: ['user@host:~$ ls', 'README.md', 'user@host:~$ '],
+    });
+  });
+
+  test('store the last 500 lines only', () => {
+    lines = Array.from({ length: 600 }, (_, index) => `line ${index}`);
+
+    const state = widget.storeState() as RemoteTerminalWidgetState;
+
+    expect(state.scrollback!.length).toBe(500);
+    expect(state.scrollback![0]).toBe('line 100');
+  });
+
+  test('reattach to the session and replay the scrollback once connected', () => {
+    const state: RemoteTerminalWidgetState = {
+      terminalId: 3,
+      titleLabel: 'maven terminal 1',
+      machineName: 'maven',
+      workspaceId: 'workspace123',
+      cwd: '/projects/app',
+      sessionEnded: false,
+      scrollback: ['user@host:~$ ls', 'README.md'],
+    };
+
+    widget.restoreState(state);
+
+    expect(mockRestoreState).toBeCalledWith(state);
+    expect(widget.options.machineName).toBe('maven');
+    expect(widget.options.workspaceId).toBe('workspace123');
+    expect(widget.options.cwd).toBe('/projects/app');
+    expect(writeMock).not.toBeCalled();
+
+    (widget as any).replayScrollback();
+    (widget as any).replayScrollback();
+
+    expect(writeMock).toBeCalledTimes(2);
+    expect(writeMock).toHaveBeenNthCalledWith(1, 'user@host:~$ ls\r\nREADME.md\r\n');
+    expect(written()).toContain('reattached to the terminal session');
+  });
+
+  test('show the ended session without reattaching it', () => {
+    widget.restoreState({
+      terminalId: 3,
+      titleLabel: 'maven terminal 1',
+      machineName: 'maven',
+      workspaceId: 'workspace123',
+      exitCode: 130,
+      sessionEnded: true,
+      scrollback: ['user@host:~$ exit'],
+    });
+
+    expect(mockRestoreState).not.toBeCalled();
+    expect(widget.title.label).toBe('maven terminal 1');
+    expect(widget.terminalId).toBe(3);
+    expect(written()).toContain('user@host:~$ exit\r\n');
+    expect(written()).toContain('Session ended with code 130.');
+    expect((widget.storeState() as RemoteTerminalWidgetState).sessionEnded).toBe(true);
+  });
+
+  test('show the ended session without the exit code when it is unknown', () => {
+    widget.restoreState({
+      terminalId: 3,
+      titleLabel: 'maven terminal 1',
+      machineName: 'maven',
+      workspaceId: 'workspace123',
+      sessionEnded: true,
+    });
+
+    expect(written()).toContain('Session ended.');
+    expect(written()).not.toContain('with code');
+  });
+
+  test('show the ended session when the restored session is gone', async () => {
+    const createMock = jest.fn();
+    Object.assign(widget, { termServer: { check: async () => -1, create: createMock } });
+    widget.restoreState({
+      terminalId: 3,
+      titleLabel: 'maven terminal 1',
+      machineName: 'maven',
+      workspaceId: 'workspace123',
+      sessionEnded: false,
+      scrollback: ['user@host:~$ sleep 1000'],
+    });
+
+    const terminalId = await widget.start(3);
+
+    expect(terminalId).toBe(3);
+    expect(createMock).not.toBeCalled();
+    expect(written()).toContain('user@host:~$ sleep 1000\r\n');
+    expect(written()).toContain('Session ended.');
+  });
+
+  test('show the error when the output of the terminal cannot be logged', async () => {
+    const messageService = { info: jest.fn(), error: jest.fn() };
+    const sessionLogger = { start: jest.fn().mockRejectedValue(new Error('Unable to create the terminal log')) };
+    Object.assign(widget, { messageService, sessionLogger });
+
+    await widget.toggleLogging();
+
+    expect(messageService.error).toBeCalledWith('Unable to create the terminal log');
+    expect(messageService.info).not.toBeCalled();
+  });
+});
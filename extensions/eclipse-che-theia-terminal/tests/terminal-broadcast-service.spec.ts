@@ -0,0 +1,117 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import 'reflect-metadata';
+
+import { BroadcastTerminal, TerminalBroadcastService } from '../src/browser/terminal-widget/terminal-broadcast-service';
+
+import { Emitter } from '@theia/core/lib/common/event';
+
+describe('Test TerminalBroadcastService', () => {
+  let broadcastService: TerminalBroadcastService;
+
+  function createTerminal(): BroadcastTerminal & { sendText: jest.Mock; close: () => void } {
+    const onDidCloseEmitter = new Emitter<void>();
+    return {
+      onTerminalDidClose: onDidCloseEmitter.event,
+      sendText: jest.fn(),
+      close: () => onDidCloseEmitter.fire(undefined),
+    };
+  }
+
+  beforeEach(() => {
+    broadcastService = new TerminalBroadcastService();
+  });
+
+  test('send the input of a terminal to the other terminals of the group', () => {
+    const source = createTerminal();
+    const target = createTerminal();
+    const outsider = createTerminal();
+    broadcastService.add(source);
+    broadcastService.add(target);
+
+    broadcastService.broadcast(source, 'ls\r');
+    broadcastService.broadcast(outsider, 'pwd\r');
+
+    expect(source.sendText).not.toBeCalled();
+    expect(target.sendText).toBeCalledTimes(1);
+    expect(target.sendText).toBeCalledWith('ls\r');
+    expect(outsider.sendText).not.toBeCalled();
+  });
+
+  test('notify the changes of the group', () => {
+    const onDidChange = jest.fn();
+    broadcastService.onDidChange(onDidChange);
+    const terminal = createTerminal();
+
+    broadcastService.add(terminal);
+    broadcastService.add(terminal);
+    expect(broadcastService.size).toBe(1);
+    expect(broadcastService.has(terminal)).toBe(true);
+
+    broadcastService.toggle(terminal);
+    expect(broadcastService.has(terminal)).toBe(false);
+    broadcastService.toggle(terminal);
+    broadcastService.add(createTerminal());
+    broadcastService.clear();
+
+    expect(broadcastService.size).toBe(0);
+    expect(onDidChange).toBeCalledTimes(5);
+  });
+
+  test('remove the terminals from the group when they are closed', () => {
+    const onDidChange = jest.fn();
+    broadcastService.onDidChange(onDidChange);
+    const source = createTerminal();
+    const closed = createTerminal();
+    broadcastService.add(source);
+    broadcastService.add(closed);
+
+    closed.close();
+    broadcastService.broadcast(source, 'ls\r');
+
+    expect(broadcastService.has(closed)).toBe(false);
+    expect(closed.sendText).not.toBeCalled();
+    expect(onDidChange).toBeCalledTimes(3);
+  });
+
+  test('stop listening to the terminals removed from the group', () => {
+    const terminal = createTerminal();
+    broadcastService.add(terminal);
+    broadcastService.remove(terminal);
+    broadcastService.add(createTerminal());
+
+    const onDidChange = jest.fn();
+    broadcastService.onDidChange(onDidChange);
+    terminal.close();
+
+    expect(onDidChange).not.toBeCalled();
+    expect(broadcastService.size).toBe(1);
+  });
+
+  test('send the input to the other terminals when a terminal fails to receive it', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const source = createTerminal();
+    const failing = createTerminal();
+    const target = createTerminal();
+    failing.sendText.mockImplementation(() => {
+      throw new Error('socket closed');
+    });
+    broadcastService.add(source);
+    broadcastService.add(failing);
+    broadcastService.add(target);
+
+    broadcastService.broadcast(source, 'ls\r');
+
+    expect(target.sendText).toBeCalledWith('ls\r');
+    expect(consoleErrorSpy).toBeCalledWith('Unable to broadcast the input to a terminal', new Error('socket closed'));
+    consoleErrorSpy.mockRestore();
+  });
+});
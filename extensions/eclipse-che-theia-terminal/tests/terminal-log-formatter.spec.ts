@@ -0,0 +1,42 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import {
+  TerminalLogFormatter,
+  getRotatedFileName,
+  stripAnsi,
+} from '../src/browser/terminal-widget/terminal-log-formatter';
+
+describe('Test terminal log formatter', () => {
+  const now = () => new Date(Date.UTC(2022, 0, 1));
+
+  test('strip ansi sequences', () => {
+    expect(stripAnsi('\x1b[1;32muser@host\x1b[0m:\x1b[01;34m~\x1b[00m$ ')).toBe('user@host:~$ ');
+    expect(stripAnsi('\x1b]0;user@host: ~\x07ls\x1b[K')).toBe('ls');
+  });
+
+  test('keep ansi sequences', () => {
+    const formatter = new TerminalLogFormatter({ timestamps: false, stripAnsi: false }, now);
+    expect(formatter.format('\x1b[1mbold\x1b[0m\r\n')).toBe('\x1b[1mbold\x1b[0m\n');
+  });
+
+  test('add timestamps to the lines split across chunks', () => {
+    const formatter = new TerminalLogFormatter({ timestamps: true, stripAnsi: true }, now);
+    const result = formatter.format('first') + formatter.format(' line\r\nsecond\r\n') + formatter.format('third');
+    expect(result).toBe(
+      '[2022-01-01T00:00:00.000Z] first line\n[2022-01-01T00:00:00.000Z] second\n[2022-01-01T00:00:00.000Z] third'
+    );
+  });
+
+  test('rotated file names', () => {
+    expect(getRotatedFileName('maven.log', 0)).toBe('maven.log');
+    expect(getRotatedFileName('maven.log', 2)).toBe('maven.log.2');
+  });
+});
@@ -0,0 +1,37 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import {
+  TerminalProfile,
+  getContainerProfiles,
+  resolveProfileCwd,
+} from '../src/browser/contribution/terminal-profiles';
+
+describe('Test terminal profiles', () => {
+  const profiles: TerminalProfile[] = [
+    { name: 'zsh', shellPath: '/bin/zsh' },
+    { name: 'maven', container: 'maven', cwd: 'backend', env: { MAVEN_OPTS: '-Xmx512m' } },
+    { container: 'maven' } as TerminalProfile,
+  ];
+
+  test('get the profiles of a container', () => {
+    expect(getContainerProfiles(profiles, 'maven').map(profile => profile.name)).toEqual(['zsh', 'maven']);
+    expect(getContainerProfiles(profiles, 'nodejs').map(profile => profile.name)).toEqual(['zsh']);
+    expect(getContainerProfiles(undefined, 'nodejs')).toEqual([]);
+  });
+
+  test('resolve the working directory', () => {
+    expect(resolveProfileCwd(undefined, '/projects/app')).toBe('/projects/app');
+    expect(resolveProfileCwd('/tmp', '/projects/app')).toBe('/tmp');
+    expect(resolveProfileCwd('backend', '/projects/app/')).toBe('/projects/app/backend');
+    expect(resolveProfileCwd('../lib/./src', '/projects/app')).toBe('/projects/lib/src');
+    expect(resolveProfileCwd('backend', undefined)).toBe('backend');
+  });
+});
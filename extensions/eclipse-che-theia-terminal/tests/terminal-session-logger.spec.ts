@@ -0,0 +1,161 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { Container } from 'inversify';
+import { EnvVariablesServer } from '@theia/core/lib/common/env-variables';
+import { FileService } from '@theia/filesystem/lib/browser/file-service';
+import { TerminalLoggingPreferences } from '../src/browser/contribution/terminal-logging-preferences';
+import { TerminalSessionLogger } from '../src/browser/terminal-widget/terminal-session-logger';
+import URI from '@theia/core/lib/common/uri';
+
+describe('Test TerminalSessionLogger', () => {
+  // content of the files by path
+  let files: Map<string, string>;
+  let sessionLogger: TerminalSessionLogger;
+
+  const preferences = {
+    'terminal.che.logging.directory': 'logs',
+    'terminal.che.logging.timestamps': false,
+    'terminal.che.logging.stripAnsi': true,
+    'terminal.che.logging.maxFileSize': 1,
+    'terminal.che.logging.maxFiles': 2,
+  };
+
+  const fileService = {
+    writeFile: jest.fn(async (uri: URI, content: any) => {
+      files.set(uri.path.toString(), content.toString());
+    }),
+    update: jest.fn(async (uri: URI, changes: { text: string }[]) => {
+      const path = uri.path.toString();
+      if (!files.has(path)) {
+        throw new Error(`${path} not found`);
+      }
+      files.set(path, files.get(path) + changes.map(change => change.text).join(''));
+    }),
+    exists: jest.fn(async (uri: URI) => files.has(uri.path.toString())),
+    delete: jest.fn(async (uri: URI) => {
+      files.delete(uri.path.toString());
+    }),
+    move: jest.fn(async (source: URI, target: URI) => {
+      files.set(target.path.toString(), files.get(source.path.toString())!);
+      files.delete(source.path.toString());
+    }),
+  };
+
+  /** Runs the flush scheduled by the logger and waits for the writes. */
+  async function flush(): Promise<void> {
+    jest.runOnlyPendingTimers();
+    await (sessionLogger as any).writing;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    (global as any).window = global;
+    files = new Map();
+
+    const container = new Container();
+    container.bind(TerminalSessionLogger).toSelf().inSingletonScope();
+    container.bind(FileService).toConstantValue(fileService as any);
+    container.bind(EnvVariablesServer).toConstantValue({ getValue: async () => ({ value: '/projects' }) } as any);
+    container.bind(TerminalLoggingPreferences).toConstantValue(preferences as any);
+    sessionLogger = container.get(TerminalSessionLogger);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('append the new output to the log file', async () => {
+    const logFile = await sessionLogger.start('maven');
+    const path = logFile.path.toString();
+    expect(path).toMatch(/^\/projects\/logs\/maven-.*\.log$/);
+    expect(files.get(path)).toBe('');
+
+    sessionLogger.log('\x1b[1mmvn\x1b[0m package\r\n');
+    await flush();
+    sessionLogger.log('BUILD SUCCESS\r\n');
+    await sessionLogger.stop();
+
+    expect(files.get(path)).toBe('mvn package\nBUILD SUCCESS\n');
+    expect(fileService.update).toBeCalledTimes(2);
+    expect(fileService.update.mock.calls[1][1]).toEqual([expect.objectContaining({ text: 'BUILD SUCCESS\n' })]);
+    expect(sessionLogger.isLogging).toBe(false);
+  });
+
+  test('keep the output logged while the log file is written', async () => {
+    const logFile = await sessionLogger.start('maven');
+    let endUpdate: () => void = () => {};
+    fileService.update.mockImplementationOnce(async (uri: URI, changes: { text: string }[]) => {
+      await new Promise<void>(resolve => (endUpdate = resolve));
+      files.set(uri.path.toString(), changes[0].text);
+    });
+
+    sessionLogger.log('first\n');
+    jest.runOnlyPendingTimers();
+    await Promise.resolve();
+    sessionLogger.log('second\n');
+    endUpdate();
+    await sessionLogger.stop();
+
+    expect(files.get(logFile.path.toString())).toBe('first\nsecond\n');
+  });
+
+  test('rotate the log file once it exceeds the size limit', async () => {
+    const logFile = await sessionLogger.start('maven');
+    const path = logFile.path.toString();
+
+    sessionLogger.log('a'.repeat(1025));
+    await flush();
+    sessionLogger.log('b'.repeat(1025));
+    await flush();
+    sessionLogger.log('c'.repeat(1025));
+    await flush();
+    sessionLogger.log('after rotation\n');
+    await sessionLogger.stop();
+
+    expect(files.get(path)).toBe('after rotation\n');
+    expect(files.get(`${path}.1`)).toBe('c'.repeat(1025));
+    expect(files.get(`${path}.2`)).toBe('b'.repeat(1025));
+    // the oldest file is deleted
+    expect(files.size).toBe(3);
+  });
+
+  test('fail to start when the log file cannot be created', async () => {
+    fileService.writeFile.mockRejectedValueOnce(new Error('permission denied'));
+
+    await expect(sessionLogger.start('maven')).rejects.toThrow(
+      /^Unable to create the terminal log \/projects\/logs\/maven-.*\.log: permission denied$/
+    );
+    expect(sessionLogger.isLogging).toBe(false);
+  });
+
+  test('keep logging when the log file cannot be written', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const logFile = await sessionLogger.start('maven');
+    fileService.update.mockRejectedValueOnce(new Error('disk full'));
+
+    sessionLogger.log('lost\n');
+    await flush();
+    sessionLogger.log('kept\n');
+    await sessionLogger.stop();
+
+    expect(consoleErrorSpy).toBeCalledWith(
+      `Unable to write the terminal log ${logFile.path.toString()}`,
+      new Error('disk full')
+    );
+    expect(files.get(logFile.path.toString())).toBe('kept\n');
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -31,6 +31,11 @@ export namespace CheWorkspaceCommands {
     category: FILE_CATEGORY,
     label: 'Open Recent Workspace...',
   };
+  export const SWITCH_WORKSPACE: Command = {
+    id: 'che.switchWorkspace',
+    category: WORKSPACE_CATEGORY,
+    label: 'Switch Workspace...',
+  };
   export const CLOSE_CURRENT_WORKSPACE: Command = {
     id: 'che.closeCurrentWorkspace',
     category: WORKSPACE_CATEGORY,
@@ -76,6 +81,9 @@ export class CheWorkspaceContribution implements CommandContribution, MenuContri
     commands.registerCommand(CheWorkspaceCommands.OPEN_RECENT_WORKSPACE, {
       execute: () => this.workspaceController.openRecentWorkspace(),
     });
+    commands.registerCommand(CheWorkspaceCommands.SWITCH_WORKSPACE, {
+      execute: () => this.workspaceController.switchWorkspace(),
+    });
     commands.registerCommand(CheWorkspaceCommands.CLOSE_CURRENT_WORKSPACE, {
       execute: () => this.workspaceController.closeCurrentWorkspace(),
     });
@@ -16,6 +16,7 @@ import { Workspace, WorkspaceService } from '@eclipse-che/theia-remote-api/lib/c
 import { inject, injectable } from 'inversify';
 
 import { CheWorkspaceCommands } from './che-workspace-contribution';
+import { CheWorkspaceSwitcher } from './che-workspace-switcher';
 import { DashboardService } from '@eclipse-che/theia-remote-api/lib/common/dashboard-service';
 import { DevfileService } from '@eclipse-che/theia-remote-api/lib/common/devfile-service';
 import { FileService } from '@theia/filesystem/lib/browser/file-service';
@@ -93,6 +94,7 @@ export class CheWorkspaceController {
   @inject(WorkspacePreferences) protected preferences: WorkspacePreferences;
   @inject(DefaultUriLabelProviderContribution) protected uriLabelProvider: DefaultUriLabelProviderContribution;
   @inject(DashboardService) private dashboardService: DashboardService;
+  @inject(CheWorkspaceSwitcher) protected readonly workspaceSwitcher: CheWorkspaceSwitcher;
   DEFAULT_FILE_FILTER: FileDialogTreeFilters = {
     'Theia Workspace (*.theia-workspace)': [THEIA_EXT],
     'VS Code Workspace (*.code-workspace)': [VSCODE_EXT],
@@ -123,6 +125,19 @@ export class CheWorkspaceController {
     });
   }
 
+  /**
+   * Start the selected workspace from the IDE and open it once it's running.
+   */
+  async switchWorkspace(): Promise<void> {
+    await this.quickOpenWorkspace.select(false, async (workspace: Workspace) => {
+      const dialog = new StopWorkspaceDialog();
+      const result = await dialog.open();
+      if (typeof result === 'boolean') {
+        await this.workspaceSwitcher.switchTo(workspace, result);
+      }
+    });
+  }
+
   async closeCurrentWorkspace(): Promise<void> {
     const dialog = new ConfirmDialog({
       title: CheWorkspaceCommands.CLOSE_CURRENT_WORKSPACE.label!,
@@ -28,6 +28,7 @@ import {
 import { CheFileNavigatorWidget } from './che-navigator-widget';
 import { CheWorkspaceContribution } from './che-workspace-contribution';
 import { CheWorkspaceController } from './che-workspace-controller';
+import { CheWorkspaceSwitcher } from './che-workspace-switcher';
 import { ExplorerContribution } from './explorer-contribution';
 import { FILE_NAVIGATOR_PROPS } from '@theia/navigator/lib/browser/navigator-container';
 import { FileNavigatorModel } from '@theia/navigator/lib/browser/navigator-model';
@@ -39,6 +40,7 @@ import { bindContributionProvider } from '@theia/core/lib/common/contribution-pr
 export default new ContainerModule((bind, unbind, isBound, rebind) => {
   bind(QuickOpenCheWorkspace).toSelf().inSingletonScope();
   bind(CheWorkspaceController).toSelf().inSingletonScope();
+  bind(CheWorkspaceSwitcher).toSelf().inSingletonScope();
   bind(CheWorkspaceContribution).toSelf().inSingletonScope();
   for (const identifier of [CommandContribution, MenuContribution]) {
     bind(identifier).toService(CheWorkspaceContribution);
@@ -0,0 +1,109 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import { MessageService, MessageType, Progress, ProgressMessage, ProgressService } from '@theia/core/lib/common';
+import { Workspace, WorkspaceService } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
+import { inject, injectable } from 'inversify';
+
+import { DashboardService } from '@eclipse-che/theia-remote-api/lib/common/dashboard-service';
+import { Deferred } from '@theia/core/lib/common/promise-util';
+import { WorkspaceServiceClientImpl } from '@eclipse-che/theia-remote-api/lib/browser/workspace-service-client';
+
+// maximum time to wait for a workspace to start
+const START_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Start another workspace, wait until its IDE is available and redirect to it.
+ */
+@injectable()
+export class CheWorkspaceSwitcher {
+  @inject(WorkspaceService) protected readonly workspaceService: WorkspaceService;
+  @inject(WorkspaceServiceClientImpl) protected readonly workspaceServiceClient: WorkspaceServiceClientImpl;
+  @inject(ProgressService) protected readonly progressService: ProgressService;
+  @inject(MessageService) protected readonly messageService: MessageService;
+  @inject(DashboardService) protected readonly dashboardService: DashboardService;
+
+  async switchTo(workspace: Workspace, stopCurrent: boolean): Promise<void> {
+    if (!workspace.id) {
+      return;
+    }
+    const message: ProgressMessage = {
+      type: MessageType.Progress,
+      text: `Starting workspace ${workspace.name}...`,
+      options: {
+        location: 'notification',
+      },
+    };
+    const progress = await this.progressService.showProgress(message);
+    try {
+      const mainUrl = await this.start(workspace.id, progress);
+      if (stopCurrent) {
+        try {
+          await this.workspaceService.stop();
+        } catch (error) {
+          console.error('Error while stopping the workspace', error);
+        }
+      }
+      await this.redirect(workspace.id, mainUrl);
+    } catch (e) {
+      this.messageService.error(`Unable to switch to the workspace ${workspace.name}. ${e.message ? e.message : e}`);
+    } finally {
+      progress.cancel();
+    }
+  }
+
+  /**
+   * Start the workspace and report its status until it's running.
+   * @returns the URL of the IDE of the workspace
+   */
+  protected async start(workspaceId: string, progress: Progress): Promise<string> {
+    const mainUrl = new Deferred<string>();
+    // the status before the start request may be the one of a previous failure or of the stopped workspace
+    let starting = false;
+    const disposable = this.workspaceServiceClient.onDidChangeWorkspaceStatus(event => {
+      if (event.workspaceId !== workspaceId) {
+        return;
+      }
+      progress.report({ message: event.status.toLowerCase() });
+      if (event.status === 'STARTING') {
+        starting = true;
+      } else if (event.status === 'RUNNING' && event.mainUrl) {
+        mainUrl.resolve(event.mainUrl);
+      } else if (event.status === 'FAILED' && starting) {
+        mainUrl.reject(new Error(event.message || 'The workspace failed to start.'));
+      } else if (event.status === 'STOPPED' && starting) {
+        mainUrl.reject(new Error('The workspace stopped while starting.'));
+      }
+    });
+    const timeout = setTimeout(() => mainUrl.reject(new Error('The workspace did not start in time.')), START_TIMEOUT);
+    try {
+      await this.workspaceService.watchWorkspaceStatus(workspaceId);
+      await this.workspaceService.startWorkspace(workspaceId);
+      starting = true;
+      return await mainUrl.promise;
+    } finally {
+      clearTimeout(timeout);
+      disposable.dispose();
+      await this.workspaceService.unwatchWorkspaceStatus(workspaceId);
+    }
+  }
+
+  protected async redirect(workspaceId: string, mainUrl: string): Promise<void> {
+    // inside an iframe, the dashboard opens the workspace
+    const insideFrame = window !== window.parent;
+    const dashboardUrl = insideFrame ? await this.dashboardService.getDashboardUrl() : undefined;
+    if (dashboardUrl) {
+      // only the dashboard receives the message
+      window.parent.postMessage(`open-workspace:${workspaceId}`, new URL(dashboardUrl).origin);
+    } else {
+      window.location.href = mainUrl;
+    }
+  }
+}
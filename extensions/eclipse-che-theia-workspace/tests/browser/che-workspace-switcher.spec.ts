@@ -0,0 +1,120 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import { MessageService, ProgressService } from '@theia/core/lib/common';
+import { WorkspaceService, WorkspaceStatusEvent } from '@eclipse-che/theia-remote-api/lib/common/workspace-service';
+
+import { CheWorkspaceSwitcher } from '../../src/browser/che-workspace-switcher';
+import { Container } from 'inversify';
+import { DashboardService } from '@eclipse-che/theia-remote-api/lib/common/dashboard-service';
+import { WorkspaceServiceClientImpl } from '@eclipse-che/theia-remote-api/lib/browser/workspace-service-client';
+
+describe('Test CheWorkspaceSwitcher', () => {
+  const workspace = { id: 'workspace123', name: 'nodejs-web-app' };
+  const mainUrl = 'https://che.example.com/user/nodejs/3100/';
+
+  const workspaceService = {
+    watchWorkspaceStatus: jest.fn(),
+    unwatchWorkspaceStatus: jest.fn(),
+    startWorkspace: jest.fn(),
+    stop: jest.fn(),
+  };
+  const progress = { report: jest.fn(), cancel: jest.fn() };
+  const messageService = { error: jest.fn() };
+  const dashboardService = { getDashboardUrl: jest.fn() };
+  const postMessage = jest.fn();
+
+  let workspaceServiceClient: WorkspaceServiceClientImpl;
+  let cheWorkspaceSwitcher: CheWorkspaceSwitcher;
+
+  /** Sends the status events to the switcher once the workspace is requested to start. */
+  function startWith(...events: Omit<WorkspaceStatusEvent, 'workspaceId'>[]): void {
+    workspaceService.startWorkspace.mockImplementation(async () => {
+      events.forEach(event =>
+        workspaceServiceClient.notifyWorkspaceStatusChanged({ workspaceId: workspace.id, ...event })
+      );
+    });
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    workspaceService.watchWorkspaceStatus.mockImplementation(async () =>
+      // the current status is reported when the watch starts
+      workspaceServiceClient.notifyWorkspaceStatusChanged({ workspaceId: workspace.id, status: 'STOPPED' })
+    );
+    (global as any).window = { location: { href: '' } };
+    window.parent = window;
+
+    workspaceServiceClient = new WorkspaceServiceClientImpl();
+    const container = new Container();
+    container.bind(CheWorkspaceSwitcher).toSelf().inSingletonScope();
+    container.bind(WorkspaceService).toConstantValue(workspaceService as any);
+    container.bind(WorkspaceServiceClientImpl).toConstantValue(workspaceServiceClient);
+    container.bind(ProgressService).toConstantValue({ showProgress: async () => progress } as any);
+    container.bind(MessageService).toConstantValue(messageService as any);
+    container.bind(DashboardService).toConstantValue(dashboardService as any);
+    cheWorkspaceSwitcher = container.get(CheWorkspaceSwitcher);
+  });
+
+  test('open the workspace once its IDE is available', async () => {
+    startWith({ status: 'STARTING' }, { status: 'RUNNING', mainUrl });
+
+    await cheWorkspaceSwitcher.switchTo(workspace, true);
+
+    expect(workspaceService.stop).toBeCalled();
+    expect(window.location.href).toBe(mainUrl);
+    expect(progress.report).toBeCalledWith({ message: 'starting' });
+    expect(workspaceService.unwatchWorkspaceStatus).toBeCalledWith(workspace.id);
+    expect(progress.cancel).toBeCalled();
+    expect(messageService.error).not.toBeCalled();
+  });
+
+  test('ask the dashboard to open the workspace inside an iframe', async () => {
+    (window as any).parent = { postMessage };
+    dashboardService.getDashboardUrl.mockResolvedValue('https://che.example.com/dashboard/');
+    startWith({ status: 'STARTING' }, { status: 'RUNNING', mainUrl });
+
+    await cheWorkspaceSwitcher.switchTo(workspace, false);
+
+    expect(workspaceService.stop).not.toBeCalled();
+    expect(postMessage).toBeCalledWith('open-workspace:workspace123', 'https://che.example.com');
+    expect(window.location.href).toBe('');
+  });
+
+  test('fail when the workspace fails to start', async () => {
+    startWith({ status: 'STARTING' }, { status: 'FAILED', message: 'Container tools has state CrashLoopBackOff' });
+
+    await cheWorkspaceSwitcher.switchTo(workspace, true);
+
+    expect(messageService.error).toBeCalledWith(
+      'Unable to switch to the workspace nodejs-web-app. Container tools has state CrashLoopBackOff'
+    );
+    expect(workspaceService.stop).not.toBeCalled();
+    expect(window.location.href).toBe('');
+    expect(workspaceService.unwatchWorkspaceStatus).toBeCalledWith(workspace.id);
+  });
+
+  test('fail when the workspace is stopped after the start request', async () => {
+    startWith();
+
+    const switched = cheWorkspaceSwitcher.switchTo(workspace, true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    workspaceServiceClient.notifyWorkspaceStatusChanged({ workspaceId: workspace.id, status: 'STOPPED' });
+    await switched;
+
+    expect(messageService.error).toBeCalledWith(
+      'Unable to switch to the workspace nodejs-web-app. The workspace stopped while starting.'
+    );
+    expect(window.location.href).toBe('');
+  });
+});
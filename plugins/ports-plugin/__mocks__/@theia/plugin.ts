@@ -24,6 +24,21 @@ export enum TreeItemCollapsibleState {
   Expanded,
 }
 
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3,
+}
+
+theia.workspace = {
+  getConfiguration: () => ({
+    get: () => undefined,
+    update: async () => {},
+  }),
+  onDidChangeConfiguration: () => ({ dispose: () => {} }),
+};
+
 theia.EventEmitter = EventEmitter;
 theia.TreeItemCollapsibleState = TreeItemCollapsibleState;
+theia.ConfigurationTarget = ConfigurationTarget;
 module.exports = theia;
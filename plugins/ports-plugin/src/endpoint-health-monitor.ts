@@ -0,0 +1,204 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as theia from '@theia/plugin';
+
+import { Endpoint } from './endpoint';
+import { toPortRanges } from './ports-policy';
+
+export type EndpointHealthState = 'up' | 'down' | 'unknown';
+
+export interface EndpointHealth {
+  state: EndpointHealthState;
+  // time to get the response, in milliseconds
+  latency?: number;
+  statusCode?: number;
+  error?: string;
+  time: number;
+}
+
+export interface EndpointHealthCallback {
+  (endpoint: Endpoint, health: EndpointHealth): void;
+}
+
+const PROBE_TIMEOUT = 5000;
+
+/**
+ * Check if an endpoint answers, using its target port inside the workspace:
+ * a TCP connection is opened for the `tcp` endpoints, and a GET request is sent on the path of the other endpoints.
+ */
+export class EndpointHealthProber {
+  async probe(endpoint: Endpoint, expectedStatus: string): Promise<EndpointHealth> {
+    const start = Date.now();
+    try {
+      if (endpoint.protocol === 'tcp') {
+        await this.connect(endpoint.targetPort);
+        return { state: 'up', latency: Date.now() - start, time: Date.now() };
+      }
+
+      const statusCode = await this.get(endpoint);
+      const latency = Date.now() - start;
+      // the expected status uses the same syntax as the port ranges, like `200-399`
+      const expected = toPortRanges([expectedStatus]).some(
+        range => statusCode >= range.start && statusCode <= range.end
+      );
+      return expected
+        ? { state: 'up', latency, statusCode, time: Date.now() }
+        : { state: 'down', latency, statusCode, error: `Unexpected status ${statusCode}`, time: Date.now() };
+    } catch (error) {
+      return { state: 'down', error: error.message, time: Date.now() };
+    }
+  }
+
+  protected connect(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(port, 'localhost');
+      socket.setTimeout(PROBE_TIMEOUT, () => socket.destroy(new Error('Timeout')));
+      socket.on('connect', () => {
+        socket.destroy();
+        resolve();
+      });
+      socket.on('error', reject);
+    });
+  }
+
+  protected get(endpoint: Endpoint): Promise<number> {
+    const secured = endpoint.protocol === 'https' || endpoint.protocol === 'wss';
+    const options: https.RequestOptions = {
+      host: 'localhost',
+      port: endpoint.targetPort,
+      path: endpoint.path ? `/${endpoint.path.replace(/^\/+/, '')}` : '/',
+      timeout: PROBE_TIMEOUT,
+      // the certificates used inside the workspace are usually self-signed
+      rejectUnauthorized: false,
+    };
+    return new Promise((resolve, reject) => {
+      const request = (secured ? https : http).get(options, response => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      });
+      request.on('timeout', () => request.destroy(new Error('Timeout')));
+      request.on('error', reject);
+    });
+  }
+}
+
+/**
+ * Probe the health of the endpoints in background when it's enabled in the preferences.
+ */
+export class EndpointHealthMonitor {
+  public static readonly CONFIGURATION = 'che.ports.healthProbe';
+  public static readonly DEFAULT_INTERVAL = 30;
+  public static readonly DEFAULT_EXPECTED_STATUS = '200-399';
+
+  private health = new Map<string, EndpointHealth>();
+  private timeout: NodeJS.Timeout | undefined;
+  private started = false;
+  private generation = 0;
+  private onDidChangeHealthCallbacks: (() => void)[] = [];
+  private onDidGoDownCallbacks: EndpointHealthCallback[] = [];
+
+  constructor(private readonly prober: EndpointHealthProber = new EndpointHealthProber()) {}
+
+  static getKey(endpoint: Endpoint): string {
+    return `${endpoint.name}:${endpoint.targetPort}`;
+  }
+
+  onDidChangeHealth(callback: () => void): void {
+    this.onDidChangeHealthCallbacks.push(callback);
+  }
+
+  /**
+   * Register a callback called when a healthy endpoint goes down.
+   */
+  onDidGoDown(callback: EndpointHealthCallback): void {
+    this.onDidGoDownCallbacks.push(callback);
+  }
+
+  getHealth(): Map<string, EndpointHealth> {
+    return new Map(this.health);
+  }
+
+  isEnabled(): boolean {
+    return this.get<boolean>('enabled') === true;
+  }
+
+  /**
+   * Probe the given endpoints periodically, the endpoints are requested before each probe.
+   */
+  start(getEndpoints: () => Endpoint[]): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    // a probe in progress when the monitor is stopped doesn't schedule the next one
+    const generation = this.generation;
+    const check = async () => {
+      try {
+        await this.probeAll(getEndpoints());
+      } catch (error) {
+        console.error('Unable to probe the health of the endpoints', error);
+      }
+      if (generation === this.generation) {
+        this.timeout = setTimeout(check, this.getInterval() * 1000);
+      }
+    };
+    check();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.generation++;
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  async probeAll(endpoints: Endpoint[]): Promise<void> {
+    if (!this.isEnabled()) {
+      if (this.health.size > 0) {
+        this.health.clear();
+        this.onDidChangeHealthCallbacks.forEach(callback => callback());
+      }
+      return;
+    }
+
+    const expectedStatus = this.get<string>('expectedStatus') || EndpointHealthMonitor.DEFAULT_EXPECTED_STATUS;
+    const probedEndpoints = endpoints.filter(endpoint => endpoint.protocol !== 'udp');
+    const results = await Promise.all(probedEndpoints.map(endpoint => this.prober.probe(endpoint, expectedStatus)));
+
+    const health = new Map<string, EndpointHealth>();
+    probedEndpoints.forEach((endpoint, index) => {
+      const key = EndpointHealthMonitor.getKey(endpoint);
+      const previous = this.health.get(key);
+      health.set(key, results[index]);
+      if (previous && previous.state === 'up' && results[index].state === 'down') {
+        this.onDidGoDownCallbacks.forEach(callback => callback(endpoint, results[index]));
+      }
+    });
+    this.health = health;
+    this.onDidChangeHealthCallbacks.forEach(callback => callback());
+  }
+
+  // interval between two probes, in seconds
+  private getInterval(): number {
+    const interval = this.get<number>('interval');
+    return typeof interval === 'number' && interval > 0 ? interval : EndpointHealthMonitor.DEFAULT_INTERVAL;
+  }
+
+  private get<T>(key: string): T | undefined {
+    const configuration = theia.workspace.getConfiguration(EndpointHealthMonitor.CONFIGURATION);
+    return configuration ? configuration.get<T>(key) : undefined;
+  }
+}
@@ -11,10 +11,14 @@
 import * as path from 'path';
 import * as theia from '@theia/plugin';
 
+import { EndpointHealth, EndpointHealthMonitor } from './endpoint-health-monitor';
+import { PortForwardingRule, PortForwardingRuleStatus } from './port-forwarding-rules';
+
 import { Endpoint } from './endpoint';
 import { EndpointCategory } from './endpoint-category';
 import { EndpointExposure } from './endpoint-exposure';
 import { ListeningPort } from './listening-port';
+import { PortForwardStatistics } from './port-forward-server';
 
 // available context values used in package.json to assign context menus
 export type EndpointTreeNodeItemContext =
@@ -22,14 +26,19 @@ export type EndpointTreeNodeItemContext =
   | 'publicHttpEndpointOnline'
   | 'publicHttpPortOnline'
   | 'publicPortOnline'
+  | 'portForwardOnline'
   | 'publicDevfilePortOffline'
   | 'privateUserPortOnline'
   | 'privateDevfilePortOnline'
-  | 'privateDevfilePortOffline';
+  | 'privateDevfilePortOffline'
+  | 'forwardingRule';
 
 // defines a custom item by adding the endpoint and parent id.
 export interface EndpointTreeNodeItem extends theia.TreeItem {
   endpoint?: Endpoint;
+  // the port which is listening for the endpoint, if the endpoint is online
+  listeningPort?: ListeningPort;
+  forwardingRule?: PortForwardingRule;
   parentId?: string;
   // make id and label mandatory
   id: string;
@@ -45,6 +54,11 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
   private showPluginEndpoints: boolean;
   private currentEndpoints: Endpoint[];
   private openedPorts: ListeningPort[];
+  private forwardingRules: PortForwardingRuleStatus[];
+  // traffic of the redirects by redirected port
+  private forwardStatistics: Map<number, PortForwardStatistics>;
+  // health of the probed endpoints
+  private health: Map<string, EndpointHealth>;
   private treeId: number;
 
   constructor() {
@@ -52,6 +66,9 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
     this.treeNodeItems = [];
     this.currentEndpoints = [];
     this.openedPorts = [];
+    this.forwardingRules = [];
+    this.forwardStatistics = new Map();
+    this.health = new Map();
     this.onDidChangeTreeDataEmitter = new theia.EventEmitter<undefined>();
     this.onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
     this.ids = [];
@@ -88,11 +105,17 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
     );
     context.subscriptions.push(
       theia.commands.registerCommand('portPlugin.copyClipboardUrl', async (node: EndpointTreeNodeItem) => {
-        if (node.endpoint && node.endpoint.url) {
-          await theia.env.clipboard.writeText(node.endpoint.url);
+        const url = this.getUrl(node);
+        if (url) {
+          await theia.env.clipboard.writeText(url);
         }
       })
     );
+    context.subscriptions.push(
+      theia.commands.registerCommand('portPlugin.killProcess', async (node: EndpointTreeNodeItem) =>
+        this.killProcess(node)
+      )
+    );
     context.subscriptions.push(
       theia.commands.registerCommand('portPlugin.preview', (node: EndpointTreeNodeItem) => {
         if (node.endpoint && node.endpoint.url) {
@@ -116,9 +139,22 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
   }
 
   // Update the endpoints from ports-plugin
-  async updateEndpoints(currentEndpoints: Endpoint[], openedPorts: ListeningPort[]): Promise<void> {
+  async updateEndpoints(
+    currentEndpoints: Endpoint[],
+    openedPorts: ListeningPort[],
+    forwardingRules: PortForwardingRuleStatus[] = [],
+    forwardStatistics: Map<number, PortForwardStatistics> = new Map()
+  ): Promise<void> {
     this.currentEndpoints = currentEndpoints;
     this.openedPorts = openedPorts;
+    this.forwardingRules = forwardingRules;
+    this.forwardStatistics = forwardStatistics;
+    this.refresh();
+  }
+
+  // Update the health of the endpoints
+  async updateHealth(health: Map<string, EndpointHealth>): Promise<void> {
+    this.health = health;
     this.refresh();
   }
 
@@ -127,16 +163,65 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
     return this.openedPorts.some(listeningPort => listeningPort.portNumber === portNumber);
   }
 
-  // Create a new node item
+  // Create a new node item, the owning process of the port is added to the label if it's known
   createEndpointTreeNodeItem(label: string, parentId: string, endpoint: Endpoint): EndpointTreeNodeItem {
+    const listeningPort = this.openedPorts.find(port => port.portNumber === endpoint.targetPort);
+    if (listeningPort && listeningPort.pid) {
+      label = `${label} — ${this.getProcessName(listeningPort)} (pid ${listeningPort.pid})`;
+    }
     return {
       id: this.getNextId(),
       label,
       parentId,
       endpoint,
+      listeningPort,
     };
   }
 
+  // URL of the endpoint or the local address of the listening port
+  getUrl(node: EndpointTreeNodeItem): string | undefined {
+    if (node.endpoint && node.endpoint.url && node.endpoint.url.includes('://')) {
+      return node.endpoint.url;
+    }
+    if (node.listeningPort) {
+      const scheme = node.listeningPort.protocol === 'udp' ? 'udp' : 'http';
+      return `${scheme}://localhost:${node.listeningPort.portNumber}`;
+    }
+    return undefined;
+  }
+
+  // Kill the process listening on the port of the endpoint
+  async killProcess(node: EndpointTreeNodeItem): Promise<void> {
+    const listeningPort = node.listeningPort;
+    if (!listeningPort || !listeningPort.pid) {
+      theia.window.showWarningMessage('The process listening on this port is unknown.');
+      return;
+    }
+
+    const processDescription = `${this.getProcessName(listeningPort)} (pid ${listeningPort.pid})`;
+    const kill: theia.MessageItem = { title: 'Kill' };
+    const result = await theia.window.showWarningMessage(
+      `Kill process ${processDescription} listening on port ${listeningPort.portNumber}?`,
+      { modal: true },
+      kill
+    );
+    if (result !== kill) {
+      return;
+    }
+
+    try {
+      process.kill(listeningPort.pid, 'SIGTERM');
+    } catch (error) {
+      theia.window.showErrorMessage(`Unable to kill process ${processDescription}: ${error.message}`);
+    }
+  }
+
+  // name of the executable of the process
+  getProcessName(listeningPort: ListeningPort): string {
+    const executable = (listeningPort.commandLine || '').split(' ')[0];
+    return executable ? path.basename(executable) : 'unknown';
+  }
+
   async refresh(): Promise<void> {
     let filteredEndpoints = [...this.currentEndpoints];
     if (!this.showPluginEndpoints) {
@@ -187,8 +272,13 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
       const publicEndpointNode = this.createEndpointTreeNodeItem(label, publicEndpointsGroup.id, endpoint);
       if (this.isOnline(targetPort)) {
         publicEndpointNode.iconPath = 'fa-circle medium-green';
-        publicEndpointNode.tooltip = 'Public Port';
-        if (endpoint.url && endpoint.url.startsWith('https://')) {
+        publicEndpointNode.tooltip = this.withCommandLine('Public Port', publicEndpointNode);
+        const statistics = this.forwardStatistics.get(targetPort);
+        if (endpoint.exposure === EndpointExposure.FROM_RUNTIME_PORT_FORWARDING && statistics) {
+          publicEndpointNode.description = this.formatTraffic(statistics);
+          publicEndpointNode.tooltip = `${publicEndpointNode.tooltip}\n${this.formatTrafficDetails(statistics)}`;
+          publicEndpointNode.contextValue = 'portForwardOnline';
+        } else if (endpoint.url && endpoint.url.startsWith('https://')) {
           publicEndpointNode.contextValue = 'publicHttpsEndpointOnline';
         } else if (endpoint.url && endpoint.url.startsWith('http://')) {
           publicEndpointNode.contextValue = 'publicHttpEndpointOnline';
@@ -200,6 +290,7 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
         publicEndpointNode.tooltip = 'Public Port offline';
         publicEndpointNode.contextValue = 'publicDevfilePortOffline';
       }
+      this.applyHealth(publicEndpointNode);
       this.treeNodeItems.push(publicEndpointNode);
     });
 
@@ -219,7 +310,7 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
       );
       if (this.isOnline(endpoint.targetPort)) {
         privateEndpointNode.iconPath = 'fa-circle medium-green';
-        privateEndpointNode.tooltip = 'Private Port';
+        privateEndpointNode.tooltip = this.withCommandLine('Private Port', privateEndpointNode);
         // user defined ?
         if (endpoint.exposure === EndpointExposure.FROM_RUNTIME_USER) {
           privateEndpointNode.contextValue = 'privateUserPortOnline';
@@ -231,9 +322,45 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
         privateEndpointNode.tooltip = 'Private Port offline';
         privateEndpointNode.contextValue = 'privateDevfilePortOffline';
       }
+      this.applyHealth(privateEndpointNode);
       this.treeNodeItems.push(privateEndpointNode);
     });
 
+    const forwardingRulesGroup: EndpointTreeNodeItem = {
+      id: this.getNextId(),
+      label: 'Forwarding Rules',
+      iconPath: 'fa-random',
+      tooltip: 'Ports forwarded to a redirect endpoint as soon as they are listening',
+      collapsibleState: theia.TreeItemCollapsibleState.Expanded,
+    };
+    this.forwardingRules.forEach(status => {
+      const { rule, state, url } = status;
+      const ruleNode: EndpointTreeNodeItem = {
+        id: this.getNextId(),
+        label: `${rule.port} → ${rule.endpoint}`,
+        description: state,
+        parentId: forwardingRulesGroup.id,
+        forwardingRule: rule,
+        contextValue: 'forwardingRule',
+      };
+      const statistics = this.forwardStatistics.get(rule.port);
+      if (state === 'active') {
+        ruleNode.iconPath = 'fa-circle medium-green';
+        ruleNode.tooltip = `Port ${rule.port} is forwarded to ${url}`;
+        if (statistics) {
+          ruleNode.description = `${state}, ${this.formatTraffic(statistics)}`;
+          ruleNode.tooltip = `${ruleNode.tooltip}\n${this.formatTrafficDetails(statistics)}`;
+        }
+      } else if (state === 'waiting') {
+        ruleNode.iconPath = 'fa-circle-thin medium-grey';
+        ruleNode.tooltip = `Port ${rule.port} will be forwarded to ${url} when it's listening`;
+      } else {
+        ruleNode.iconPath = 'fa-exclamation-circle medium-red';
+        ruleNode.tooltip = `Redirect endpoint ${rule.endpoint} is not available`;
+      }
+      this.treeNodeItems.push(ruleNode);
+    });
+
     // sort per labels
     this.treeNodeItems.sort((item1: EndpointTreeNodeItem, item2: EndpointTreeNodeItem) =>
       item1.label.localeCompare(item2.label)
@@ -246,7 +373,10 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
     if (privateEndpoints.length > 0) {
       this.treeNodeItems.push(privateEndpointsGroup);
     }
-    if (privateEndpoints.length === 0 && publicEndpoints.length === 0) {
+    if (this.forwardingRules.length > 0) {
+      this.treeNodeItems.push(forwardingRulesGroup);
+    }
+    if (privateEndpoints.length === 0 && publicEndpoints.length === 0 && this.forwardingRules.length === 0) {
       this.treeNodeItems.push({
         id: this.getNextId(),
         label: 'No endpoints',
@@ -258,6 +388,54 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
     this.onDidChangeTreeDataEmitter.fire();
   }
 
+  // show the health of the endpoint of the node if the endpoint is probed
+  applyHealth(node: EndpointTreeNodeItem): void {
+    const health = node.endpoint && this.health.get(EndpointHealthMonitor.getKey(node.endpoint));
+    if (!health) {
+      return;
+    }
+
+    let details;
+    if (health.state === 'up') {
+      node.iconPath = 'fa-check-circle medium-green';
+      node.description = `${health.latency} ms`;
+      details = `Up, answered in ${health.latency} ms`;
+    } else if (health.state === 'down') {
+      node.iconPath = 'fa-times-circle medium-red';
+      node.description = 'down';
+      details = `Down: ${health.error}`;
+    } else {
+      node.iconPath = 'fa-question-circle medium-grey';
+      details = 'Health unknown';
+    }
+    node.tooltip = `${node.tooltip}\n${details} (${new Date(health.time).toLocaleTimeString()})`;
+  }
+
+  // short summary of the traffic of a redirect
+  formatTraffic(statistics: PortForwardStatistics): string {
+    const errors = statistics.errors > 0 ? `, ${statistics.errors} errors` : '';
+    return `${statistics.activeConnections} conn., ↓${formatBytes(statistics.bytesIn)} ↑${formatBytes(
+      statistics.bytesOut
+    )}${errors}`;
+  }
+
+  formatTrafficDetails(statistics: PortForwardStatistics): string {
+    const lines = [
+      `Connections: ${statistics.activeConnections} active, ${statistics.totalConnections} total`,
+      `Bytes in: ${statistics.bytesIn}, bytes out: ${statistics.bytesOut}`,
+      `Last activity: ${statistics.lastActivity ? new Date(statistics.lastActivity).toLocaleTimeString() : 'none'}`,
+    ];
+    if (statistics.errors > 0) {
+      lines.push(`Errors: ${statistics.errors}, last one: ${statistics.lastError}`);
+    }
+    return lines.join('\n');
+  }
+
+  private withCommandLine(tooltip: string, node: EndpointTreeNodeItem): string {
+    const commandLine = node.listeningPort && node.listeningPort.commandLine;
+    return commandLine ? `${tooltip}: ${commandLine}` : tooltip;
+  }
+
   private getNextId(): string {
     return `${this.treeId++}`;
   }
@@ -278,3 +456,14 @@ export class EndpointsTreeDataProvider implements theia.TreeDataProvider<Endpoin
     this.onDidChangeTreeDataEmitter.dispose();
   }
 }
+
+// human readable size
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -8,6 +8,11 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
+/**
+ * Transport protocol of a listening port
+ */
+export type PortProtocol = 'tcp' | 'udp';
+
 /**
  * Defines a Listening Port with a port number and the network interface
  * @author Florent Benoit
@@ -16,4 +21,11 @@ export interface ListeningPort {
   portNumber: number;
 
   interfaceListen: string;
+
+  protocol: PortProtocol;
+
+  // process owning the socket, if it can be found
+  pid?: number;
+
+  commandLine?: string;
 }
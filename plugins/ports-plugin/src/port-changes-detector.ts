@@ -17,17 +17,40 @@ export interface PortCallback {
 }
 
 /**
- * Check if there are new ports being opened or closed and send events callbacks
+ * Ports opened and closed since the previous scan
+ */
+export interface PortsChangeEvent {
+  opened: ListeningPort[];
+  closed: ListeningPort[];
+}
+
+export interface PortsChangeCallback {
+  (event: PortsChangeEvent): void;
+}
+
+/**
+ * Check if there are new ports being opened or closed and send events callbacks.
+ * A port is identified by its number, network interface and protocol, so a process binding the same port
+ * on another interface is reported as a closed and an opened port.
+ * The delay between two scans grows while nothing changes and is reset when a change is found or a scan is requested.
  * @author Florent Benoit
  */
 export class PortChangesDetector {
-  private static readonly WAIT = 3000;
-  private openedPorts: ListeningPort[] = [];
+  public static readonly MIN_WAIT = 1000;
+  public static readonly MAX_WAIT = 10000;
+  private openedPorts = new Map<string, ListeningPort>();
 
   private readonly portScanner: PortScanner;
 
-  private onDidOpenPorts: ((openPort: ListeningPort) => void)[] = [];
-  private onDidClosePorts: ((closedPort: ListeningPort) => void)[] = [];
+  private onDidOpenPorts: PortCallback[] = [];
+  private onDidClosePorts: PortCallback[] = [];
+  private onDidChangePortsCallbacks: PortsChangeCallback[] = [];
+
+  private wait = PortChangesDetector.MIN_WAIT;
+  private timeout: NodeJS.Timeout | undefined;
+  private scanning: Promise<void> | undefined;
+  private stopped = false;
+  private refreshRequested = false;
 
   public onDidOpenPort(callback: PortCallback): void {
     this.onDidOpenPorts.push(callback);
@@ -37,6 +60,13 @@ export class PortChangesDetector {
     this.onDidClosePorts.push(callback);
   }
 
+  /**
+   * Register a callback receiving all the ports opened and closed by a scan at once.
+   */
+  public onDidChangePorts(callback: PortsChangeCallback): void {
+    this.onDidChangePortsCallbacks.push(callback);
+  }
+
   constructor(internalScanner?: AbstractInternalScanner) {
     this.portScanner = new PortScanner(internalScanner);
   }
@@ -45,45 +75,103 @@ export class PortChangesDetector {
    * Get opened ports.
    */
   public async init(): Promise<void> {
-    this.openedPorts = await this.portScanner.getListeningPorts();
+    this.openedPorts = this.toMap(await this.portScanner.getListeningPorts());
   }
 
-  public async monitor(): Promise<void> {
+  /**
+   * Scan the ports and send the events if some ports are opened or closed.
+   * @returns true if a change is found
+   */
+  public async monitor(): Promise<boolean> {
     // grab new port opened and compare
-    const scanPorts = await this.portScanner.getListeningPorts();
-
-    // not yet opened ?
-    const newOpened = scanPorts.filter(
-      port => !this.openedPorts.some(openPort => openPort.portNumber === port.portNumber)
-    );
+    const scanPorts = this.toMap(await this.portScanner.getListeningPorts());
 
-    // new closed
-    const closed = this.openedPorts.filter(
-      port => !scanPorts.some(openPort => openPort.portNumber === port.portNumber)
-    );
+    const opened = Array.from(scanPorts.entries())
+      .filter(([key]) => !this.openedPorts.has(key))
+      .map(([, port]) => port);
+    const closed = Array.from(this.openedPorts.entries())
+      .filter(([key]) => !scanPorts.has(key))
+      .map(([, port]) => port);
 
     // update
     this.openedPorts = scanPorts;
 
-    // send events
-    this.onDidOpenPorts.map(func => {
-      newOpened.map(port => func(port));
-    });
+    if (opened.length === 0 && closed.length === 0) {
+      return false;
+    }
 
-    this.onDidClosePorts.map(func => {
-      closed.map(port => func(port));
-    });
+    // send events, the closed ports first to release what the rebound ports may need
+    const event: PortsChangeEvent = { opened, closed };
+    this.onDidChangePortsCallbacks.forEach(func => func(event));
+    this.onDidClosePorts.forEach(func => closed.forEach(port => func(port)));
+    this.onDidOpenPorts.forEach(func => opened.forEach(port => func(port)));
+    return true;
   }
 
   public getOpenedPorts(): ListeningPort[] {
-    return this.openedPorts;
+    return Array.from(this.openedPorts.values());
   }
 
+  /**
+   * Scan the ports and schedule the next scan.
+   */
   public async check(): Promise<void> {
-    // monitor
-    await this.monitor();
+    this.stopped = false;
+    if (this.scanning) {
+      return this.scanning;
+    }
+    this.clearTimeout();
+
+    this.scanning = this.scan();
+    try {
+      await this.scanning;
+    } finally {
+      this.scanning = undefined;
+    }
+  }
+
+  /**
+   * Request a scan as soon as possible, for example when a process is likely to open a port.
+   */
+  public refresh(): void {
+    this.wait = PortChangesDetector.MIN_WAIT;
+    if (this.scanning) {
+      this.refreshRequested = true;
+    } else if (!this.stopped) {
+      this.check();
+    }
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.clearTimeout();
+  }
+
+  private async scan(): Promise<void> {
+    try {
+      const changed = await this.monitor();
+      const active = changed || this.refreshRequested;
+      this.wait = active ? PortChangesDetector.MIN_WAIT : Math.min(this.wait * 2, PortChangesDetector.MAX_WAIT);
+    } catch (error) {
+      console.error('Unable to scan the listening ports', error);
+      this.wait = PortChangesDetector.MAX_WAIT;
+    }
+    this.refreshRequested = false;
 
     // start again check
-    setTimeout(() => this.check(), PortChangesDetector.WAIT);
+    if (!this.stopped) {
+      this.timeout = setTimeout(() => this.check(), this.wait);
+    }
+  }
+
+  private clearTimeout(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  private toMap(ports: ListeningPort[]): Map<string, ListeningPort> {
+    return new Map(ports.map(port => [`${port.protocol}:${port.interfaceListen}:${port.portNumber}`, port]));
   }
 }
@@ -10,12 +10,58 @@
 
 import * as net from 'net';
 
+/**
+ * Traffic of a port forward, bytes in are sent by the clients and bytes out are sent back to them.
+ */
+export interface PortForwardStatistics {
+  activeConnections: number;
+  totalConnections: number;
+  bytesIn: number;
+  bytesOut: number;
+  // time of the last data or connection
+  lastActivity?: number;
+  errors: number;
+  lastError?: string;
+}
+
+/**
+ * Connection of a client to a port forward.
+ */
+export interface PortForwardConnection {
+  id: number;
+  remoteAddress: string;
+  remotePort: number;
+  startTime: number;
+  bytesIn: number;
+  bytesOut: number;
+}
+
+export interface PortForwardCallback {
+  (): void;
+}
+
+interface ClientConnection {
+  connection: PortForwardConnection;
+  localsocket: net.Socket;
+  remotesocket: net.Socket;
+}
+
 /**
  * Allow to forward a port and redirect traffic.
  * @author Florent Benoit
  */
 export class PortForwardServer {
   private server: net.Server | undefined;
+  private connectionId = 0;
+  private connections = new Map<number, ClientConnection>();
+  private statistics: PortForwardStatistics = {
+    activeConnections: 0,
+    totalConnections: 0,
+    bytesIn: 0,
+    bytesOut: 0,
+    errors: 0,
+  };
+  private onDidChangeConnectionsCallbacks: PortForwardCallback[] = [];
 
   constructor(
     private readonly localPort: number,
@@ -23,19 +69,45 @@ export class PortForwardServer {
     private readonly remotePort: number
   ) {}
 
+  /**
+   * Register a callback called when a connection is opened, closed or fails.
+   */
+  onDidChangeConnections(callback: PortForwardCallback): void {
+    this.onDidChangeConnectionsCallbacks.push(callback);
+  }
+
   async start(): Promise<void> {
     this.server = net.createServer(localsocket => {
       const remotesocket = new net.Socket();
+      const connection: PortForwardConnection = {
+        id: this.connectionId++,
+        remoteAddress: localsocket.remoteAddress || 'unknown',
+        remotePort: localsocket.remotePort || 0,
+        startTime: Date.now(),
+        bytesIn: 0,
+        bytesOut: 0,
+      };
+      this.connections.set(connection.id, { connection, localsocket, remotesocket });
+      this.statistics.activeConnections++;
+      this.statistics.totalConnections++;
+      this.statistics.lastActivity = connection.startTime;
+      this.fireDidChangeConnections();
 
       remotesocket.connect(this.remotePort, this.remoteHost);
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       localsocket.on('connect', (data: any) => {});
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       localsocket.on('data', (data: any) => {
+        connection.bytesIn += data.length;
+        this.statistics.bytesIn += data.length;
+        this.statistics.lastActivity = Date.now();
         remotesocket.write(data);
       });
 
       remotesocket.on('data', data => {
+        connection.bytesOut += data.length;
+        this.statistics.bytesOut += data.length;
+        this.statistics.lastActivity = Date.now();
         const flushed = localsocket.write(data);
         if (!flushed) {
           remotesocket.pause();
@@ -50,16 +122,28 @@ export class PortForwardServer {
         localsocket.resume();
       });
 
+      localsocket.on('error', error => this.onError(error));
+      remotesocket.on('error', error => this.onError(error));
+
       localsocket.on('close', had_error => {
         remotesocket.end();
+        this.onClose(connection.id);
       });
 
       remotesocket.on('close', had_error => {
         localsocket.end();
+        this.onClose(connection.id);
       });
     });
 
-    this.server.listen(this.localPort);
+    const server = this.server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.localPort, () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
 
     console.info(
       'redirecting connections from 127.0.0.1:%d to %s:%d',
@@ -69,9 +153,48 @@ export class PortForwardServer {
     );
   }
 
+  getStatistics(): PortForwardStatistics {
+    return { ...this.statistics };
+  }
+
+  getConnections(): PortForwardConnection[] {
+    return Array.from(this.connections.values()).map(clientConnection => ({ ...clientConnection.connection }));
+  }
+
+  /**
+   * Close the connection of a client.
+   */
+  dropConnection(id: number): void {
+    const clientConnection = this.connections.get(id);
+    if (clientConnection) {
+      clientConnection.localsocket.destroy();
+      clientConnection.remotesocket.destroy();
+      this.onClose(id);
+    }
+  }
+
   stop(): void {
     if (this.server) {
       this.server.close();
     }
   }
+
+  private onError(error: Error): void {
+    this.statistics.errors++;
+    this.statistics.lastError = error.message;
+    this.fireDidChangeConnections();
+  }
+
+  // both sockets of a connection are closed, the connection is counted once
+  private onClose(id: number): void {
+    if (this.connections.delete(id)) {
+      this.statistics.activeConnections--;
+      this.statistics.lastActivity = Date.now();
+      this.fireDidChangeConnections();
+    }
+  }
+
+  private fireDidChangeConnections(): void {
+    this.onDidChangeConnectionsCallbacks.forEach(callback => callback());
+  }
 }
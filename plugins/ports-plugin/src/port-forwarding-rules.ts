@@ -0,0 +1,93 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as theia from '@theia/plugin';
+
+/**
+ * Forward the traffic of a redirect endpoint to a local port once the port is listening.
+ */
+export interface PortForwardingRule {
+  // local port
+  port: number;
+
+  // name of the redirect endpoint
+  endpoint: string;
+}
+
+/**
+ * State of a rule:
+ *  - active: the traffic is forwarded
+ *  - waiting: nothing is listening on the port yet
+ *  - unavailable: the redirect endpoint does not exist or is already used by another port
+ */
+export type PortForwardingRuleState = 'active' | 'waiting' | 'unavailable';
+
+export interface PortForwardingRuleStatus {
+  rule: PortForwardingRule;
+  state: PortForwardingRuleState;
+  url?: string;
+}
+
+/**
+ * Port forwarding rules stored in the workspace settings.
+ */
+export class PortForwardingRules {
+  public static readonly CONFIGURATION = 'che.ports';
+  public static readonly RULES = 'forwardingRules';
+
+  getRules(): PortForwardingRule[] {
+    const configuration = theia.workspace.getConfiguration(PortForwardingRules.CONFIGURATION);
+    const rules = configuration && configuration.get<PortForwardingRule[]>(PortForwardingRules.RULES);
+    if (!Array.isArray(rules)) {
+      return [];
+    }
+    // ignore malformed rules edited by hand
+    return rules.filter(
+      rule => rule && Number.isInteger(rule.port) && typeof rule.endpoint === 'string' && rule.endpoint.length > 0
+    );
+  }
+
+  getRule(port: number): PortForwardingRule | undefined {
+    return this.getRules().find(rule => rule.port === port);
+  }
+
+  /**
+   * Add a rule, or replace the rule of the same port.
+   */
+  async add(rule: PortForwardingRule): Promise<void> {
+    await this.save([...this.getRules().filter(existing => existing.port !== rule.port), rule]);
+  }
+
+  /**
+   * Replace the rule of the given port, the port of the rule may be changed.
+   */
+  async update(port: number, rule: PortForwardingRule): Promise<void> {
+    const rules = this.getRules().filter(existing => existing.port !== port && existing.port !== rule.port);
+    await this.save([...rules, rule]);
+  }
+
+  async remove(port: number): Promise<void> {
+    await this.save(this.getRules().filter(rule => rule.port !== port));
+  }
+
+  onDidChange(listener: () => void): theia.Disposable {
+    return theia.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration(`${PortForwardingRules.CONFIGURATION}.${PortForwardingRules.RULES}`)) {
+        listener();
+      }
+    });
+  }
+
+  private async save(rules: PortForwardingRule[]): Promise<void> {
+    const configuration = theia.workspace.getConfiguration(PortForwardingRules.CONFIGURATION);
+    rules.sort((rule1, rule2) => rule1.port - rule2.port);
+    await configuration.update(PortForwardingRules.RULES, rules, theia.ConfigurationTarget.Workspace);
+  }
+}
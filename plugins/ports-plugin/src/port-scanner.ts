@@ -8,9 +8,18 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
+import { ListeningPort, PortProtocol } from './listening-port';
+import { promises as fs, readFile } from 'fs';
+
 import { IpConverter } from './ip-converter';
-import { ListeningPort } from './listening-port';
-import { readFile } from 'fs';
+
+/**
+ * Process owning a socket
+ */
+export interface SocketOwner {
+  pid: number;
+  commandLine: string;
+}
 
 /**
  * Injectrable internal scanner used with PortScanner.
@@ -30,6 +39,23 @@ export abstract class AbstractInternalScanner {
   }
   abstract getListeningPortV4(): Promise<string>;
   abstract getListeningPortV6(): Promise<string>;
+
+  // UDP sockets are not provided unless the scanner overrides these methods
+  async getListeningUdpPortV4(): Promise<string> {
+    return '';
+  }
+
+  async getListeningUdpPortV6(): Promise<string> {
+    return '';
+  }
+
+  /**
+   * Find the processes owning the sockets with the given inodes.
+   * No owner is found unless the scanner overrides this method.
+   */
+  async getSocketOwners(inodes: number[]): Promise<Map<number, SocketOwner>> {
+    return new Map();
+  }
 }
 
 /**
@@ -39,28 +65,84 @@ export abstract class AbstractInternalScanner {
 class DefaultInternalScanner extends AbstractInternalScanner {
   public static readonly PORTS_IPV4 = '/proc/net/tcp';
   public static readonly PORTS_IPV6 = '/proc/net/tcp6';
-  private fetchIPV4 = true;
-  private fetchIPV6 = true;
+  public static readonly UDP_PORTS_IPV4 = '/proc/net/udp';
+  public static readonly UDP_PORTS_IPV6 = '/proc/net/udp6';
+  public static readonly PROC = '/proc';
+  private unavailablePaths = new Set<string>();
 
   async getListeningPortV4(): Promise<string> {
-    return this.fetchIPV4
-      ? this.readFilePromise(DefaultInternalScanner.PORTS_IPV4).catch(e => {
-          console.error(e);
-          this.fetchIPV4 = false;
-          return Promise.resolve('');
-        })
-      : '';
+    return this.readProcFile(DefaultInternalScanner.PORTS_IPV4);
   }
 
   async getListeningPortV6(): Promise<string> {
-    return this.fetchIPV6
-      ? this.readFilePromise(DefaultInternalScanner.PORTS_IPV6).catch(e => {
-          console.error(e);
-          this.fetchIPV6 = false;
-          return Promise.resolve('');
-        })
-      : '';
+    return this.readProcFile(DefaultInternalScanner.PORTS_IPV6);
   }
+
+  async getListeningUdpPortV4(): Promise<string> {
+    return this.readProcFile(DefaultInternalScanner.UDP_PORTS_IPV4);
+  }
+
+  async getListeningUdpPortV6(): Promise<string> {
+    return this.readProcFile(DefaultInternalScanner.UDP_PORTS_IPV6);
+  }
+
+  /**
+   * Look for the sockets in the file descriptors of every process: the link of a socket descriptor is `socket:[inode]`
+   */
+  async getSocketOwners(inodes: number[]): Promise<Map<number, SocketOwner>> {
+    const owners = new Map<number, SocketOwner>();
+    const pids = (await fs.readdir(DefaultInternalScanner.PROC)).filter(entry => /^\d+$/.test(entry));
+    for (const pid of pids) {
+      if (owners.size === inodes.length) {
+        break;
+      }
+
+      const fdDir = `${DefaultInternalScanner.PROC}/${pid}/fd`;
+      // descriptors of the processes of other users are not readable
+      const fds = await fs.readdir(fdDir).catch(() => [] as string[]);
+      for (const fd of fds) {
+        const link = await fs.readlink(`${fdDir}/${fd}`).catch(() => '');
+        const matcher = /^socket:\[(\d+)\]$/.exec(link);
+        const inode = matcher ? parseInt(matcher[1]) : 0;
+        if (inodes.includes(inode) && !owners.has(inode)) {
+          const commandLine = await this.readFilePromise(`${DefaultInternalScanner.PROC}/${pid}/cmdline`).catch(
+            () => ''
+          );
+          owners.set(inode, { pid: parseInt(pid), commandLine: commandLine.split('\0').join(' ').trim() });
+        }
+      }
+    }
+    return owners;
+  }
+
+  private async readProcFile(path: string): Promise<string> {
+    if (this.unavailablePaths.has(path)) {
+      return '';
+    }
+    return this.readFilePromise(path).catch(e => {
+      console.error(e);
+      this.unavailablePaths.add(path);
+      return '';
+    });
+  }
+}
+
+// TCP socket state of a listening socket
+const TCP_LISTEN = '0A';
+// UDP socket state of a socket which is not connected to a remote address
+const UDP_UNCONNECTED = '07';
+
+// local address, remote address and state of a socket in /proc/net/{tcp,udp}{,6}
+const SOCKET_REGEX = /^\s*\d+:\s+([0-9A-Fa-f]+):([0-9A-Fa-f]+)\s+[0-9A-Fa-f]+:([0-9A-Fa-f]+)\s+([0-9A-Fa-f]{2})\s/;
+// inode of a socket is followed by the reference count and the address of the socket
+const INODE_REGEX = /\s(\d+)\s+\d+\s+[0-9A-Fa-f]{8,16}\b/;
+
+/**
+ * Listening port with the inode of its socket
+ */
+interface ListeningSocket {
+  port: ListeningPort;
+  inode: number;
 }
 
 /**
@@ -69,6 +151,9 @@ class DefaultInternalScanner extends AbstractInternalScanner {
  */
 export class PortScanner {
   private scanner: AbstractInternalScanner;
+  private ipConverter = new IpConverter();
+  // owners of the sockets by inode, undefined if the owner is not found
+  private socketOwners = new Map<number, SocketOwner | undefined>();
 
   /* `scanner` will be injected on tests. */
   constructor(scanner: AbstractInternalScanner = new DefaultInternalScanner()) {
@@ -79,25 +164,74 @@ export class PortScanner {
    * Get opened ports.
    */
   public async getListeningPorts(): Promise<ListeningPort[]> {
-    const ipConverter = new IpConverter();
-    const outIPV6 = this.scanner.getListeningPortV6();
-    const outIPV4 = this.scanner.getListeningPortV4();
-    const output = (await Promise.all([outIPV4, outIPV6])).join();
-
-    // parse
-    const regex = /:\s(.*):(.*)\s[0-9].*\s0A\s/gm;
-    const ports = [];
-    let matcher;
-    // eslint-disable-next-line no-null/no-null
-    while ((matcher = regex.exec(output)) !== null) {
-      const ipRaw = matcher[1];
-      const portRaw = matcher[2];
-      const interfaceListen = ipConverter.convert(ipRaw);
+    const [tcpV4, tcpV6, udpV4, udpV6] = await Promise.all([
+      this.scanner.getListeningPortV4(),
+      this.scanner.getListeningPortV6(),
+      this.scanner.getListeningUdpPortV4(),
+      this.scanner.getListeningUdpPortV6(),
+    ]);
+
+    const sockets = [
+      ...this.parse(tcpV4, 'tcp'),
+      ...this.parse(tcpV6, 'tcp'),
+      ...this.parse(udpV4, 'udp'),
+      ...this.parse(udpV6, 'udp'),
+    ];
+    await this.resolveOwners(sockets);
+
+    return sockets.map(socket => socket.port);
+  }
+
+  private parse(output: string, protocol: PortProtocol): ListeningSocket[] {
+    const sockets: ListeningSocket[] = [];
+    for (const line of output.split('\n')) {
+      const matcher = SOCKET_REGEX.exec(line);
+      if (!matcher) {
+        continue;
+      }
+
+      const [, ipRaw, portRaw, remotePortRaw, state] = matcher;
+      const listening =
+        protocol === 'tcp' ? state === TCP_LISTEN : state === UDP_UNCONNECTED && parseInt(remotePortRaw, 16) === 0;
+      if (!listening) {
+        continue;
+      }
+
+      const interfaceListen = this.ipConverter.convert(ipRaw);
       // convert port which is in HEX to int
       const portNumber = parseInt(portRaw, 16);
-      const port: ListeningPort = { portNumber, interfaceListen };
-      ports.push(port);
+      const inodeMatcher = INODE_REGEX.exec(line);
+      const inode = inodeMatcher ? parseInt(inodeMatcher[1]) : 0;
+      sockets.push({ port: { portNumber, interfaceListen, protocol }, inode });
+    }
+    return sockets;
+  }
+
+  /**
+   * Add the owning processes to the ports. Processes are looked up only for the sockets which are not known yet.
+   */
+  private async resolveOwners(sockets: ListeningSocket[]): Promise<void> {
+    const inodes = sockets.map(socket => socket.inode).filter(inode => inode !== 0);
+    const unknownInodes = inodes.filter(inode => !this.socketOwners.has(inode));
+    if (unknownInodes.length > 0) {
+      const owners = await this.scanner.getSocketOwners(unknownInodes).catch(e => {
+        console.error(e);
+        return new Map<number, SocketOwner>();
+      });
+      unknownInodes.forEach(inode => this.socketOwners.set(inode, owners.get(inode)));
     }
-    return ports;
+
+    // forget the closed sockets
+    Array.from(this.socketOwners.keys())
+      .filter(inode => !inodes.includes(inode))
+      .forEach(inode => this.socketOwners.delete(inode));
+
+    sockets.forEach(socket => {
+      const owner = this.socketOwners.get(socket.inode);
+      if (owner) {
+        socket.port.pid = owner.pid;
+        socket.port.commandLine = owner.commandLine;
+      }
+    });
   }
 }
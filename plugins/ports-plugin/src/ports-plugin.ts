@@ -10,6 +10,10 @@
 
 import * as theia from '@theia/plugin';
 
+import { EndpointHealth, EndpointHealthMonitor } from './endpoint-health-monitor';
+import { PortForwardServer, PortForwardStatistics } from './port-forward-server';
+import { PortForwardingRule, PortForwardingRuleStatus, PortForwardingRules } from './port-forwarding-rules';
+
 import { CheServerDevfileHandlerImpl } from './devfile-handler-che-server-impl';
 import { DevWorkspaceDevfileHandlerImpl } from './devfile-handler-devworkspace-impl';
 import { DevfileHandler } from './devfile-handler';
@@ -19,7 +23,7 @@ import { EndpointExposure } from './endpoint-exposure';
 import { EndpointsTreeDataProvider } from './endpoints-tree-data-provider';
 import { ListeningPort } from './listening-port';
 import { PortChangesDetector } from './port-changes-detector';
-import { PortForwardServer } from './port-forward-server';
+import { PortsPolicy } from './ports-policy';
 
 /**
  * Plugin that is monitoring new port being opened and closed.
@@ -32,13 +36,17 @@ export interface ForwardedPort {
   portForwardServer: PortForwardServer;
 
   endpoint: Endpoint;
+
+  // true if the redirect is created by a forwarding rule
+  rule?: boolean;
 }
 
+const NEVER_ASK_AGAIN: theia.MessageItem = { title: 'Never ask again' };
+
 export class PortsPlugin {
   // constants
   public static readonly LISTEN_ALL_IPV4 = '0.0.0.0';
   public static readonly LISTEN_ALL_IPV6 = '::';
-  public static readonly SERVER_REDIRECT_PATTERN = 'theia-redirect-';
   public static readonly PORT_EXCLUDE_ENV_VAR_PREFIX: string = 'PORT_PLUGIN_EXCLUDE_';
 
   private devfileHandler: DevfileHandler;
@@ -49,6 +57,10 @@ export class PortsPlugin {
   private outputChannel: theia.OutputChannel;
   private endpointsTreeDataProvider: EndpointsTreeDataProvider;
   private portChangesDetector: PortChangesDetector;
+  private forwardingRules: PortForwardingRules;
+  private portsPolicy: PortsPolicy;
+  private updateEndpointsTimeout: NodeJS.Timeout | undefined;
+  private endpointHealthMonitor: EndpointHealthMonitor;
 
   constructor(private context: theia.PluginContext) {
     this.devfileEndpoints = [];
@@ -62,6 +74,9 @@ export class PortsPlugin {
     this.excludedPorts = [];
     this.endpointsTreeDataProvider = new EndpointsTreeDataProvider();
     this.portChangesDetector = new PortChangesDetector();
+    this.forwardingRules = new PortForwardingRules();
+    this.portsPolicy = new PortsPolicy();
+    this.endpointHealthMonitor = new EndpointHealthMonitor();
     this.outputChannel = theia.window.createOutputChannel('Ports Plug-in');
   }
   /**
@@ -71,26 +86,45 @@ export class PortsPlugin {
    * @param errorMessage  if no free port are available
    */
   async askRedirect(port: ListeningPort, redirectMessage: string, errorMessage: string): Promise<void> {
-    // grab a free redirect
-    if (this.redirectPorts.length === 0) {
-      await theia.window.showErrorMessage(errorMessage, { modal: true });
+    // grab a free redirect, the endpoints of the forwarding rules are reserved
+    const reservedEndpoints = this.forwardingRules.getRules().map(rule => rule.endpoint);
+    const freeRedirectPorts = this.redirectPorts.filter(endpoint => !reservedEndpoints.includes(endpoint.name));
+    const notificationMode = this.portsPolicy.getNotificationMode();
+    if (freeRedirectPorts.length === 0) {
+      if (notificationMode === 'prompt') {
+        const errorResult = await theia.window.showErrorMessage(errorMessage, { modal: true }, NEVER_ASK_AGAIN);
+        if (errorResult && errorResult.title === NEVER_ASK_AGAIN.title) {
+          await this.portsPolicy.neverAskAgain(port.portNumber);
+        }
+      } else {
+        this.log(errorMessage);
+      }
       return;
     }
 
-    const interactions: theia.MessageItem[] = [{ title: 'yes' }, { title: 'no' }];
-    const result = await theia.window.showInformationMessage(redirectMessage, ...interactions);
-    if (result && result.title === 'yes') {
-      // takes first available port
-      const endpoint = this.redirectPorts.pop()!;
-
-      // start a new server for port forwarding
-      const portForwardServer = new PortForwardServer(endpoint.targetPort, 'localhost', port.portNumber);
-      portForwardServer.start();
+    // takes first available port
+    const endpoint = freeRedirectPorts[freeRedirectPorts.length - 1];
+    if (notificationMode === 'quiet') {
+      this.log(redirectMessage);
+      return;
+    }
+    if (notificationMode === 'autoForward') {
+      this.startRedirect(port.portNumber, endpoint, false);
+      this.log(`Redirect is now enabled on port ${port.portNumber}. External URL is ${endpoint.url}`);
+      return;
+    }
 
-      // store port taken
-      const forwardedPort = { portForwardServer, endpoint };
-      this.portForwards.set(port.portNumber, forwardedPort);
-      this.updateEndpoints();
+    const interactions: theia.MessageItem[] = [{ title: 'yes' }, { title: 'no' }, NEVER_ASK_AGAIN];
+    const result = await theia.window.showInformationMessage(redirectMessage, ...interactions);
+    if (result && result.title === NEVER_ASK_AGAIN.title) {
+      await this.portsPolicy.neverAskAgain(port.portNumber);
+    } else if (result && result.title === 'yes') {
+      // the endpoint may be taken by a forwarding rule while the user answers
+      if (!this.redirectPorts.includes(endpoint)) {
+        theia.window.showErrorMessage(`Redirect endpoint ${endpoint.name} is no longer available.`);
+        return;
+      }
+      this.startRedirect(port.portNumber, endpoint, false);
 
       // show redirect
       const redirectInteractions: theia.MessageItem[] = [{ title: 'Open In New Tab' }];
@@ -107,6 +141,81 @@ export class PortsPlugin {
     }
   }
 
+  // start a new server for port forwarding and store the port taken
+  startRedirect(portNumber: number, endpoint: Endpoint, rule: boolean): void {
+    this.redirectPorts = this.redirectPorts.filter(redirectPort => redirectPort !== endpoint);
+
+    const portForwardServer = new PortForwardServer(endpoint.targetPort, 'localhost', portNumber);
+    portForwardServer.onDidChangeConnections(() => this.scheduleUpdateEndpoints());
+    portForwardServer
+      .start()
+      .catch(error =>
+        this.outputChannel.appendLine(`Unable to redirect port ${endpoint.targetPort}: ${error.message}`)
+      );
+
+    this.portForwards.set(portNumber, { portForwardServer, endpoint, rule });
+    this.updateEndpoints();
+  }
+
+  // redirect the port to the endpoint of the rule if the endpoint is free
+  applyForwardingRule(rule: PortForwardingRule): void {
+    if (this.portForwards.has(rule.port)) {
+      return;
+    }
+
+    const endpoint = this.redirectPorts.find(redirectPort => redirectPort.name === rule.endpoint);
+    if (!endpoint) {
+      this.outputChannel.appendLine(
+        `Unable to forward port ${rule.port}: redirect endpoint ${rule.endpoint} is not available.`
+      );
+      return;
+    }
+
+    this.startRedirect(rule.port, endpoint, true);
+    this.outputChannel.appendLine(`Port ${rule.port} is forwarded to ${endpoint.url} by a forwarding rule.`);
+  }
+
+  // Callback when the forwarding rules are changed in the settings
+  onDidChangeForwardingRules(): void {
+    const rules = this.forwardingRules.getRules();
+
+    // stop the redirects which do not match the rules anymore
+    Array.from(this.portForwards.entries()).forEach(([portNumber, forwardedPort]) => {
+      const rule = rules.find(r => r.port === portNumber);
+      const replaced = rule && rule.endpoint !== forwardedPort.endpoint.name;
+      if (replaced || (forwardedPort.rule && !rule)) {
+        this.freeRedirectPort(portNumber);
+      }
+    });
+
+    // and start the redirects of the listening ports
+    const listeningPorts = this.portChangesDetector.getOpenedPorts().filter(port => port.protocol === 'tcp');
+    rules
+      .filter(rule => listeningPorts.some(port => port.portNumber === rule.port))
+      .forEach(rule => this.applyForwardingRule(rule));
+
+    this.updateEndpoints();
+  }
+
+  getForwardingRuleStatus(rule: PortForwardingRule): PortForwardingRuleStatus {
+    const forwardedPort = this.portForwards.get(rule.port);
+    if (forwardedPort && forwardedPort.endpoint.name === rule.endpoint) {
+      return { rule, state: 'active', url: forwardedPort.endpoint.url };
+    }
+    const endpoint = this.redirectPorts.find(redirectPort => redirectPort.name === rule.endpoint);
+    return endpoint ? { rule, state: 'waiting', url: endpoint.url } : { rule, state: 'unavailable' };
+  }
+
+  // refresh the endpoints at most once per second while the connections of the redirects change
+  scheduleUpdateEndpoints(): void {
+    if (!this.updateEndpointsTimeout) {
+      this.updateEndpointsTimeout = setTimeout(() => {
+        this.updateEndpointsTimeout = undefined;
+        this.updateEndpoints();
+      }, 1000);
+    }
+  }
+
   async updateEndpoints(): Promise<void> {
     // first, start with current devfile endpoints (copying them)
     const currentEndpoints = [...this.devfileEndpoints];
@@ -139,7 +248,7 @@ export class PortsPlugin {
           name: 'user',
           exposure: EndpointExposure.FROM_RUNTIME_USER,
           url: 'N/A',
-          protocol: 'unknown',
+          protocol: listeningPort.protocol === 'udp' ? 'udp' : 'unknown',
           targetPort: listeningPort.portNumber,
           category: EndpointCategory.USER,
         };
@@ -147,8 +256,19 @@ export class PortsPlugin {
       }
     });
 
+    const forwardingRules = this.forwardingRules.getRules().map(rule => this.getForwardingRuleStatus(rule));
+    const forwardStatistics = new Map<number, PortForwardStatistics>();
+    this.portForwards.forEach((forwardedPort, redirectPort) =>
+      forwardStatistics.set(redirectPort, forwardedPort.portForwardServer.getStatistics())
+    );
+
     // update the endpoints on the tree data provider
-    this.endpointsTreeDataProvider.updateEndpoints(currentEndpoints, listeningPorts);
+    this.endpointsTreeDataProvider.updateEndpoints(
+      currentEndpoints,
+      listeningPorts,
+      forwardingRules,
+      forwardStatistics
+    );
   }
 
   // Callback when a new port is being opened in workspace
@@ -162,11 +282,31 @@ export class PortsPlugin {
       return;
     }
 
-    // handle ephemeral ports
-    if (port.portNumber >= 32000) {
+    // port forwarding works for TCP only
+    if (port.protocol === 'udp') {
+      this.outputChannel.appendLine(`UDP port now listening on port ${port.portNumber}. No redirect proposed for UDP.`);
+      return;
+    }
+
+    // the user already decided how to forward this port
+    const rule = this.forwardingRules.getRule(port.portNumber);
+    if (rule) {
+      this.applyForwardingRule(rule);
+      return;
+    }
+
+    // skip the ports excluded in the preferences
+    if (this.portsPolicy.isExcluded(port.portNumber) || this.portsPolicy.isNeverAsk(port.portNumber)) {
+      this.outputChannel.appendLine(`Ignoring port ${port.portNumber} excluded in the preferences`);
+      return;
+    }
+
+    // handle ephemeral ports, unless they are included in the preferences
+    const ephemeralThreshold = this.portsPolicy.getEphemeralThreshold();
+    if (port.portNumber >= ephemeralThreshold && !this.portsPolicy.isIncluded(port.portNumber)) {
       // this port is ephemeral so just print a notice but does not propose a redirect
       this.outputChannel.appendLine(
-        `Ephemeral port now listening on port ${port.portNumber} (port range >= 32000). No redirect proposed for ephemerals.`
+        `Ephemeral port now listening on port ${port.portNumber} (port range >= ${ephemeralThreshold}). No redirect proposed for ephemerals.`
       );
       return;
     }
@@ -193,7 +333,7 @@ export class PortsPlugin {
     // if there, show prompt
     if (matchingEndpoint) {
       // internal stuff, no need to display anything
-      if (matchingEndpoint.name.startsWith(PortsPlugin.SERVER_REDIRECT_PATTERN)) {
+      if (matchingEndpoint.name.startsWith(this.portsPolicy.getRedirectEndpointPrefix())) {
         return;
       }
 
@@ -208,9 +348,19 @@ export class PortsPlugin {
         interactions.push({ title: 'Open In Preview' });
       }
 
+      if (this.portsPolicy.getNotificationMode() !== 'prompt') {
+        this.log(
+          `Process ${matchingEndpoint.name} is now listening on port ${matchingEndpoint.targetPort}: ${matchingEndpoint.url}`
+        );
+        return;
+      }
+      interactions.push(NEVER_ASK_AGAIN);
+
       const msg = `Process ${matchingEndpoint.name} is now listening on port ${matchingEndpoint.targetPort}. Open it ?`;
       const result = await theia.window.showInformationMessage(msg, {}, ...interactions);
-      if (result && result.title === 'Open In New Tab') {
+      if (result && result.title === NEVER_ASK_AGAIN.title) {
+        await this.portsPolicy.neverAskAgain(port.portNumber);
+      } else if (result && result.title === 'Open In New Tab') {
         theia.commands.executeCommand('theia.open', matchingEndpoint.url);
       } else if (result && result.title === 'Open In Preview') {
         theia.commands.executeCommand('mini-browser.openUrl', matchingEndpoint.url);
@@ -225,6 +375,30 @@ export class PortsPlugin {
     console.info(`The port ${port.portNumber} is now listening on interface ${port.interfaceListen}`);
   }
 
+  // log a message into the output channel instead of notifying the user
+  log(message: string): void {
+    this.outputChannel.appendLine(message.replace(/\s*\n\s*/g, ' '));
+  }
+
+  // the redirect endpoints which are not used yet
+  updateRedirectPorts(): void {
+    const prefix = this.portsPolicy.getRedirectEndpointPrefix();
+    const usedEndpoints = Array.from(this.portForwards.values()).map(forwardedPort => forwardedPort.endpoint);
+    this.redirectPorts = this.devfileEndpoints.filter(
+      endpoint => endpoint.name.startsWith(prefix) && !usedEndpoints.includes(endpoint)
+    );
+  }
+
+  // Callback when a healthy endpoint does not answer anymore
+  onEndpointDown(endpoint: Endpoint, health: EndpointHealth): void {
+    const message = `Endpoint ${endpoint.name} on port ${endpoint.targetPort} is down: ${health.error}`;
+    if (this.portsPolicy.getNotificationMode() === 'quiet') {
+      this.log(message);
+    } else {
+      theia.window.showWarningMessage(message);
+    }
+  }
+
   async freeRedirectPort(portNumber: number): Promise<void> {
     // stop the redirect
     const forwardedPort = this.portForwards.get(portNumber)!;
@@ -238,9 +412,12 @@ export class PortsPlugin {
   }
 
   onClosedPort(port: ListeningPort): void {
-    // free redirect listener if there is one
+    // free redirect listener if there is one, unless the port is still listening on another interface
     const portNumber = port.portNumber;
-    if (this.portForwards.has(portNumber)) {
+    const stillListening = this.portChangesDetector
+      .getOpenedPorts()
+      .some(openedPort => openedPort.portNumber === portNumber && openedPort.protocol === port.protocol);
+    if (this.portForwards.has(portNumber) && !stillListening) {
       this.freeRedirectPort(portNumber);
     }
     this.updateEndpoints();
@@ -264,12 +441,35 @@ export class PortsPlugin {
     // first, grab ports of workspace
     this.devfileEndpoints = await this.devfileHandler.getEndpoints();
 
-    this.redirectPorts = this.devfileEndpoints.filter(endpoint =>
-      endpoint.name.startsWith(PortsPlugin.SERVER_REDIRECT_PATTERN)
-    );
+    this.updateRedirectPorts();
+
+    this.portChangesDetector.onDidChangePorts(event => {
+      event.closed.forEach(port => this.onClosedPort(port));
+      event.opened.forEach(port => this.onOpenPort(port));
+    });
 
-    this.portChangesDetector.onDidOpenPort(async port => this.onOpenPort(port));
-    this.portChangesDetector.onDidClosePort(async port => this.onClosedPort(port));
+    // new terminals and tasks are likely to open ports, so scan sooner
+    this.context.subscriptions.push(theia.window.onDidOpenTerminal(() => this.portChangesDetector.refresh()));
+    this.context.subscriptions.push(theia.tasks.onDidStartTaskProcess(() => this.portChangesDetector.refresh()));
+
+    this.context.subscriptions.push(this.forwardingRules.onDidChange(() => this.onDidChangeForwardingRules()));
+    this.context.subscriptions.push(
+      this.portsPolicy.onDidChangeRedirectEndpointPrefix(() => {
+        this.updateRedirectPorts();
+        this.onDidChangeForwardingRules();
+      })
+    );
+    this.registerForwardingRulesCommands();
+    this.context.subscriptions.push(
+      theia.commands.registerCommand(
+        'portPlugin.showConnections',
+        async (node?: { endpoint?: Endpoint; forwardingRule?: PortForwardingRule }) => {
+          const port =
+            node && (node.forwardingRule ? node.forwardingRule.port : node.endpoint && node.endpoint.targetPort);
+          await this.showConnections(port);
+        }
+      )
+    );
 
     // init
     await this.endpointsTreeDataProvider.init(this.context);
@@ -278,8 +478,202 @@ export class PortsPlugin {
     await this.portChangesDetector.init();
     this.portChangesDetector.check();
 
-    this.updateEndpoints();
+    // forward the ports which were listening before the start
+    this.onDidChangeForwardingRules();
+
+    // probe the endpoints of the devfile, except the redirect ones
+    this.endpointHealthMonitor.onDidChangeHealth(() =>
+      this.endpointsTreeDataProvider.updateHealth(this.endpointHealthMonitor.getHealth())
+    );
+    this.endpointHealthMonitor.onDidGoDown((endpoint, health) => this.onEndpointDown(endpoint, health));
+    this.endpointHealthMonitor.start(() =>
+      this.devfileEndpoints.filter(endpoint => !endpoint.name.startsWith(this.portsPolicy.getRedirectEndpointPrefix()))
+    );
+  }
+
+  // list the clients connected to a redirect and allow to drop one
+  async showConnections(portNumber?: number): Promise<void> {
+    if (portNumber === undefined || !this.portForwards.has(portNumber)) {
+      const redirectItems = Array.from(this.portForwards.entries()).map(([redirectPort, forwardedPort]) => ({
+        label: `${redirectPort}`,
+        description: forwardedPort.endpoint.url,
+        port: redirectPort,
+      }));
+      if (redirectItems.length === 0) {
+        theia.window.showInformationMessage('There is no redirected port.');
+        return;
+      }
+      const redirectItem = await theia.window.showQuickPick(redirectItems, { placeHolder: 'Select a redirected port' });
+      if (!redirectItem) {
+        return;
+      }
+      portNumber = redirectItem.port;
+    }
+
+    const portForwardServer = this.portForwards.get(portNumber)!.portForwardServer;
+    const connections = portForwardServer.getConnections();
+    if (connections.length === 0) {
+      theia.window.showInformationMessage(`There is no connection to the redirect of port ${portNumber}.`);
+      return;
+    }
+
+    const items = connections.map(connection => ({
+      label: `${connection.remoteAddress}:${connection.remotePort}`,
+      description: `${connection.bytesIn} bytes in, ${connection.bytesOut} bytes out`,
+      detail: `Connected at ${new Date(connection.startTime).toLocaleTimeString()}`,
+      connection,
+    }));
+    const item = await theia.window.showQuickPick(items, {
+      placeHolder: `Connections to the redirect of port ${portNumber}, select one to drop it`,
+    });
+    if (!item) {
+      return;
+    }
+
+    const drop: theia.MessageItem = { title: 'Drop' };
+    const result = await theia.window.showWarningMessage(
+      `Drop the connection from ${item.label}?`,
+      { modal: true },
+      drop
+    );
+    if (result === drop) {
+      portForwardServer.dropConnection(item.connection.id);
+    }
   }
 
-  async stop(): Promise<void> {}
+  registerForwardingRulesCommands(): void {
+    this.context.subscriptions.push(
+      theia.commands.registerCommand('portPlugin.addForwardingRule', async () => this.addForwardingRule())
+    );
+    this.context.subscriptions.push(
+      theia.commands.registerCommand('portPlugin.listForwardingRules', async () => this.listForwardingRules())
+    );
+    this.context.subscriptions.push(
+      theia.commands.registerCommand(
+        'portPlugin.editForwardingRule',
+        async (node?: { forwardingRule?: PortForwardingRule }) => {
+          const rule = (node && node.forwardingRule) || (await this.pickForwardingRule());
+          if (rule) {
+            await this.editForwardingRule(rule);
+          }
+        }
+      )
+    );
+    this.context.subscriptions.push(
+      theia.commands.registerCommand(
+        'portPlugin.removeForwardingRule',
+        async (node?: { forwardingRule?: PortForwardingRule }) => {
+          const rule = (node && node.forwardingRule) || (await this.pickForwardingRule());
+          if (rule) {
+            await this.forwardingRules.remove(rule.port);
+          }
+        }
+      )
+    );
+  }
+
+  async addForwardingRule(): Promise<void> {
+    const port = await this.askRulePort();
+    if (port === undefined) {
+      return;
+    }
+    const endpoint = await this.askRuleEndpoint(port);
+    if (endpoint) {
+      await this.forwardingRules.add({ port, endpoint });
+    }
+  }
+
+  async editForwardingRule(rule: PortForwardingRule): Promise<void> {
+    const port = await this.askRulePort(rule);
+    if (port === undefined) {
+      return;
+    }
+    const endpoint = await this.askRuleEndpoint(port, rule);
+    if (endpoint) {
+      await this.forwardingRules.update(rule.port, { port, endpoint });
+    }
+  }
+
+  async listForwardingRules(): Promise<void> {
+    const rule = await this.pickForwardingRule();
+    if (!rule) {
+      return;
+    }
+
+    const edit: theia.QuickPickItem = { label: 'Edit' };
+    const remove: theia.QuickPickItem = { label: 'Remove' };
+    const action = await theia.window.showQuickPick([edit, remove], {
+      placeHolder: `Forwarding rule of port ${rule.port}`,
+    });
+    if (action === edit) {
+      await this.editForwardingRule(rule);
+    } else if (action === remove) {
+      await this.forwardingRules.remove(rule.port);
+    }
+  }
+
+  async pickForwardingRule(): Promise<PortForwardingRule | undefined> {
+    const rules = this.forwardingRules.getRules();
+    if (rules.length === 0) {
+      theia.window.showInformationMessage('There is no port forwarding rule.');
+      return undefined;
+    }
+
+    const items = rules.map(rule => {
+      const status = this.getForwardingRuleStatus(rule);
+      return { label: `${rule.port} → ${rule.endpoint}`, description: status.state, detail: status.url, rule };
+    });
+    const item = await theia.window.showQuickPick(items, { placeHolder: 'Select a port forwarding rule' });
+    return item && item.rule;
+  }
+
+  // ask the local port of a rule
+  async askRulePort(rule?: PortForwardingRule): Promise<number | undefined> {
+    const otherRules = this.forwardingRules.getRules().filter(existing => !rule || existing.port !== rule.port);
+    const value = await theia.window.showInputBox({
+      prompt: 'Local port to forward',
+      value: rule ? `${rule.port}` : undefined,
+      validateInput: async (input: string) => {
+        const port = Number(input);
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+          return 'The port should be a number between 1 and 65535';
+        }
+        if (otherRules.some(existing => existing.port === port)) {
+          return `There is already a forwarding rule for port ${port}`;
+        }
+        return undefined;
+      },
+    });
+    return value ? Number(value) : undefined;
+  }
+
+  // ask the redirect endpoint of a rule
+  async askRuleEndpoint(port: number, rule?: PortForwardingRule): Promise<string | undefined> {
+    const prefix = this.portsPolicy.getRedirectEndpointPrefix();
+    const redirectEndpoints = this.devfileEndpoints.filter(endpoint => endpoint.name.startsWith(prefix));
+    if (redirectEndpoints.length === 0) {
+      theia.window.showErrorMessage(
+        `There is no endpoint with a name starting with ${prefix} in the workspace to forward the port to.`
+      );
+      return undefined;
+    }
+
+    const rules = this.forwardingRules.getRules();
+    const items = redirectEndpoints.map(endpoint => {
+      const otherRule = rules.find(existing => existing.endpoint === endpoint.name && existing.port !== port);
+      return {
+        label: endpoint.name,
+        description: endpoint.url,
+        detail: otherRule ? `Used by the forwarding rule of port ${otherRule.port}` : undefined,
+        picked: rule !== undefined && rule.endpoint === endpoint.name,
+      };
+    });
+    const item = await theia.window.showQuickPick(items, { placeHolder: `Redirect endpoint for port ${port}` });
+    return item && item.label;
+  }
+
+  async stop(): Promise<void> {
+    this.portChangesDetector.stop();
+    this.endpointHealthMonitor.stop();
+  }
 }
@@ -0,0 +1,115 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as theia from '@theia/plugin';
+
+/**
+ * How the user is notified about a new listening port:
+ *  - prompt: ask the user to open or redirect the port
+ *  - autoForward: redirect the port without asking
+ *  - quiet: only log into the output channel
+ */
+export type PortsNotificationMode = 'prompt' | 'autoForward' | 'quiet';
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse the port ranges like `8080` or `3000-3999`, invalid ranges are ignored.
+ */
+export function toPortRanges(ranges: string[] | undefined): PortRange[] {
+  if (!Array.isArray(ranges)) {
+    return [];
+  }
+
+  const portRanges: PortRange[] = [];
+  ranges.forEach(range => {
+    const matcher = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(`${range}`);
+    if (matcher) {
+      const start = parseInt(matcher[1]);
+      const end = matcher[2] ? parseInt(matcher[2]) : start;
+      if (start <= end) {
+        portRanges.push({ start, end });
+      }
+    }
+  });
+  return portRanges;
+}
+
+/**
+ * Policy applied to the new listening ports, read from the preferences every time it's used,
+ * so it can be changed at runtime.
+ */
+export class PortsPolicy {
+  public static readonly CONFIGURATION = 'che.ports';
+  public static readonly DEFAULT_REDIRECT_ENDPOINT_PREFIX = 'theia-redirect-';
+  public static readonly DEFAULT_EPHEMERAL_THRESHOLD = 32000;
+
+  getRedirectEndpointPrefix(): string {
+    const prefix = this.get<string>('redirectEndpointPrefix');
+    return typeof prefix === 'string' && prefix.length > 0 ? prefix : PortsPolicy.DEFAULT_REDIRECT_ENDPOINT_PREFIX;
+  }
+
+  // ports greater or equal to the threshold are ephemeral
+  getEphemeralThreshold(): number {
+    const threshold = this.get<number>('ephemeralThreshold');
+    return Number.isInteger(threshold) && threshold! > 0 ? threshold! : PortsPolicy.DEFAULT_EPHEMERAL_THRESHOLD;
+  }
+
+  getNotificationMode(): PortsNotificationMode {
+    const mode = this.get<string>('notification');
+    return mode === 'autoForward' || mode === 'quiet' ? mode : 'prompt';
+  }
+
+  // included ports are handled even if they are ephemeral
+  isIncluded(port: number): boolean {
+    return this.inRanges(port, toPortRanges(this.get<string[]>('includedPorts')));
+  }
+
+  isExcluded(port: number): boolean {
+    return this.inRanges(port, toPortRanges(this.get<string[]>('excludedPorts')));
+  }
+
+  isNeverAsk(port: number): boolean {
+    const ports = this.get<number[]>('neverAskPorts');
+    return Array.isArray(ports) && ports.includes(port);
+  }
+
+  /**
+   * Do not ask anything about the given port anymore in this workspace.
+   */
+  async neverAskAgain(port: number): Promise<void> {
+    const ports = this.get<number[]>('neverAskPorts');
+    const neverAskPorts = Array.isArray(ports) ? ports.filter(existing => existing !== port) : [];
+    neverAskPorts.push(port);
+    await theia.workspace
+      .getConfiguration(PortsPolicy.CONFIGURATION)
+      .update('neverAskPorts', neverAskPorts, theia.ConfigurationTarget.Workspace);
+  }
+
+  onDidChangeRedirectEndpointPrefix(listener: () => void): theia.Disposable {
+    return theia.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration(`${PortsPolicy.CONFIGURATION}.redirectEndpointPrefix`)) {
+        listener();
+      }
+    });
+  }
+
+  private inRanges(port: number, ranges: PortRange[]): boolean {
+    return ranges.some(range => port >= range.start && port <= range.end);
+  }
+
+  private get<T>(key: string): T | undefined {
+    const configuration = theia.workspace.getConfiguration(PortsPolicy.CONFIGURATION);
+    return configuration ? configuration.get<T>(key) : undefined;
+  }
+}
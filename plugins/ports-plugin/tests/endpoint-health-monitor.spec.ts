@@ -0,0 +1,179 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as http from 'http';
+import * as net from 'net';
+import * as theia from '@theia/plugin';
+
+import { EndpointHealth, EndpointHealthMonitor, EndpointHealthProber } from '../src/endpoint-health-monitor';
+
+import { Endpoint } from '../src/endpoint';
+import { EndpointExposure } from '../src/endpoint-exposure';
+
+function endpoint(targetPort: number, protocol: string, path?: string): Endpoint {
+  return { name: 'app', exposure: EndpointExposure.FROM_DEVFILE_PUBLIC, targetPort, protocol, path };
+}
+
+describe('Test endpoint health prober', () => {
+  let server: http.Server;
+  let port: number;
+  const prober = new EndpointHealthProber();
+
+  beforeEach(async () => {
+    server = http.createServer((request, response) => {
+      response.statusCode = request.url === '/health' ? 200 : 500;
+      response.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, 'localhost', () => resolve()));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('http endpoint', async () => {
+    const health = await prober.probe(endpoint(port, 'http', 'health'), '200-399');
+    expect(health.state).toBe('up');
+    expect(health.statusCode).toBe(200);
+    expect(health.latency).toBeGreaterThanOrEqual(0);
+
+    const unhealthy = await prober.probe(endpoint(port, 'http', '/'), '200-399');
+    expect(unhealthy.state).toBe('down');
+    expect(unhealthy.error).toBe('Unexpected status 500');
+
+    const expected = await prober.probe(endpoint(port, 'http'), '500');
+    expect(expected.state).toBe('up');
+  });
+
+  test('tcp endpoint', async () => {
+    const health = await prober.probe(endpoint(port, 'tcp'), '200-399');
+    expect(health.state).toBe('up');
+
+    await new Promise(resolve => server.close(resolve));
+    server.listen(0);
+    const closed = await prober.probe(endpoint(port, 'tcp'), '200-399');
+    expect(closed.state).toBe('down');
+    expect(closed.error).toBeDefined();
+  });
+});
+
+describe('Test endpoint health monitor', () => {
+  let enabled: boolean;
+  let states: string[];
+  const getConfigurationSpy = jest.spyOn(theia.workspace, 'getConfiguration');
+  const prober = {
+    probe: async (): Promise<EndpointHealth> => ({ state: states.shift() as any, time: Date.now() }),
+  };
+
+  let monitor: EndpointHealthMonitor;
+
+  beforeEach(() => {
+    enabled = true;
+    getConfigurationSpy.mockReturnValue({ get: (key: string) => (key === 'enabled' ? enabled : undefined) } as any);
+    monitor = new EndpointHealthMonitor(prober as any);
+  });
+
+  test('notify when an endpoint goes down', async () => {
+    const onDidGoDown = jest.fn();
+    monitor.onDidGoDown(onDidGoDown);
+    const endpoints = [endpoint(8080, 'http'), endpoint(5353, 'udp')];
+
+    states = ['down', 'up', 'down', 'down'];
+    await monitor.probeAll(endpoints);
+    await monitor.probeAll(endpoints);
+    expect(onDidGoDown).not.toBeCalled();
+    expect(monitor.getHealth().get('app:8080')!.state).toBe('up');
+    expect(monitor.getHealth().has('app:5353')).toBe(false);
+
+    await monitor.probeAll(endpoints);
+    await monitor.probeAll(endpoints);
+    expect(onDidGoDown).toBeCalledTimes(1);
+    expect(onDidGoDown.mock.calls[0][0].targetPort).toBe(8080);
+  });
+
+  test('no probe when disabled', async () => {
+    const onDidChangeHealth = jest.fn();
+    monitor.onDidChangeHealth(onDidChangeHealth);
+
+    states = ['up'];
+    await monitor.probeAll([endpoint(8080, 'http')]);
+    expect(monitor.getHealth().size).toBe(1);
+
+    enabled = false;
+    await monitor.probeAll([endpoint(8080, 'http')]);
+    await monitor.probeAll([endpoint(8080, 'http')]);
+    expect(monitor.getHealth().size).toBe(0);
+    expect(onDidChangeHealth).toBeCalledTimes(2);
+  });
+
+  describe('periodic probes', () => {
+    const probeAllSpy = jest.fn();
+
+    /** Runs the pending promise callbacks, so the monitor goes on to schedule the next probe. */
+    async function flushPromises(): Promise<void> {
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      probeAllSpy.mockReset();
+      probeAllSpy.mockResolvedValue(undefined);
+      monitor.probeAll = probeAllSpy;
+    });
+
+    afterEach(() => {
+      monitor.stop();
+      jest.useRealTimers();
+    });
+
+    test('probes once per interval when started twice', async () => {
+      monitor.start(() => []);
+      monitor.start(() => []);
+      await flushPromises();
+      expect(probeAllSpy).toBeCalledTimes(1);
+
+      jest.advanceTimersByTime(EndpointHealthMonitor.DEFAULT_INTERVAL * 1000);
+      await flushPromises();
+      expect(probeAllSpy).toBeCalledTimes(2);
+    });
+
+    test('does not probe anymore when stopped during a probe', async () => {
+      let endProbe: () => void = () => {};
+      probeAllSpy.mockReturnValue(new Promise<void>(resolve => (endProbe = resolve)));
+
+      monitor.start(() => []);
+      monitor.stop();
+      endProbe();
+      await flushPromises();
+
+      jest.advanceTimersByTime(EndpointHealthMonitor.DEFAULT_INTERVAL * 1000);
+      await flushPromises();
+      expect(probeAllSpy).toBeCalledTimes(1);
+    });
+
+    test('keeps probing when a probe fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      probeAllSpy.mockRejectedValueOnce(new Error('no endpoints'));
+
+      monitor.start(() => []);
+      await flushPromises();
+      expect(consoleErrorSpy).toBeCalledWith('Unable to probe the health of the endpoints', new Error('no endpoints'));
+
+      jest.advanceTimersByTime(EndpointHealthMonitor.DEFAULT_INTERVAL * 1000);
+      await flushPromises();
+      expect(probeAllSpy).toBeCalledTimes(2);
+    });
+  });
+});
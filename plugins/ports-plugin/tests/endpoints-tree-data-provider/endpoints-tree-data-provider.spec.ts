@@ -47,7 +47,7 @@ describe('Test EndpointTree data provider', () => {
     const output = fs.readFileSync(__dirname + '/workspace-output.json');
     (che as any).setWorkspaceOutput(output);
 
-    const listeningPort: ListeningPort[] = [{ portNumber: 3000, interfaceListen: '0.0.0.0' }];
+    const listeningPort: ListeningPort[] = [{ portNumber: 3000, interfaceListen: '0.0.0.0', protocol: 'tcp' }];
     const endpoints = await devfileHandler.getEndpoints();
     endpointsTreeDataProvider = new EndpointsTreeDataProvider();
     endpointsTreeDataProvider['showPluginEndpoints'] = true;
@@ -65,4 +65,26 @@ describe('Test EndpointTree data provider', () => {
     const secondElement = endpointsTreeDataProvider.getTreeItem(children![1]);
     expect(secondElement.label).toBe('Internal');
   });
+
+  test('test forwarding rules', async () => {
+    endpointsTreeDataProvider = new EndpointsTreeDataProvider();
+    endpointsTreeDataProvider.updateEndpoints(
+      [],
+      [],
+      [
+        { rule: { port: 3000, endpoint: 'theia-redirect-1' }, state: 'active', url: 'https://redirect-1.example.com' },
+        { rule: { port: 4000, endpoint: 'theia-redirect-5' }, state: 'unavailable' },
+      ]
+    );
+
+    const children = await endpointsTreeDataProvider.getChildren();
+    expect(children!.length).toBe(1);
+    expect(children![0].label).toBe('Forwarding Rules');
+
+    const rules = await endpointsTreeDataProvider.getChildren(children![0]);
+    expect(rules!.map(rule => rule.label)).toEqual(['3000 → theia-redirect-1', '4000 → theia-redirect-5']);
+    expect(rules![0].contextValue).toBe('forwardingRule');
+    expect(rules![0].tooltip).toBe('Port 3000 is forwarded to https://redirect-1.example.com');
+    expect(rules![1].forwardingRule).toEqual({ port: 4000, endpoint: 'theia-redirect-5' });
+  });
 });
@@ -10,9 +10,10 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import { PortChangesDetector, PortsChangeEvent } from '../../src/port-changes-detector';
+
 import { AbstractInternalScanner } from '../../src/port-scanner';
 import { Port } from '../../src/port';
-import { PortChangesDetector } from '../../src/port-changes-detector';
 
 class DummyInternalScanner extends AbstractInternalScanner {
   private path_: string;
@@ -34,9 +35,15 @@ describe('Test Port Changes', () => {
   let portChangesDetector: PortChangesDetector;
 
   beforeEach(() => {
+    jest.useFakeTimers();
     portChangesDetector = new PortChangesDetector(dummyInternalScanner);
   });
 
+  afterEach(() => {
+    portChangesDetector.stop();
+    jest.useRealTimers();
+  });
+
   test('test events triggered', async () => {
     dummyInternalScanner.path = __dirname + '/port-changes-detector-before.stdout';
 
@@ -69,3 +76,130 @@ describe('Test Port Changes', () => {
     expect(listeningPorts.length).toBe(2);
   });
 });
+
+/**
+ * Scanner returning the sockets set by the tests, in the format of /proc/net/{tcp,udp}
+ */
+class FakeInternalScanner extends AbstractInternalScanner {
+  public tcpSockets: string[] = [];
+  public udpSockets: string[] = [];
+  public scans = 0;
+
+  static socket(ip: string, port: number, state: string): string {
+    const localPort = port.toString(16).toUpperCase().padStart(4, '0');
+    return `   0: ${ip}:${localPort} 00000000:0000 ${state} 00000000:00000000 00:00000000 00000000     0        0 1000 1 0000000000000000 100 0 0 10 0`;
+  }
+
+  async getListeningPortV4(): Promise<string> {
+    this.scans++;
+    return this.tcpSockets.join('\n');
+  }
+  async getListeningPortV6(): Promise<string> {
+    return '';
+  }
+  async getListeningUdpPortV4(): Promise<string> {
+    return this.udpSockets.join('\n');
+  }
+}
+
+describe('Test Port Changes with a fake scanner', () => {
+  const LOCALHOST = '0100007F';
+  const ANY = '00000000';
+
+  let scanner: FakeInternalScanner;
+  let portChangesDetector: PortChangesDetector;
+  let events: PortsChangeEvent[];
+  let setTimeoutSpy: jest.SpyInstance;
+
+  function lastWait(): number {
+    return setTimeoutSpy.mock.calls[setTimeoutSpy.mock.calls.length - 1][1];
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    scanner = new FakeInternalScanner();
+    scanner.tcpSockets = [FakeInternalScanner.socket(LOCALHOST, 8080, '0A')];
+    portChangesDetector = new PortChangesDetector(scanner);
+    events = [];
+    portChangesDetector.onDidChangePorts(event => events.push(event));
+    await portChangesDetector.init();
+  });
+
+  afterEach(() => {
+    portChangesDetector.stop();
+    setTimeoutSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  test('port rebound on another interface', async () => {
+    scanner.tcpSockets = [FakeInternalScanner.socket(ANY, 8080, '0A')];
+
+    await portChangesDetector.monitor();
+
+    expect(events.length).toBe(1);
+    expect(events[0].closed).toEqual([{ portNumber: 8080, interfaceListen: '127.0.0.1', protocol: 'tcp' }]);
+    expect(events[0].opened).toEqual([{ portNumber: 8080, interfaceListen: '0.0.0.0', protocol: 'tcp' }]);
+  });
+
+  test('same port with another protocol', async () => {
+    scanner.udpSockets = [FakeInternalScanner.socket(LOCALHOST, 8080, '07')];
+
+    await portChangesDetector.monitor();
+
+    expect(events.length).toBe(1);
+    expect(events[0].closed).toEqual([]);
+    expect(events[0].opened).toEqual([{ portNumber: 8080, interfaceListen: '127.0.0.1', protocol: 'udp' }]);
+    expect(portChangesDetector.getOpenedPorts().length).toBe(2);
+  });
+
+  test('no event without changes', async () => {
+    const changed = await portChangesDetector.monitor();
+
+    expect(changed).toBe(false);
+    expect(events.length).toBe(0);
+  });
+
+  test('back-off while idle', async () => {
+    await portChangesDetector.check();
+    expect(lastWait()).toBe(PortChangesDetector.MIN_WAIT * 2);
+    await portChangesDetector.check();
+    expect(lastWait()).toBe(PortChangesDetector.MIN_WAIT * 4);
+
+    for (let i = 0; i < 10; i++) {
+      await portChangesDetector.check();
+    }
+    expect(lastWait()).toBe(PortChangesDetector.MAX_WAIT);
+
+    // a change makes the scans frequent again
+    scanner.tcpSockets = [];
+    await portChangesDetector.check();
+    expect(lastWait()).toBe(PortChangesDetector.MIN_WAIT);
+    expect(events.length).toBe(1);
+  });
+
+  test('refresh scans immediately and resets the back-off', async () => {
+    for (let i = 0; i < 5; i++) {
+      await portChangesDetector.check();
+    }
+    const scans = scanner.scans;
+
+    portChangesDetector.refresh();
+    // wait for the scan started by the refresh
+    await portChangesDetector.check();
+
+    expect(scanner.scans).toBe(scans + 1);
+    expect(lastWait()).toBe(PortChangesDetector.MIN_WAIT * 2);
+  });
+
+  test('no scan after stop', async () => {
+    await portChangesDetector.check();
+    portChangesDetector.stop();
+    const scans = scanner.scans;
+
+    jest.advanceTimersByTime(PortChangesDetector.MAX_WAIT);
+    portChangesDetector.refresh();
+
+    expect(scanner.scans).toBe(scans);
+  });
+});
@@ -0,0 +1,101 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as net from 'net';
+
+import { PortForwardServer } from '../src/port-forward-server';
+
+describe('Test port forward server', () => {
+  let echoServer: net.Server;
+  let echoPort: number;
+  let forwardPort: number;
+  let portForwardServer: PortForwardServer;
+
+  function listen(server: net.Server): Promise<number> {
+    return new Promise(resolve =>
+      server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port))
+    );
+  }
+
+  async function freePort(): Promise<number> {
+    const server = net.createServer();
+    const port = await listen(server);
+    await new Promise(resolve => server.close(resolve));
+    return port;
+  }
+
+  function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const start = Date.now();
+      const interval = setInterval(() => {
+        if (condition()) {
+          clearInterval(interval);
+          resolve();
+        } else if (Date.now() - start > timeout) {
+          clearInterval(interval);
+          reject(new Error(`Condition not met within ${timeout}ms`));
+        }
+      }, 10);
+    });
+  }
+
+  beforeEach(async () => {
+    echoServer = net.createServer(socket => socket.pipe(socket));
+    echoPort = await listen(echoServer);
+    forwardPort = await freePort();
+    portForwardServer = new PortForwardServer(forwardPort, '127.0.0.1', echoPort);
+    await portForwardServer.start();
+  });
+
+  afterEach(async () => {
+    portForwardServer.stop();
+    await new Promise(resolve => echoServer.close(resolve));
+  });
+
+  test('traffic statistics and connections', async () => {
+    const onDidChangeConnections = jest.fn();
+    portForwardServer.onDidChangeConnections(onDidChangeConnections);
+
+    const client = net.connect(forwardPort, '127.0.0.1');
+    let received = '';
+    client.on('data', data => (received += data.toString()));
+    client.on('error', () => {});
+    client.write('hello');
+    await waitFor(() => received === 'hello');
+
+    const statistics = portForwardServer.getStatistics();
+    expect(statistics.activeConnections).toBe(1);
+    expect(statistics.totalConnections).toBe(1);
+    expect(statistics.bytesIn).toBe(5);
+    expect(statistics.bytesOut).toBe(5);
+    expect(statistics.lastActivity).toBeDefined();
+    expect(onDidChangeConnections).toBeCalledTimes(1);
+
+    const connections = portForwardServer.getConnections();
+    expect(connections.length).toBe(1);
+    expect(connections[0].remoteAddress).toContain('127.0.0.1');
+    expect(connections[0].bytesIn).toBe(5);
+
+    // drop the connection of the client
+    const closed = new Promise(resolve => client.on('close', resolve));
+    portForwardServer.dropConnection(connections[0].id);
+    await closed;
+
+    expect(portForwardServer.getConnections()).toEqual([]);
+    expect(portForwardServer.getStatistics().activeConnections).toBe(0);
+    expect(portForwardServer.getStatistics().totalConnections).toBe(1);
+  });
+
+  test('fails to start when the port is already used', async () => {
+    const server = new PortForwardServer(echoPort, '127.0.0.1', forwardPort);
+
+    await expect(server.start()).rejects.toThrow('EADDRINUSE');
+  });
+});
@@ -0,0 +1,77 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as theia from '@theia/plugin';
+
+import { PortForwardingRule, PortForwardingRules } from '../src/port-forwarding-rules';
+
+describe('Test port forwarding rules', () => {
+  let rules: any;
+  const updateMock = jest.fn();
+  const getConfigurationSpy = jest.spyOn(theia.workspace, 'getConfiguration');
+
+  let portForwardingRules: PortForwardingRules;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rules = [
+      { port: 8080, endpoint: 'theia-redirect-1' },
+      { port: 3000, endpoint: 'theia-redirect-2' },
+    ];
+    updateMock.mockImplementation(async (key: string, value: PortForwardingRule[]) => {
+      rules = value;
+    });
+    getConfigurationSpy.mockReturnValue({ get: () => rules, update: updateMock } as any);
+    portForwardingRules = new PortForwardingRules();
+  });
+
+  test('read rules', () => {
+    rules.push({ port: 'invalid', endpoint: 'theia-redirect-3' }, { port: 4000 }, undefined);
+
+    expect(portForwardingRules.getRules()).toEqual([
+      { port: 8080, endpoint: 'theia-redirect-1' },
+      { port: 3000, endpoint: 'theia-redirect-2' },
+    ]);
+    expect(portForwardingRules.getRule(3000)).toEqual({ port: 3000, endpoint: 'theia-redirect-2' });
+    expect(getConfigurationSpy).toBeCalledWith('che.ports');
+  });
+
+  test('no rules', () => {
+    rules = undefined;
+
+    expect(portForwardingRules.getRules()).toEqual([]);
+  });
+
+  test('add rule', async () => {
+    await portForwardingRules.add({ port: 5000, endpoint: 'theia-redirect-3' });
+    await portForwardingRules.add({ port: 8080, endpoint: 'theia-redirect-4' });
+
+    expect(rules).toEqual([
+      { port: 3000, endpoint: 'theia-redirect-2' },
+      { port: 5000, endpoint: 'theia-redirect-3' },
+      { port: 8080, endpoint: 'theia-redirect-4' },
+    ]);
+    expect(updateMock.mock.calls[0][0]).toBe('forwardingRules');
+    expect(updateMock.mock.calls[0][2]).toBe(theia.ConfigurationTarget.Workspace);
+  });
+
+  test('update and remove rule', async () => {
+    await portForwardingRules.update(8080, { port: 9090, endpoint: 'theia-redirect-1' });
+    expect(rules).toEqual([
+      { port: 3000, endpoint: 'theia-redirect-2' },
+      { port: 9090, endpoint: 'theia-redirect-1' },
+    ]);
+
+    await portForwardingRules.remove(3000);
+    expect(rules).toEqual([{ port: 9090, endpoint: 'theia-redirect-1' }]);
+  });
+});
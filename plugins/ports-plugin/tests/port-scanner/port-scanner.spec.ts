@@ -8,7 +8,7 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
-import { AbstractInternalScanner, PortScanner } from '../../src/port-scanner';
+import { AbstractInternalScanner, PortScanner, SocketOwner } from '../../src/port-scanner';
 
 class DummyInternalScanner extends AbstractInternalScanner {
   async getListeningPortV4(): Promise<string> {
@@ -44,6 +44,61 @@ describe('Test Port Scanner with dummy data', () => {
   });
 });
 
+class DummyInternalScannerWithUdp extends DummyInternalScanner {
+  public requestedInodes: number[][] = [];
+
+  async getListeningUdpPortV4(): Promise<string> {
+    return super.readFilePromise(__dirname + '/port-scanner-listen-udp-ipv4.stdout');
+  }
+  async getListeningUdpPortV6(): Promise<string> {
+    return super.readFilePromise(__dirname + '/port-scanner-listen-udp-ipv6.stdout');
+  }
+  async getSocketOwners(inodes: number[]): Promise<Map<number, SocketOwner>> {
+    this.requestedInodes.push(inodes);
+    const owners = new Map<number, SocketOwner>();
+    owners.set(21708, { pid: 123, commandLine: '/usr/bin/java -jar app.jar' });
+    owners.set(31002, { pid: 456, commandLine: 'node server.js' });
+    return owners;
+  }
+}
+
+describe('Test Port Scanner with UDP ports and owning processes', () => {
+  let scanner: DummyInternalScannerWithUdp;
+  let portScanner: PortScanner;
+
+  beforeEach(() => {
+    scanner = new DummyInternalScannerWithUdp();
+    portScanner = new PortScanner(scanner);
+  });
+
+  test('test UDP ports', async () => {
+    const ports = await portScanner.getListeningPorts();
+    expect(ports.length).toBe(8);
+    expect(ports.filter(port => port.protocol === 'tcp').length).toBe(5);
+
+    const udpPorts = ports.filter(port => port.protocol === 'udp');
+    expect(udpPorts.map(port => port.portNumber)).toEqual([68, 5353, 8080]);
+    expect(udpPorts[1].interfaceListen).toBe('127.0.0.1');
+    expect(udpPorts[2].interfaceListen).toBe('::');
+  });
+
+  test('test owning processes', async () => {
+    const ports = await portScanner.getListeningPorts();
+
+    const tcpPort = ports.find(port => port.protocol === 'tcp' && port.portNumber === 5555)!;
+    expect(tcpPort.pid).toBe(123);
+    expect(tcpPort.commandLine).toBe('/usr/bin/java -jar app.jar');
+    const udpPort = ports.find(port => port.protocol === 'udp' && port.portNumber === 8080)!;
+    expect(udpPort.pid).toBe(456);
+    expect(ports.find(port => port.portNumber === 25)!.pid).toBeUndefined();
+
+    // the owners of the known sockets are not looked up again
+    await portScanner.getListeningPorts();
+    expect(scanner.requestedInodes.length).toBe(1);
+    expect(scanner.requestedInodes[0]).toContain(21708);
+  });
+});
+
 describe('Test Port Scanner with real path', () => {
   let portScanner: PortScanner;
 
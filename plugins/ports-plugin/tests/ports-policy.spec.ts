@@ -0,0 +1,85 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as theia from '@theia/plugin';
+
+import { PortsPolicy, toPortRanges } from '../src/ports-policy';
+
+describe('Test ports policy', () => {
+  let preferences: { [key: string]: any };
+  const updateMock = jest.fn();
+  const getConfigurationSpy = jest.spyOn(theia.workspace, 'getConfiguration');
+
+  let portsPolicy: PortsPolicy;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    preferences = {};
+    updateMock.mockImplementation(async (key: string, value: any) => {
+      preferences[key] = value;
+    });
+    getConfigurationSpy.mockReturnValue({ get: (key: string) => preferences[key], update: updateMock } as any);
+    portsPolicy = new PortsPolicy();
+  });
+
+  test('port ranges', () => {
+    expect(toPortRanges(['8080', ' 3000 - 3999 ', '5000-4000', 'abc', '1-2-3'])).toEqual([
+      { start: 8080, end: 8080 },
+      { start: 3000, end: 3999 },
+    ]);
+    expect(toPortRanges(undefined)).toEqual([]);
+  });
+
+  test('default policy', () => {
+    expect(portsPolicy.getRedirectEndpointPrefix()).toBe('theia-redirect-');
+    expect(portsPolicy.getEphemeralThreshold()).toBe(32000);
+    expect(portsPolicy.getNotificationMode()).toBe('prompt');
+    expect(portsPolicy.isExcluded(8080)).toBe(false);
+    expect(portsPolicy.isIncluded(8080)).toBe(false);
+    expect(portsPolicy.isNeverAsk(8080)).toBe(false);
+  });
+
+  test('policy from the preferences', () => {
+    preferences = {
+      redirectEndpointPrefix: 'redirect-',
+      ephemeralThreshold: 40000,
+      notification: 'quiet',
+      excludedPorts: ['9000-9100'],
+      includedPorts: ['45000'],
+    };
+
+    expect(portsPolicy.getRedirectEndpointPrefix()).toBe('redirect-');
+    expect(portsPolicy.getEphemeralThreshold()).toBe(40000);
+    expect(portsPolicy.getNotificationMode()).toBe('quiet');
+    expect(portsPolicy.isExcluded(9050)).toBe(true);
+    expect(portsPolicy.isExcluded(9101)).toBe(false);
+    expect(portsPolicy.isIncluded(45000)).toBe(true);
+  });
+
+  test('invalid preferences', () => {
+    preferences = { redirectEndpointPrefix: '', ephemeralThreshold: -1, notification: 'loud' };
+
+    expect(portsPolicy.getRedirectEndpointPrefix()).toBe('theia-redirect-');
+    expect(portsPolicy.getEphemeralThreshold()).toBe(32000);
+    expect(portsPolicy.getNotificationMode()).toBe('prompt');
+  });
+
+  test('never ask again', async () => {
+    await portsPolicy.neverAskAgain(8080);
+    await portsPolicy.neverAskAgain(3000);
+    await portsPolicy.neverAskAgain(8080);
+
+    expect(preferences.neverAskPorts).toEqual([3000, 8080]);
+    expect(portsPolicy.isNeverAsk(3000)).toBe(true);
+    expect(updateMock).toBeCalledWith('neverAskPorts', [3000, 8080], theia.ConfigurationTarget.Workspace);
+  });
+});
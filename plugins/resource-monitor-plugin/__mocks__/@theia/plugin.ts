@@ -28,4 +28,23 @@ theia.plugins = {};
 theia.window.createStatusBarItem = jest.fn();
 theia.window.showQuickPick = jest.fn();
 theia.window.showWarningMessage = jest.fn();
+theia.window.showErrorMessage = jest.fn();
+theia.window.showSaveDialog = jest.fn();
+theia.window.createWebviewPanel = jest.fn();
+theia.window.createOutputChannel = jest.fn();
+theia.window.showInformationMessage = jest.fn();
+theia.window.showTextDocument = jest.fn();
+theia.ViewColumn = { One: 1 };
+theia.workspace = {};
+theia.workspace.getConfiguration = jest.fn();
+theia.workspace.findFiles = jest.fn();
+theia.workspace.openTextDocument = jest.fn();
+theia.Range = class {
+  constructor(
+    public startLine: number,
+    public startCharacter: number,
+    public endLine: number,
+    public endCharacter: number
+  ) {}
+};
 module.exports = theia;
@@ -0,0 +1,157 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as path from 'path';
+
+import { ContainerUsage, MetricsProvider } from './metrics-provider';
+
+import { promises as fs } from 'fs';
+import { injectable } from 'inversify';
+
+// limits greater than this value mean there is no limit in cgroup v1
+const UNLIMITED_MEMORY = Math.pow(2, 60);
+
+interface CpuSample {
+  // microseconds of CPU used since the start of the container
+  usage: number;
+  time: number;
+}
+
+/**
+ * Read the metrics of the local container from the cgroup statistics, when Metrics Server is not available.
+ * Both cgroup v2 (`memory.current`, `cpu.stat`) and cgroup v1 (`memory.usage_in_bytes`, `cpuacct.usage`) are supported.
+ * The memory is the working set, like Metrics Server, so the inactive page cache is not counted.
+ */
+@injectable()
+export class CgroupMetricsProvider implements MetricsProvider {
+  readonly name = 'cgroup';
+
+  protected root = '/sys/fs/cgroup';
+  private version: 1 | 2;
+  private previousCpu: CpuSample | undefined;
+
+  async init(): Promise<void> {
+    if (!this.getContainerName()) {
+      throw new Error('Cannot read cgroup statistics: the name of the container is unknown.');
+    }
+    if (await this.exists('cgroup.controllers')) {
+      this.version = 2;
+    } else if (await this.exists('memory/memory.usage_in_bytes')) {
+      this.version = 1;
+    } else {
+      throw new Error(`Cannot read cgroup statistics from ${this.root}.`);
+    }
+  }
+
+  async getMetrics(): Promise<ContainerUsage[] | undefined> {
+    const [memoryUsed, memoryLimit, cpuUsage, cpuLimit] =
+      this.version === 2
+        ? await Promise.all([this.getMemoryV2(), this.getMemoryLimitV2(), this.getCpuUsageV2(), this.getCpuLimitV2()])
+        : await Promise.all([this.getMemoryV1(), this.getMemoryLimitV1(), this.getCpuUsageV1(), this.getCpuLimitV1()]);
+
+    // the CPU is computed between two reads
+    const cpu: CpuSample = { usage: cpuUsage, time: this.now() };
+    const previous = this.previousCpu;
+    this.previousCpu = cpu;
+    const cpuUsed =
+      previous && cpu.time > previous.time
+        ? Math.round(((cpu.usage - previous.usage) / ((cpu.time - previous.time) * 1000)) * 1000)
+        : 0;
+
+    return [{ name: this.getContainerName()!, cpuUsed, memoryUsed, cpuLimit, memoryLimit }];
+  }
+
+  protected getContainerName(): string | undefined {
+    return process.env.DEVWORKSPACE_COMPONENT_NAME || process.env.CHE_MACHINE_NAME;
+  }
+
+  // milliseconds
+  protected now(): number {
+    return Date.now();
+  }
+
+  private async getMemoryV2(): Promise<number> {
+    const current = await this.readNumber('memory.current');
+    const inactiveFile = (await this.readStat('memory.stat')).get('inactive_file') || 0;
+    return Math.max(current - inactiveFile, 0);
+  }
+
+  private async getMemoryLimitV2(): Promise<number | undefined> {
+    const max = await this.read('memory.max');
+    return max === 'max' ? undefined : parseInt(max);
+  }
+
+  private async getCpuUsageV2(): Promise<number> {
+    return (await this.readStat('cpu.stat')).get('usage_usec') || 0;
+  }
+
+  // `cpu.max` contains the quota and the period, or `max` when there is no quota
+  private async getCpuLimitV2(): Promise<number | undefined> {
+    if (!(await this.exists('cpu.max'))) {
+      return undefined;
+    }
+    const [quota, period] = (await this.read('cpu.max')).split(/\s+/);
+    return quota === 'max' ? undefined : Math.round((parseInt(quota) / parseInt(period)) * 1000);
+  }
+
+  private async getMemoryV1(): Promise<number> {
+    const usage = await this.readNumber('memory/memory.usage_in_bytes');
+    const inactiveFile = (await this.readStat('memory/memory.stat')).get('total_inactive_file') || 0;
+    return Math.max(usage - inactiveFile, 0);
+  }
+
+  private async getMemoryLimitV1(): Promise<number | undefined> {
+    const limit = await this.readNumber('memory/memory.limit_in_bytes');
+    return limit >= UNLIMITED_MEMORY ? undefined : limit;
+  }
+
+  // `cpuacct.usage` is in nanoseconds
+  private async getCpuUsageV1(): Promise<number> {
+    return (await this.readNumber('cpuacct/cpuacct.usage')) / 1000;
+  }
+
+  private async getCpuLimitV1(): Promise<number | undefined> {
+    if (!(await this.exists('cpu/cpu.cfs_quota_us'))) {
+      return undefined;
+    }
+    const quota = await this.readNumber('cpu/cpu.cfs_quota_us');
+    const period = await this.readNumber('cpu/cpu.cfs_period_us');
+    return quota > 0 && period > 0 ? Math.round((quota / period) * 1000) : undefined;
+  }
+
+  private async read(file: string): Promise<string> {
+    return (await fs.readFile(path.join(this.root, file), 'utf8')).trim();
+  }
+
+  private async readNumber(file: string): Promise<number> {
+    return parseInt(await this.read(file));
+  }
+
+  // files with a key and a value on each line
+  private async readStat(file: string): Promise<Map<string, number>> {
+    const stat = new Map<string, number>();
+    if (await this.exists(file)) {
+      (await this.read(file)).split('\n').forEach(line => {
+        const [key, value] = line.trim().split(/\s+/);
+        stat.set(key, parseInt(value));
+      });
+    }
+    return stat;
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.root, file));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+}
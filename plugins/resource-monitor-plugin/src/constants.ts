@@ -18,6 +18,22 @@ export const SHOW_WARNING_MESSAGE_COMMAND: theia.CommandDescription = {
   id: 'resources-monitor-show-warning-message',
 };
 
+export const SHOW_RESOURCES_HISTORY_COMMAND: theia.CommandDescription = {
+  id: 'resources-monitor-show-history',
+  label: 'Resource Monitor: Show History',
+};
+
+export const EXPORT_RESOURCES_HISTORY_COMMAND: theia.CommandDescription = {
+  id: 'resources-monitor-export-history',
+  label: 'Resource Monitor: Export History',
+};
+
+// interval between two requests of the metrics, in milliseconds
+export const METRICS_INTERVAL = 5000;
+
+// interval between two requests of the status of the workspace pod, in milliseconds
+export const POD_STATUS_INTERVAL = 30000;
+
 export enum Units {
   None = 1,
   K = 1000,
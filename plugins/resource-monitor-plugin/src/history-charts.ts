@@ -0,0 +1,102 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import { ContainerHistory, MetricsSample } from './metrics-history';
+
+import { Units } from './constants';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 80;
+const CPU_COLOR = '#3794ff';
+const MEMORY_COLOR = '#89d185';
+const LIMIT_COLOR = '#f48771';
+
+export interface ChartOptions {
+  // time of the end of the chart
+  end: number;
+  minutes: number;
+  color: string;
+  limit?: number;
+}
+
+/**
+ * Render the values of the samples as a SVG line, the time of the samples is used for the x axis.
+ */
+export function renderChart(
+  samples: MetricsSample[],
+  value: (sample: MetricsSample) => number,
+  options: ChartOptions
+): string {
+  const start = options.end - options.minutes * 60 * 1000;
+  const max = Math.max(options.limit || 0, ...samples.map(value), 1);
+  const x = (time: number) => (((time - start) / (options.end - start)) * CHART_WIDTH).toFixed(1);
+  const y = (v: number) => (CHART_HEIGHT - (v / max) * CHART_HEIGHT).toFixed(1);
+
+  const points = samples
+    .filter(sample => sample.time >= start)
+    .map(sample => `${x(sample.time)},${y(value(sample))}`)
+    .join(' ');
+  const limit = options.limit
+    ? `<line x1="0" y1="${y(options.limit)}" x2="${CHART_WIDTH}" y2="${y(
+        options.limit
+      )}" stroke="${LIMIT_COLOR}" stroke-dasharray="4"/>`
+    : '';
+  const line = `<polyline points="${points}" fill="none" stroke="${options.color}" stroke-width="1.5"/>`;
+  return `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">${limit}${line}</svg>`;
+}
+
+/**
+ * Render the CPU and memory charts of every container.
+ */
+export function renderHistory(histories: ContainerHistory[], minutes: number, end = Date.now()): string {
+  if (histories.length === 0) {
+    return '<p>Waiting metrics...</p>';
+  }
+
+  return histories
+    .map(history => {
+      const cpu = history.samples.map(sample => sample.cpuUsed);
+      const memory = history.samples.map(sample => sample.memoryUsed);
+      const cpuLimit = history.cpuLimit ? `${history.cpuLimit} m` : 'not set';
+      const memoryLimit = history.memoryLimit ? toMB(history.memoryLimit) : 'not set';
+      const cpuChart = renderChart(history.samples, sample => sample.cpuUsed, {
+        end,
+        minutes,
+        color: CPU_COLOR,
+        limit: history.cpuLimit,
+      });
+      const memoryChart = renderChart(history.samples, sample => sample.memoryUsed, {
+        end,
+        minutes,
+        color: MEMORY_COLOR,
+        limit: history.memoryLimit,
+      });
+      return `<section>
+  <h3>${escapeHtml(history.name)}</h3>
+  <div>CPU: ${last(cpu)} m (max ${Math.max(0, ...cpu)} m, limit ${cpuLimit})</div>
+  ${cpuChart}
+  <div>Memory: ${toMB(last(memory))} (max ${toMB(Math.max(0, ...memory))}, limit ${memoryLimit})</div>
+  ${memoryChart}
+</section>`;
+    })
+    .join('\n');
+}
+
+function last(values: number[]): number {
+  return values.length > 0 ? values[values.length - 1] : 0;
+}
+
+function toMB(bytes: number): string {
+  return `${Math.floor(bytes / Units.M)} MB`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -9,8 +9,15 @@
  ***********************************************************************/
 import 'reflect-metadata';
 
+import { CgroupMetricsProvider } from './cgroup-metrics-provider';
 import { Container } from 'inversify';
 import { K8sHelper } from './k8s-helper';
+import { MetricsHistory } from './metrics-history';
+import { MetricsProvider } from './metrics-provider';
+import { MetricsServerProvider } from './metrics-server-provider';
+import { OomMonitor } from './oom-monitor';
+import { ResourceAlerts } from './resource-alerts';
+import { ResourceHistoryPanel } from './resource-history-panel';
 import { ResourceMonitor } from './resource-monitor';
 
 export class InversifyBinding {
@@ -22,6 +29,13 @@ export class InversifyBinding {
     this.container = new Container();
 
     this.container.bind(K8sHelper).toSelf().inSingletonScope();
+    // the providers are tried in the order of the bindings
+    this.container.bind<MetricsProvider>(MetricsProvider).to(MetricsServerProvider).inSingletonScope();
+    this.container.bind<MetricsProvider>(MetricsProvider).to(CgroupMetricsProvider).inSingletonScope();
+    this.container.bind(MetricsHistory).toSelf().inSingletonScope();
+    this.container.bind(ResourceHistoryPanel).toSelf().inSingletonScope();
+    this.container.bind(ResourceAlerts).toSelf().inSingletonScope();
+    this.container.bind(OomMonitor).toSelf().inSingletonScope();
     this.container.bind(ResourceMonitor).toSelf().inSingletonScope();
 
     return this.container;
@@ -0,0 +1,107 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as theia from '@theia/plugin';
+
+import { Container } from './objects';
+import { METRICS_INTERVAL } from './constants';
+import { RingBuffer } from './ring-buffer';
+import { injectable } from 'inversify';
+
+export interface MetricsSample {
+  time: number;
+  // milli CPU
+  cpuUsed: number;
+  // bytes
+  memoryUsed: number;
+}
+
+export interface ContainerHistory {
+  name: string;
+  cpuLimit?: number;
+  memoryLimit?: number;
+  samples: MetricsSample[];
+}
+
+const CONFIGURATION = 'che.resourceMonitor';
+const HISTORY_MINUTES = 'history.minutes';
+const DEFAULT_HISTORY_MINUTES = 30;
+
+/**
+ * Keeps the metrics of the containers for the last minutes.
+ */
+@injectable()
+export class MetricsHistory {
+  private samples = new Map<string, RingBuffer<MetricsSample>>();
+  private containers = new Map<string, Container>();
+  private onDidChangeCallbacks: (() => void)[] = [];
+
+  onDidChange(callback: () => void): void {
+    this.onDidChangeCallbacks.push(callback);
+  }
+
+  /**
+   * Add the current usage of the containers.
+   */
+  add(containers: Container[], time = Date.now()): void {
+    const capacity = this.getCapacity();
+    containers.forEach(container => {
+      let samples = this.samples.get(container.name);
+      if (!samples) {
+        samples = new RingBuffer<MetricsSample>(capacity);
+        this.samples.set(container.name, samples);
+      } else if (samples.getCapacity() !== capacity) {
+        samples.resize(capacity);
+      }
+      samples.push({ time, cpuUsed: container.cpuUsed || 0, memoryUsed: container.memoryUsed || 0 });
+      this.containers.set(container.name, container);
+    });
+    this.onDidChangeCallbacks.forEach(callback => callback());
+  }
+
+  getAll(): ContainerHistory[] {
+    return Array.from(this.samples.entries()).map(([name, samples]) => {
+      const container = this.containers.get(name);
+      return {
+        name,
+        cpuLimit: container && container.cpuLimit,
+        memoryLimit: container && container.memoryLimit,
+        samples: samples.toArray(),
+      };
+    });
+  }
+
+  getMinutes(): number {
+    const configuration = theia.workspace.getConfiguration(CONFIGURATION);
+    const minutes = configuration && configuration.get<number>(HISTORY_MINUTES);
+    return typeof minutes === 'number' && minutes > 0 ? minutes : DEFAULT_HISTORY_MINUTES;
+  }
+
+  toCSV(): string {
+    const lines = ['time,container,cpuUsed,cpuLimit,memoryUsed,memoryLimit'];
+    this.getAll().forEach(history => {
+      history.samples.forEach(sample => {
+        const time = new Date(sample.time).toISOString();
+        const cpuLimit = history.cpuLimit || '';
+        const memoryLimit = history.memoryLimit || '';
+        lines.push(`${time},${history.name},${sample.cpuUsed},${cpuLimit},${sample.memoryUsed},${memoryLimit}`);
+      });
+    });
+    return lines.join('\n') + '\n';
+  }
+
+  toJSON(): string {
+    return JSON.stringify(this.getAll(), undefined, 2);
+  }
+
+  private getCapacity(): number {
+    return Math.ceil((this.getMinutes() * 60 * 1000) / METRICS_INTERVAL);
+  }
+}
@@ -0,0 +1,45 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+export const MetricsProvider = Symbol('MetricsProvider');
+
+/**
+ * Usage of a container, the limits are set only when the provider knows them.
+ */
+export interface ContainerUsage {
+  name: string;
+  // milli CPU
+  cpuUsed: number;
+  // bytes
+  memoryUsed: number;
+  cpuLimit?: number;
+  memoryLimit?: number;
+}
+
+/**
+ * Source of the metrics of the workspace containers.
+ * The first provider which can be initialized is used by the resource monitor.
+ */
+export interface MetricsProvider {
+  readonly name: string;
+
+  /**
+   * Check the metrics can be read.
+   * @throws an error explaining why the metrics are not available
+   */
+  init(namespace: string): Promise<void>;
+
+  /**
+   * Read the current usage of the containers.
+   * @returns `undefined` when the metrics are not ready yet
+   * @throws an error when the metrics cannot be read
+   */
+  getMetrics(): Promise<ContainerUsage[] | undefined>;
+}
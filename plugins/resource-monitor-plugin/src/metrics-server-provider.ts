@@ -0,0 +1,59 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as che from '@eclipse-che/plugin';
+
+import { ContainerUsage, MetricsProvider } from './metrics-provider';
+import { convertToBytes, convertToMilliCPU } from './units-converter';
+
+import { Metrics } from './objects';
+import { injectable } from 'inversify';
+
+/**
+ * Read the metrics of the workspace pod from the Metrics Server of the cluster.
+ */
+@injectable()
+export class MetricsServerProvider implements MetricsProvider {
+  readonly name = 'Metrics Server';
+
+  private METRICS_SERVER_ENDPOINT = '/apis/metrics.k8s.io/v1beta1/';
+  private METRICS_REQUEST_URL = `${this.METRICS_SERVER_ENDPOINT}namespaces/`;
+
+  private namespace: string;
+
+  async init(namespace: string): Promise<void> {
+    this.namespace = namespace;
+    const result = await che.k8s.sendRawQuery(this.METRICS_SERVER_ENDPOINT, { url: this.METRICS_SERVER_ENDPOINT });
+    if (result.statusCode !== 200) {
+      throw new Error(`Cannot connect to Metrics Server. Status code: ${result.statusCode}. Error: ${result.data}`);
+    }
+  }
+
+  async getMetrics(): Promise<ContainerUsage[] | undefined> {
+    const requestURL = `${this.METRICS_REQUEST_URL}${this.namespace}/pods/${process.env.HOSTNAME}`;
+    const opts = { url: this.METRICS_SERVER_ENDPOINT };
+    const response = await che.k8s.sendRawQuery(requestURL, opts);
+
+    if (response.statusCode !== 200) {
+      // wait when workspace pod's metrics will be available
+      if (response.statusCode === 404) {
+        return undefined;
+      }
+      throw new Error(`Cannot read metrics: ${response.data}`);
+    }
+
+    const metrics: Metrics = JSON.parse(response.data);
+    return metrics.containers.map(element => ({
+      name: element.name,
+      cpuUsed: convertToMilliCPU(element.usage.cpu),
+      memoryUsed: convertToBytes(element.usage.memory),
+    }));
+  }
+}
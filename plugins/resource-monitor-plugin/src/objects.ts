@@ -14,6 +14,9 @@ export interface Container {
   memoryLimit?: number;
   cpuUsed?: number;
   memoryUsed?: number;
+  restartCount?: number;
+  // reason of the last termination of the container, like `OOMKilled`
+  lastTerminationReason?: string;
 }
 
 export interface Resource {
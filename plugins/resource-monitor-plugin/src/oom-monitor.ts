@@ -0,0 +1,121 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as theia from '@theia/plugin';
+
+import { Container } from './objects';
+import { Units } from './constants';
+import { injectable } from 'inversify';
+
+const CONFIGURATION = 'che.resourceMonitor';
+const OOM_WARNING_THRESHOLD = 'oomWarningThreshold';
+const DEFAULT_OOM_WARNING_THRESHOLD = 95;
+const OOM_KILLED = 'OOMKilled';
+const OPEN_DEVFILE = 'Open Devfile';
+const DEVFILES = '**/{devfile.yaml,.devfile.yaml}';
+
+/**
+ * Warn the user when a container is about to be killed because it's out of memory,
+ * and when a container has been restarted after being killed.
+ */
+@injectable()
+export class OomMonitor {
+  // containers with a memory usage above the threshold
+  private atRisk = new Set<string>();
+  // restart count of the containers already reported
+  private reportedRestarts = new Map<string, number>();
+
+  /**
+   * Warn once about each container which is near its memory limit, until its usage decreases.
+   */
+  checkMemory(containers: Container[]): void {
+    const threshold = this.getThreshold();
+    containers.forEach(container => {
+      const { name, memoryUsed, memoryLimit } = container;
+      if (!memoryUsed || !memoryLimit || (memoryUsed / memoryLimit) * 100 < threshold) {
+        this.atRisk.delete(name);
+        return;
+      }
+      if (!this.atRisk.has(name)) {
+        this.atRisk.add(name);
+        const used = Math.floor(memoryUsed / Units.M);
+        const limit = Math.floor(memoryLimit / Units.M);
+        this.warn(
+          `Container ${name} is about to be OOM-killed: it uses ${used} MB of its ${limit} MB memory limit. ` +
+            `Consider increasing the memoryLimit of the ${name} component in the devfile.`,
+          name
+        );
+      }
+    });
+  }
+
+  /**
+   * Tell the user when a container has been restarted because it was out of memory.
+   */
+  checkRestarts(containers: Container[]): void {
+    containers.forEach(container => {
+      const { name, restartCount, lastTerminationReason } = container;
+      if (!restartCount || restartCount <= (this.reportedRestarts.get(name) || 0)) {
+        return;
+      }
+      this.reportedRestarts.set(name, restartCount);
+      if (lastTerminationReason === OOM_KILLED) {
+        this.warn(
+          `Container ${name} has been OOMKilled and restarted (${restartCount} restarts). ` +
+            `Consider increasing the memoryLimit of the ${name} component in the devfile.`,
+          name
+        );
+      }
+    });
+  }
+
+  /**
+   * Open the devfile of the workspace on the definition of the given component.
+   */
+  async openDevfileComponent(name: string): Promise<void> {
+    const uris = await theia.workspace.findFiles(DEVFILES, '**/node_modules/**');
+    for (const uri of uris || []) {
+      const document = await theia.workspace.openTextDocument(uri);
+      if (!document) {
+        continue;
+      }
+      const line = document
+        .getText()
+        .split(/\r?\n/)
+        .findIndex(text => new RegExp(`^\\s*-?\\s*name:\\s*['"]?${escapeRegExp(name)}['"]?\\s*$`).test(text));
+      if (line >= 0) {
+        await theia.window.showTextDocument(document, { selection: new theia.Range(line, 0, line, 0) });
+        return;
+      }
+    }
+    theia.window.showInformationMessage(`Component ${name} is not found in the devfile of the workspace.`);
+  }
+
+  private async warn(message: string, component: string): Promise<void> {
+    try {
+      const action = await theia.window.showWarningMessage(message, OPEN_DEVFILE);
+      if (action === OPEN_DEVFILE) {
+        await this.openDevfileComponent(component);
+      }
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  private getThreshold(): number {
+    const configuration = theia.workspace.getConfiguration(CONFIGURATION);
+    const threshold = configuration && configuration.get<number>(OOM_WARNING_THRESHOLD);
+    return typeof threshold === 'number' && threshold > 0 ? threshold : DEFAULT_OOM_WARNING_THRESHOLD;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
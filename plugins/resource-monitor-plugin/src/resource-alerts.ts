@@ -0,0 +1,126 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as theia from '@theia/plugin';
+
+import { Container } from './objects';
+import { injectable } from 'inversify';
+
+export type AlertMetric = 'memory' | 'cpu';
+
+/**
+ * What is done when an alert is raised:
+ *  - notification: show a warning notification once
+ *  - statusbar: highlight the container in the status bar while the alert is raised
+ *  - log: write a line in the output channel once
+ */
+export type AlertAction = 'notification' | 'statusbar' | 'log';
+
+export interface AlertRule {
+  // name of the container, all the containers when it's not set
+  container?: string;
+  metric: AlertMetric;
+  // percent of the limit of the container
+  threshold: number;
+  // seconds the usage has to stay above the threshold before the alert is raised
+  duration?: number;
+  action: AlertAction;
+}
+
+export interface Alert {
+  rule: AlertRule;
+  container: Container;
+  // percent of the limit used by the container
+  usage: number;
+}
+
+const CONFIGURATION = 'che.resourceMonitor';
+const ALERTS = 'alerts';
+const DEFAULT_RULES: AlertRule[] = [{ metric: 'memory', threshold: 90, action: 'statusbar' }];
+
+/**
+ * Evaluate the alert rules of the preferences against the usage of the containers.
+ */
+@injectable()
+export class ResourceAlerts {
+  // time when the usage went above the threshold, by rule and container
+  private exceededSince = new Map<string, number>();
+  private raised = new Map<string, Alert>();
+
+  getRules(): AlertRule[] {
+    const configuration = theia.workspace.getConfiguration(CONFIGURATION);
+    const rules = configuration && configuration.get<AlertRule[]>(ALERTS);
+    if (!Array.isArray(rules)) {
+      return DEFAULT_RULES;
+    }
+    // ignore malformed rules edited by hand
+    return rules.filter(
+      rule =>
+        rule &&
+        (rule.metric === 'memory' || rule.metric === 'cpu') &&
+        typeof rule.threshold === 'number' &&
+        (rule.action === 'notification' || rule.action === 'statusbar' || rule.action === 'log')
+    );
+  }
+
+  /**
+   * Check the current usage of the containers.
+   * @returns the alerts raised by this check, an alert is raised again only after the usage went below the threshold
+   */
+  evaluate(containers: Container[], time = Date.now()): Alert[] {
+    const newAlerts: Alert[] = [];
+    const raised = new Map<string, Alert>();
+    const exceededSince = new Map<string, number>();
+
+    this.getRules().forEach((rule, index) => {
+      containers
+        .filter(container => !rule.container || rule.container === container.name)
+        .forEach(container => {
+          const usage = this.getUsage(container, rule.metric);
+          if (usage === undefined || usage < rule.threshold) {
+            return;
+          }
+
+          const key = `${index}:${container.name}`;
+          const since = this.exceededSince.get(key) ?? time;
+          exceededSince.set(key, since);
+          if (time - since < (rule.duration || 0) * 1000) {
+            return;
+          }
+
+          const alert: Alert = { rule, container, usage };
+          raised.set(key, alert);
+          if (!this.raised.has(key)) {
+            newAlerts.push(alert);
+          }
+        });
+    });
+
+    this.exceededSince = exceededSince;
+    this.raised = raised;
+    return newAlerts;
+  }
+
+  /**
+   * Alerts currently raised.
+   */
+  getRaised(): Alert[] {
+    return Array.from(this.raised.values());
+  }
+
+  private getUsage(container: Container, metric: AlertMetric): number | undefined {
+    const used = metric === 'memory' ? container.memoryUsed : container.cpuUsed;
+    const limit = metric === 'memory' ? container.memoryLimit : container.cpuLimit;
+    if (used === undefined || !limit) {
+      return undefined;
+    }
+    return Math.floor((used / limit) * 100);
+  }
+}
@@ -0,0 +1,120 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as theia from '@theia/plugin';
+
+import { inject, injectable } from 'inversify';
+
+import { MetricsHistory } from './metrics-history';
+import { promises as fs } from 'fs';
+import { renderHistory } from './history-charts';
+
+export type HistoryFormat = 'csv' | 'json';
+
+/**
+ * Webview with the history of the CPU and memory usage of the containers.
+ */
+@injectable()
+export class ResourceHistoryPanel {
+  @inject(MetricsHistory)
+  private metricsHistory: MetricsHistory;
+
+  private panel: theia.WebviewPanel | undefined;
+
+  init(): void {
+    this.metricsHistory.onDidChange(() => this.update());
+  }
+
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+
+    this.panel = theia.window.createWebviewPanel('resourceMonitorHistory', 'Resource History', theia.ViewColumn.One, {
+      enableScripts: true,
+    });
+    this.panel.webview.html = this.getHtml();
+    this.panel.webview.onDidReceiveMessage(message => {
+      if (message && message.type === 'export') {
+        this.export(message.format);
+      }
+    });
+    this.panel.onDidDispose(() => (this.panel = undefined));
+    this.update();
+  }
+
+  /**
+   * Save the samples into a file, the format is asked if it's not given.
+   */
+  async export(format?: HistoryFormat): Promise<void> {
+    if (!format) {
+      const item = await theia.window.showQuickPick([{ label: 'csv' }, { label: 'json' }], {
+        placeHolder: 'Format of the exported history',
+      });
+      if (!item) {
+        return;
+      }
+      format = item.label as HistoryFormat;
+    }
+
+    const uri = await theia.window.showSaveDialog({
+      saveLabel: 'Export',
+      filters: format === 'csv' ? { CSV: ['csv'] } : { JSON: ['json'] },
+    });
+    if (!uri) {
+      return;
+    }
+
+    const content = format === 'csv' ? this.metricsHistory.toCSV() : this.metricsHistory.toJSON();
+    try {
+      await fs.writeFile(uri.fsPath, content);
+    } catch (error) {
+      theia.window.showErrorMessage(`Cannot export the resources history: ${error.message}`);
+    }
+  }
+
+  private update(): void {
+    if (this.panel) {
+      const content = renderHistory(this.metricsHistory.getAll(), this.metricsHistory.getMinutes());
+      this.panel.webview.postMessage({ type: 'update', content });
+    }
+  }
+
+  // the charts are updated by messages, so the page is not reloaded
+  private getHtml(): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: var(--theia-ui-font-family); color: var(--theia-foreground); }
+    section { margin-bottom: 16px; }
+    svg { display: block; border: 1px solid var(--theia-border-color1, #555); margin: 4px 0 8px 0; }
+  </style>
+</head>
+<body>
+  <button onclick="exportHistory('csv')">Export CSV</button>
+  <button onclick="exportHistory('json')">Export JSON</button>
+  <div id="charts"><p>Waiting metrics...</p></div>
+  <script>
+    const api = acquireVsCodeApi();
+    function exportHistory(format) {
+      api.postMessage({ type: 'export', format });
+    }
+    window.addEventListener('message', event => {
+      if (event.data.type === 'update') {
+        document.getElementById('charts').innerHTML = event.data.content;
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+}
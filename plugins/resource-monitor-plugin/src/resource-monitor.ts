@@ -8,15 +8,27 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
-import * as che from '@eclipse-che/plugin';
 import * as theia from '@theia/plugin';
 
-import { Container, MetricContainer, Metrics } from './objects';
-import { SHOW_RESOURCES_INFORMATION_COMMAND, SHOW_WARNING_MESSAGE_COMMAND, Units } from './constants';
+import { ContainerUsage, MetricsProvider } from './metrics-provider';
+import {
+  EXPORT_RESOURCES_HISTORY_COMMAND,
+  METRICS_INTERVAL,
+  POD_STATUS_INTERVAL,
+  SHOW_RESOURCES_HISTORY_COMMAND,
+  SHOW_RESOURCES_INFORMATION_COMMAND,
+  SHOW_WARNING_MESSAGE_COMMAND,
+  Units,
+} from './constants';
 import { convertToBytes, convertToMilliCPU } from './units-converter';
-import { inject, injectable } from 'inversify';
+import { inject, injectable, multiInject } from 'inversify';
 
+import { Container } from './objects';
 import { K8sHelper } from './k8s-helper';
+import { MetricsHistory } from './metrics-history';
+import { OomMonitor } from './oom-monitor';
+import { ResourceAlerts } from './resource-alerts';
+import { ResourceHistoryPanel } from './resource-history-panel';
 import { V1Pod } from '@kubernetes/client-node';
 
 @injectable()
@@ -24,8 +36,23 @@ export class ResourceMonitor {
   @inject(K8sHelper)
   private k8sHelper: K8sHelper;
 
-  private METRICS_SERVER_ENDPOINT = '/apis/metrics.k8s.io/v1beta1/';
-  private METRICS_REQUEST_URL = `${this.METRICS_SERVER_ENDPOINT}namespaces/`;
+  @inject(MetricsHistory)
+  private metricsHistory: MetricsHistory;
+
+  @inject(ResourceHistoryPanel)
+  private resourceHistoryPanel: ResourceHistoryPanel;
+
+  @inject(ResourceAlerts)
+  private resourceAlerts: ResourceAlerts;
+
+  @inject(OomMonitor)
+  private oomMonitor: OomMonitor;
+
+  @multiInject(MetricsProvider)
+  private metricsProviders: MetricsProvider[];
+
+  private metricsProvider: MetricsProvider | undefined;
+
   private WARNING_COLOR = '#FFCC00';
   private DEFAULT_COLOR = '#FFFFFF';
   private DEFAULT_TOOLTIP = 'Workspace resources';
@@ -35,8 +62,10 @@ export class ResourceMonitor {
   private warningMessage = '';
 
   private statusBarItem: theia.StatusBarItem;
+  private outputChannel: theia.OutputChannel | undefined;
   private containers: Container[] = [];
   private namespace: string;
+  private podStatusTime = 0;
 
   constructor() {
     this.statusBarItem = theia.window.createStatusBarItem(theia.StatusBarAlignment.Left);
@@ -49,16 +78,25 @@ export class ResourceMonitor {
   async start(context: theia.PluginContext, namespace: string): Promise<void> {
     context.subscriptions.push(
       theia.commands.registerCommand(SHOW_RESOURCES_INFORMATION_COMMAND, () => this.showDetailedInfo()),
-      theia.commands.registerCommand(SHOW_WARNING_MESSAGE_COMMAND, () => this.showWarningMessage())
+      theia.commands.registerCommand(SHOW_WARNING_MESSAGE_COMMAND, () => this.showWarningMessage()),
+      theia.commands.registerCommand(SHOW_RESOURCES_HISTORY_COMMAND, () => this.resourceHistoryPanel.show()),
+      theia.commands.registerCommand(EXPORT_RESOURCES_HISTORY_COMMAND, () => this.resourceHistoryPanel.export())
     );
+    this.resourceHistoryPanel.init();
 
     this.namespace = namespace;
-    this.show();
+    // the status bar tells the user when no metrics are available
+    this.show().catch(e => console.error(e));
   }
 
   async show(): Promise<void> {
-    await this.getContainersInfo();
-    await this.requestMetricsServer();
+    // the metrics providers can still give the usage of the containers when the workspace pod cannot be read
+    try {
+      await this.getContainersInfo();
+    } catch (e) {
+      console.error(e);
+    }
+    await this.selectMetricsProvider();
   }
 
   async getWorkspacePod(): Promise<V1Pod | undefined> {
@@ -86,51 +124,112 @@ export class ResourceMonitor {
         memoryLimit: convertToBytes(element.resources?.limits?.memory),
       });
     });
+    this.setContainersStatus(wsPod);
     return this.containers;
   }
 
-  async requestMetricsServer(): Promise<void> {
-    const result = await che.k8s.sendRawQuery(this.METRICS_SERVER_ENDPOINT, { url: this.METRICS_SERVER_ENDPOINT });
-    if (result.statusCode !== 200) {
+  /**
+   * Read the restarts of the containers from the workspace pod.
+   */
+  async updateContainersStatus(): Promise<void> {
+    // do not retry before the next interval when the pod cannot be read
+    this.podStatusTime = Date.now();
+    try {
+      this.setContainersStatus(await this.getWorkspacePod());
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  private setContainersStatus(wsPod: V1Pod | undefined): void {
+    this.podStatusTime = Date.now();
+    wsPod?.status?.containerStatuses?.forEach(status => {
+      const container = this.containers.find(element => element.name === status.name);
+      if (container) {
+        container.restartCount = status.restartCount;
+        container.lastTerminationReason = status.lastState?.terminated?.reason;
+      }
+    });
+    this.oomMonitor.checkRestarts(this.containers);
+  }
+
+  /**
+   * Use the first metrics provider which can be initialized.
+   */
+  async selectMetricsProvider(): Promise<void> {
+    const errors: string[] = [];
+    for (const provider of this.metricsProviders) {
+      try {
+        await provider.init(this.namespace);
+        this.metricsProvider = provider;
+        break;
+      } catch (e) {
+        errors.push(e.message);
+      }
+    }
+    if (!this.metricsProvider) {
       this.statusBarItem.text = this.MONITOR_BANNED;
-      this.warningMessage = "Resource monitor won't be displayed. Metrics Server is not enabled on the cluster.";
+      this.warningMessage = `Resource monitor won't be displayed. No metrics are available. ${errors.join(' ')}`;
       this.statusBarItem.command = SHOW_WARNING_MESSAGE_COMMAND.id;
-      throw new Error(`Cannot connect to Metrics Server. Status code: ${result.statusCode}. Error: ${result.data}`);
+      throw new Error(errors.join(' '));
     }
-    setInterval(() => this.getMetrics(), 5000);
+    setInterval(() => this.getMetrics(), METRICS_INTERVAL);
   }
 
   async getMetrics(): Promise<Container[]> {
-    const requestURL = `${this.METRICS_REQUEST_URL}${this.namespace}/pods/${process.env.HOSTNAME}`;
-    const opts = { url: this.METRICS_SERVER_ENDPOINT };
-    const response = await che.k8s.sendRawQuery(requestURL, opts);
-
-    if (response.statusCode !== 200) {
-      // wait when workspace pod's metrics will be available
-      if (response.statusCode === 404) {
-        this.statusBarItem.text = this.MONITOR_WAIT_METRICS;
-      } else {
-        this.statusBarItem.text = this.MONITOR_BANNED;
-        this.warningMessage = `Resource monitor won't be displayed. Cannot read metrics: ${response.data}.`;
-        this.statusBarItem.command = SHOW_WARNING_MESSAGE_COMMAND.id;
-      }
+    // the preferred provider is used until a provider is selected
+    const provider = this.metricsProvider || this.metricsProviders[0];
+    let usages: ContainerUsage[] | undefined;
+    try {
+      usages = await provider.getMetrics();
+    } catch (e) {
+      this.statusBarItem.text = this.MONITOR_BANNED;
+      this.warningMessage = `Resource monitor won't be displayed. ${e.message}.`;
+      this.statusBarItem.command = SHOW_WARNING_MESSAGE_COMMAND.id;
       return this.containers;
     }
+    // wait when workspace pod's metrics will be available
+    if (!usages) {
+      this.statusBarItem.text = this.MONITOR_WAIT_METRICS;
+      return this.containers;
+    }
+
     this.statusBarItem.command = SHOW_RESOURCES_INFORMATION_COMMAND.id;
-    const metrics: Metrics = JSON.parse(response.data);
-    metrics.containers.forEach(element => {
-      this.setUsedResources(element);
+    if (Date.now() - this.podStatusTime >= POD_STATUS_INTERVAL) {
+      this.updateContainersStatus();
+    }
+    usages.forEach(usage => {
+      this.setUsedResources(usage);
     });
+    this.metricsHistory.add(this.containers.filter(container => container.memoryUsed !== undefined));
+    this.raiseAlerts();
+    this.oomMonitor.checkMemory(this.containers);
     this.updateStatusBar();
     return this.containers;
   }
 
-  setUsedResources(element: MetricContainer): void {
-    this.containers.map(container => {
-      if (container.name === element.name) {
-        container.cpuUsed = convertToMilliCPU(element.usage.cpu);
-        container.memoryUsed = convertToBytes(element.usage.memory);
-        return;
+  setUsedResources(usage: ContainerUsage): void {
+    let container = this.containers.find(element => element.name === usage.name);
+    // the local container is unknown when the workspace pod cannot be read
+    if (!container) {
+      container = { name: usage.name, cpuLimit: usage.cpuLimit, memoryLimit: usage.memoryLimit };
+      this.containers.push(container);
+    }
+    container.cpuUsed = usage.cpuUsed;
+    container.memoryUsed = usage.memoryUsed;
+  }
+
+  raiseAlerts(): void {
+    this.resourceAlerts.evaluate(this.containers).forEach(alert => {
+      const metric = alert.rule.metric === 'memory' ? 'memory' : 'CPU';
+      const message = `Container ${alert.container.name} uses ${alert.usage}% of its ${metric} limit.`;
+      if (alert.rule.action === 'notification') {
+        theia.window.showWarningMessage(message);
+      } else if (alert.rule.action === 'log') {
+        if (!this.outputChannel) {
+          this.outputChannel = theia.window.createOutputChannel('Resource Monitor');
+        }
+        this.outputChannel.appendLine(`${new Date().toISOString()} ${message}`);
       }
     });
   }
@@ -142,8 +241,13 @@ export class ResourceMonitor {
     let text = '';
     let color = this.DEFAULT_COLOR;
     let tooltip = this.DEFAULT_TOOLTIP;
+    const highlighted = this.resourceAlerts
+      .getRaised()
+      .filter(alert => alert.rule.action === 'statusbar')
+      .map(alert => alert.container.name);
     this.containers.forEach(element => {
-      if (element.memoryLimit) {
+      // the providers like cgroup give the usage of the local container only, the total is about the same containers
+      if (element.memoryLimit && element.memoryUsed !== undefined) {
         memTotal += element.memoryLimit;
       }
       if (element.memoryUsed) {
@@ -152,8 +256,8 @@ export class ResourceMonitor {
       if (element.cpuUsed) {
         cpuUsed += element.cpuUsed;
       }
-      // if a container uses more than 90% of limited memory, show it in status bar with warning color
-      if (element.memoryLimit && element.memoryUsed && element.memoryUsed / element.memoryLimit > 0.9) {
+      // if an alert is raised for a container, show it in status bar with warning color
+      if (highlighted.includes(element.name) && element.memoryLimit && element.memoryUsed) {
         color = this.WARNING_COLOR;
         tooltip = `${element.name} container`;
         text = this.buildStatusBarMessage(element.memoryUsed, element.memoryLimit, element.cpuUsed);
@@ -198,10 +302,15 @@ export class ResourceMonitor {
       const memLimited = element.memoryLimit ? Math.floor(element.memoryLimit / Units.M) : '';
       const cpuUsed = element.cpuUsed;
       const cpuLimited = element.cpuLimit ? `${element.cpuLimit}m` : 'not set';
+      let detail = `Mem (MB): ${memUsed} (Used) / ${memLimited} (Limited) | CPU : ${cpuUsed}m (Used) / ${cpuLimited} (Limited)`;
+      if (element.restartCount) {
+        const reason = element.lastTerminationReason ? ` (${element.lastTerminationReason})` : '';
+        detail = `${detail} | Restarts: ${element.restartCount}${reason}`;
+      }
 
       items.push(<theia.QuickPickItem>{
         label: element.name,
-        detail: `Mem (MB): ${memUsed} (Used) / ${memLimited} (Limited) | CPU : ${cpuUsed}m (Used) / ${cpuLimited} (Limited)`,
+        detail,
       });
     });
     theia.window.showQuickPick(items, {});
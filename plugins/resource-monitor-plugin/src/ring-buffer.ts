@@ -0,0 +1,58 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/**
+ * Fixed size buffer, the oldest items are overwritten when it's full.
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(private capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Returns the items from the oldest to the newest one.
+   */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Change the capacity, the newest items are kept.
+   */
+  resize(capacity: number): void {
+    const items = this.toArray();
+    this.capacity = capacity;
+    this.items = items.slice(Math.max(items.length - capacity, 0));
+    this.start = 0;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.start = 0;
+  }
+}
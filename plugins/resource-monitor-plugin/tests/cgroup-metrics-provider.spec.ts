@@ -0,0 +1,113 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import 'reflect-metadata';
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CgroupMetricsProvider } from '../src/cgroup-metrics-provider';
+
+class TestCgroupMetricsProvider extends CgroupMetricsProvider {
+  time = 0;
+
+  constructor(protected root: string) {
+    super();
+  }
+
+  protected getContainerName(): string | undefined {
+    return 'tools';
+  }
+
+  protected now(): number {
+    return this.time;
+  }
+}
+
+describe('Test CgroupMetricsProvider', () => {
+  let root: string;
+
+  async function write(files: { [file: string]: string }): Promise<void> {
+    for (const file of Object.keys(files)) {
+      await fs.outputFile(path.join(root, file), files[file]);
+    }
+  }
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'cgroup-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  test('read cgroup v2 statistics', async () => {
+    await write({
+      'cgroup.controllers': 'cpu memory',
+      'memory.current': '600000000\n',
+      'memory.stat': 'anon 400000000\ninactive_file 100000000\n',
+      'memory.max': '1000000000\n',
+      'cpu.stat': 'usage_usec 1000000\nuser_usec 800000\n',
+      'cpu.max': '50000 100000\n',
+    });
+    const provider = new TestCgroupMetricsProvider(root);
+    await provider.init();
+
+    expect(await provider.getMetrics()).toEqual([
+      { name: 'tools', cpuUsed: 0, memoryUsed: 500000000, cpuLimit: 500, memoryLimit: 1000000000 },
+    ]);
+
+    // 0.25 seconds of CPU used during 1 second
+    await write({ 'cpu.stat': 'usage_usec 1250000\n' });
+    provider.time = 1000;
+    const usages = await provider.getMetrics();
+    expect(usages![0].cpuUsed).toBe(250);
+  });
+
+  test('read cgroup v2 statistics without limits', async () => {
+    await write({
+      'cgroup.controllers': 'cpu memory',
+      'memory.current': '600000000',
+      'memory.max': 'max',
+      'cpu.stat': 'usage_usec 1000000',
+      'cpu.max': 'max 100000',
+    });
+    const provider = new TestCgroupMetricsProvider(root);
+    await provider.init();
+
+    expect(await provider.getMetrics()).toEqual([{ name: 'tools', cpuUsed: 0, memoryUsed: 600000000 }]);
+  });
+
+  test('read cgroup v1 statistics', async () => {
+    await write({
+      'memory/memory.usage_in_bytes': '600000000',
+      'memory/memory.stat': 'cache 200000000\ntotal_inactive_file 100000000\n',
+      'memory/memory.limit_in_bytes': '9223372036854771712',
+      'cpuacct/cpuacct.usage': '1000000000',
+      'cpu/cpu.cfs_quota_us': '-1',
+      'cpu/cpu.cfs_period_us': '100000',
+    });
+    const provider = new TestCgroupMetricsProvider(root);
+    await provider.init();
+    await provider.getMetrics();
+
+    // 2 seconds of CPU used during 4 seconds
+    await write({ 'cpuacct/cpuacct.usage': '3000000000' });
+    provider.time = 4000;
+    expect(await provider.getMetrics()).toEqual([{ name: 'tools', cpuUsed: 500, memoryUsed: 500000000 }]);
+  });
+
+  test('fail when there are no cgroup statistics', async () => {
+    const provider = new TestCgroupMetricsProvider(root);
+
+    await expect(provider.init()).rejects.toThrow(`Cannot read cgroup statistics from ${root}.`);
+  });
+});
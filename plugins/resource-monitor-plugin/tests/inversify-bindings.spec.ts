@@ -15,6 +15,11 @@ import * as theia from '@theia/plugin';
 import { Container } from 'inversify';
 import { InversifyBinding } from '../src/inversify-binding';
 import { K8sHelper } from '../src/k8s-helper';
+import { MetricsHistory } from '../src/metrics-history';
+import { MetricsProvider } from '../src/metrics-provider';
+import { OomMonitor } from '../src/oom-monitor';
+import { ResourceAlerts } from '../src/resource-alerts';
+import { ResourceHistoryPanel } from '../src/resource-history-panel';
 import { ResourceMonitor } from '../src/resource-monitor';
 
 const createStatusBar = jest.fn();
@@ -41,5 +46,13 @@ describe('Test InversifyBinding', () => {
 
     expect(container.get(ResourceMonitor)).toBeDefined();
     expect(container.get(K8sHelper)).toBeDefined();
+    expect(container.get(MetricsHistory)).toBeDefined();
+    expect(container.get(ResourceHistoryPanel)).toBeDefined();
+    expect(container.get(ResourceAlerts)).toBeDefined();
+    expect(container.get(OomMonitor)).toBeDefined();
+    expect(container.getAll<MetricsProvider>(MetricsProvider).map(provider => provider.name)).toEqual([
+      'Metrics Server',
+      'cgroup',
+    ]);
   });
 });
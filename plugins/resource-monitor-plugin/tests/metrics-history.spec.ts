@@ -0,0 +1,103 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import 'reflect-metadata';
+
+import * as theia from '@theia/plugin';
+
+import { MetricsHistory } from '../src/metrics-history';
+import { renderHistory } from '../src/history-charts';
+
+describe('Test MetricsHistory', () => {
+  const getConfigurationMock = jest.fn();
+  const maven = { name: 'maven', cpuLimit: 500, memoryLimit: 1000000000, cpuUsed: 100, memoryUsed: 153600000 };
+  const theiaIde = { name: 'theia-ide', cpuLimit: 0, memoryLimit: 536870912, cpuUsed: 10, memoryUsed: 5000000 };
+  const start = Date.parse('2022-01-01T10:00:00.000Z');
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    theia.workspace.getConfiguration = getConfigurationMock;
+  });
+
+  test('keep the samples of each container', () => {
+    const history = new MetricsHistory();
+    const listener = jest.fn();
+    history.onDidChange(listener);
+
+    history.add([maven, theiaIde], start);
+    history.add([{ ...maven, cpuUsed: 200 }], start + 5000);
+
+    expect(listener).toBeCalledTimes(2);
+    expect(history.getAll()).toEqual([
+      {
+        name: 'maven',
+        cpuLimit: 500,
+        memoryLimit: 1000000000,
+        samples: [
+          { time: start, cpuUsed: 100, memoryUsed: 153600000 },
+          { time: start + 5000, cpuUsed: 200, memoryUsed: 153600000 },
+        ],
+      },
+      {
+        name: 'theia-ide',
+        cpuLimit: 0,
+        memoryLimit: 536870912,
+        samples: [{ time: start, cpuUsed: 10, memoryUsed: 5000000 }],
+      },
+    ]);
+  });
+
+  test('keep the samples of the configured minutes', () => {
+    getConfigurationMock.mockReturnValue({ get: () => 1 });
+    const history = new MetricsHistory();
+
+    // one sample every 5 seconds during 2 minutes
+    for (let i = 0; i < 24; i++) {
+      history.add([maven], start + i * 5000);
+    }
+
+    const samples = history.getAll()[0].samples;
+    expect(history.getMinutes()).toBe(1);
+    expect(samples.length).toBe(12);
+    expect(samples[0].time).toBe(start + 12 * 5000);
+  });
+
+  test('export to CSV', () => {
+    const history = new MetricsHistory();
+    history.add([maven, theiaIde], start);
+
+    expect(history.toCSV()).toBe(
+      'time,container,cpuUsed,cpuLimit,memoryUsed,memoryLimit\n' +
+        '2022-01-01T10:00:00.000Z,maven,100,500,153600000,1000000000\n' +
+        '2022-01-01T10:00:00.000Z,theia-ide,10,,5000000,536870912\n'
+    );
+  });
+
+  test('export to JSON', () => {
+    const history = new MetricsHistory();
+    history.add([maven], start);
+
+    expect(JSON.parse(history.toJSON())).toEqual(history.getAll());
+  });
+
+  test('render the charts', () => {
+    const history = new MetricsHistory();
+    history.add([maven], start);
+    history.add([{ ...maven, cpuUsed: 300 }], start + 5000);
+
+    const html = renderHistory(history.getAll(), 30, start + 5000);
+
+    expect(html).toContain('<h3>maven</h3>');
+    expect(html).toContain('CPU: 300 m (max 300 m, limit 500 m)');
+    expect(html.match(/<polyline/g)!.length).toBe(2);
+    // the limits are drawn
+    expect(html.match(/stroke-dasharray/g)!.length).toBe(2);
+  });
+});
@@ -0,0 +1,107 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import 'reflect-metadata';
+
+import * as theia from '@theia/plugin';
+
+import { OomMonitor } from '../src/oom-monitor';
+
+describe('Test OomMonitor', () => {
+  const showWarningMessageMock = jest.fn();
+  const maven = { name: 'maven', memoryLimit: 1000000000, memoryUsed: 960000000 };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    theia.window.showWarningMessage = showWarningMessageMock;
+  });
+
+  test('warn once when a container is near its memory limit', () => {
+    const oomMonitor = new OomMonitor();
+
+    oomMonitor.checkMemory([maven]);
+    oomMonitor.checkMemory([maven]);
+
+    expect(showWarningMessageMock).toBeCalledTimes(1);
+    expect(showWarningMessageMock).toBeCalledWith(
+      'Container maven is about to be OOM-killed: it uses 960 MB of its 1000 MB memory limit. ' +
+        'Consider increasing the memoryLimit of the maven component in the devfile.',
+      'Open Devfile'
+    );
+
+    // warn again once the usage decreased
+    oomMonitor.checkMemory([{ ...maven, memoryUsed: 100 }]);
+    oomMonitor.checkMemory([maven]);
+    expect(showWarningMessageMock).toBeCalledTimes(2);
+  });
+
+  test('log the warnings which cannot be shown', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    showWarningMessageMock.mockRejectedValue(new Error('disconnected'));
+    const oomMonitor = new OomMonitor();
+
+    oomMonitor.checkMemory([maven]);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(consoleErrorSpy).toBeCalledWith(new Error('disconnected'));
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('use the configured threshold', () => {
+    theia.workspace.getConfiguration = jest.fn().mockReturnValue({ get: () => 99 });
+    const oomMonitor = new OomMonitor();
+
+    oomMonitor.checkMemory([maven]);
+
+    expect(showWarningMessageMock).not.toBeCalled();
+  });
+
+  test('report the containers restarted after being OOMKilled', () => {
+    const oomMonitor = new OomMonitor();
+
+    oomMonitor.checkRestarts([{ name: 'maven', restartCount: 2, lastTerminationReason: 'OOMKilled' }]);
+    oomMonitor.checkRestarts([{ name: 'maven', restartCount: 2, lastTerminationReason: 'OOMKilled' }]);
+    oomMonitor.checkRestarts([{ name: 'theia-ide', restartCount: 1, lastTerminationReason: 'Error' }]);
+
+    expect(showWarningMessageMock).toBeCalledTimes(1);
+    expect(showWarningMessageMock).toBeCalledWith(
+      'Container maven has been OOMKilled and restarted (2 restarts). ' +
+        'Consider increasing the memoryLimit of the maven component in the devfile.',
+      'Open Devfile'
+    );
+  });
+
+  test('open the devfile on the component', async () => {
+    const document = {
+      getText: () => 'schemaVersion: 2.1.0\ncomponents:\n  - name: tools\n  - name: maven\n    container: {}\n',
+    };
+    theia.workspace.findFiles = jest.fn().mockResolvedValue([{ fsPath: '/projects/app/devfile.yaml' }]);
+    theia.workspace.openTextDocument = jest.fn().mockResolvedValue(document);
+    const oomMonitor = new OomMonitor();
+
+    await oomMonitor.openDevfileComponent('maven');
+
+    expect(theia.window.showTextDocument).toBeCalledWith(document, { selection: new theia.Range(3, 0, 3, 0) });
+  });
+
+  test('open the devfile from the warning', async () => {
+    showWarningMessageMock.mockResolvedValue('Open Devfile');
+    theia.workspace.findFiles = jest.fn().mockResolvedValue([]);
+    const oomMonitor = new OomMonitor();
+
+    oomMonitor.checkMemory([maven]);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(theia.workspace.findFiles).toBeCalledWith('**/{devfile.yaml,.devfile.yaml}', '**/node_modules/**');
+    expect(theia.window.showInformationMessage).toBeCalledWith(
+      'Component maven is not found in the devfile of the workspace.'
+    );
+  });
+});
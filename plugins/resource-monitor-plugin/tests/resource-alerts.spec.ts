@@ -0,0 +1,97 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import 'reflect-metadata';
+
+import * as theia from '@theia/plugin';
+
+import { AlertRule, ResourceAlerts } from '../src/resource-alerts';
+
+describe('Test ResourceAlerts', () => {
+  const getConfigurationMock = jest.fn();
+  const maven = { name: 'maven', cpuLimit: 500, memoryLimit: 1000, cpuUsed: 450, memoryUsed: 500 };
+  const theiaIde = { name: 'theia-ide', cpuLimit: 0, memoryLimit: 1000, cpuUsed: 450, memoryUsed: 950 };
+
+  function setRules(rules: AlertRule[] | undefined): void {
+    getConfigurationMock.mockReturnValue({ get: () => rules });
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    theia.workspace.getConfiguration = getConfigurationMock;
+  });
+
+  test('use the memory rule by default', () => {
+    const alerts = new ResourceAlerts();
+
+    const raised = alerts.evaluate([maven, theiaIde]);
+
+    expect(raised.length).toBe(1);
+    expect(raised[0].container.name).toBe('theia-ide');
+    expect(raised[0].rule).toEqual({ metric: 'memory', threshold: 90, action: 'statusbar' });
+    expect(raised[0].usage).toBe(95);
+  });
+
+  test('raise the CPU alerts of the containers with a limit', () => {
+    setRules([{ metric: 'cpu', threshold: 80, action: 'notification' }]);
+    const alerts = new ResourceAlerts();
+
+    const raised = alerts.evaluate([maven, theiaIde]);
+
+    expect(raised.map(alert => alert.container.name)).toEqual(['maven']);
+    expect(raised[0].usage).toBe(90);
+  });
+
+  test('filter the containers of a rule', () => {
+    setRules([{ container: 'maven', metric: 'memory', threshold: 10, action: 'log' }]);
+    const alerts = new ResourceAlerts();
+
+    const raised = alerts.evaluate([maven, theiaIde]);
+
+    expect(raised.map(alert => alert.container.name)).toEqual(['maven']);
+  });
+
+  test('raise an alert once until the usage decreases', () => {
+    setRules([{ metric: 'memory', threshold: 90, action: 'notification' }]);
+    const alerts = new ResourceAlerts();
+
+    expect(alerts.evaluate([theiaIde], 0).length).toBe(1);
+    expect(alerts.evaluate([theiaIde], 5000).length).toBe(0);
+    expect(alerts.getRaised().length).toBe(1);
+
+    expect(alerts.evaluate([{ ...theiaIde, memoryUsed: 100 }], 10000).length).toBe(0);
+    expect(alerts.getRaised().length).toBe(0);
+
+    expect(alerts.evaluate([theiaIde], 15000).length).toBe(1);
+  });
+
+  test('raise an alert when the usage is sustained', () => {
+    setRules([{ metric: 'memory', threshold: 90, duration: 10, action: 'notification' }]);
+    const alerts = new ResourceAlerts();
+
+    expect(alerts.evaluate([theiaIde], 0).length).toBe(0);
+    expect(alerts.evaluate([theiaIde], 5000).length).toBe(0);
+    expect(alerts.evaluate([theiaIde], 10000).length).toBe(1);
+
+    // the window starts again when the usage decreases
+    alerts.evaluate([{ ...theiaIde, memoryUsed: 100 }], 15000);
+    expect(alerts.evaluate([theiaIde], 20000).length).toBe(0);
+    expect(alerts.evaluate([theiaIde], 25000).length).toBe(0);
+    expect(alerts.evaluate([theiaIde], 30000).length).toBe(1);
+  });
+
+  test('ignore the malformed rules', () => {
+    setRules([{ metric: 'disk', threshold: 90, action: 'notification' } as unknown as AlertRule]);
+    const alerts = new ResourceAlerts();
+
+    expect(alerts.getRules()).toEqual([]);
+    expect(alerts.evaluate([theiaIde]).length).toBe(0);
+  });
+});
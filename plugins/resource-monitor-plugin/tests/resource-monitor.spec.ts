@@ -18,12 +18,35 @@ import * as objects from '../src/objects';
 import * as path from 'path';
 import * as theia from '@theia/plugin';
 
+import { Container, injectable } from 'inversify';
+import { ContainerUsage, MetricsProvider } from '../src/metrics-provider';
 import { SHOW_RESOURCES_INFORMATION_COMMAND, SHOW_WARNING_MESSAGE_COMMAND } from '../src/constants';
 
-import { Container } from 'inversify';
 import { K8sHelper } from '../src/k8s-helper';
+import { MetricsHistory } from '../src/metrics-history';
+import { MetricsServerProvider } from '../src/metrics-server-provider';
+import { OomMonitor } from '../src/oom-monitor';
+import { ResourceAlerts } from '../src/resource-alerts';
+import { ResourceHistoryPanel } from '../src/resource-history-panel';
 import { ResourceMonitor } from '../src/resource-monitor';
 
+@injectable()
+class FakeMetricsProvider implements MetricsProvider {
+  readonly name = 'fake';
+  available = true;
+  usages: ContainerUsage[] | undefined = [];
+
+  async init(): Promise<void> {
+    if (!this.available) {
+      throw new Error('Fake metrics are not available.');
+    }
+  }
+
+  async getMetrics(): Promise<ContainerUsage[] | undefined> {
+    return this.usages;
+  }
+}
+
 // import { ResMon } from '../src/resource-monitor-plugin';
 
 describe('Test Resource Monitor Plugin', () => {
@@ -112,6 +135,11 @@ describe('Test Resource Monitor Plugin', () => {
     getCoreApiMethod.mockReturnValue(coreApiMock);
 
     container.bind(ResourceMonitor).toSelf().inSingletonScope();
+    container.bind<MetricsProvider>(MetricsProvider).to(MetricsServerProvider).inSingletonScope();
+    container.bind(MetricsHistory).toSelf().inSingletonScope();
+    container.bind(ResourceHistoryPanel).toSelf().inSingletonScope();
+    container.bind(ResourceAlerts).toSelf().inSingletonScope();
+    container.bind(OomMonitor).toSelf().inSingletonScope();
     container.bind(K8sHelper).toConstantValue(k8sHelper);
 
     che.k8s.sendRawQuery = sendRawQuery;
@@ -161,6 +189,37 @@ describe('Test Resource Monitor Plugin', () => {
       expect(containers[3]).toEqual({ name: 'che-machine-exec122', cpuLimit: 5000, memoryLimit: 20000 });
       expect(containers[4]).toEqual({ name: 'theia-idewf0', cpuLimit: 0, memoryLimit: 536870912 });
     });
+
+    test('Read restarts of the containers', async () => {
+      const pod = JSON.parse(await fs.readFile(path.join(__dirname, '_data', 'podInfo.json'), 'utf8'));
+      pod.status = {
+        containerStatuses: [
+          { name: 'maven', restartCount: 2, lastState: { terminated: { reason: 'OOMKilled' } } },
+          { name: 'theia-idewf0', restartCount: 0, lastState: {} },
+        ],
+      };
+      const resMonitor = container.get(ResourceMonitor);
+      mockListNamespacedPodMethod.mockResolvedValue({
+        body: {
+          items: [pod],
+        },
+      });
+
+      const containers: objects.Container[] = await resMonitor.getContainersInfo();
+
+      expect(containers[1]).toEqual({
+        name: 'maven',
+        cpuLimit: 0,
+        memoryLimit: 1000000000,
+        restartCount: 2,
+        lastTerminationReason: 'OOMKilled',
+      });
+      expect(containers[4]).toEqual({ name: 'theia-idewf0', cpuLimit: 0, memoryLimit: 536870912, restartCount: 0 });
+      expect(theia.window.showWarningMessage).toBeCalledWith(
+        expect.stringContaining('Container maven has been OOMKilled'),
+        'Open Devfile'
+      );
+    });
   });
 
   describe('getMetrics', () => {
@@ -293,6 +352,34 @@ describe('Test Resource Monitor Plugin', () => {
       expect(statusBarItem.color).toBe('#FFCC00');
       expect(statusBarItem.tooltip).toBe('maven container');
     });
+
+    test('Notify the configured alerts', async () => {
+      const podJson = await fs.readFile(path.join(__dirname, '_data', 'podInfo.json'), 'utf8');
+      const metricsJson = await fs.readFile(path.join(__dirname, '_data', 'limitedMemoryMetrics.json'), 'utf8');
+      const metricsInfo: che.K8SRawResponse = {
+        data: metricsJson,
+        error: '',
+        statusCode: 200,
+      };
+      const alerts = [{ container: 'maven', metric: 'memory', threshold: 80, action: 'notification' }];
+      theia.workspace.getConfiguration = jest.fn().mockReturnValue({
+        get: (key: string) => (key === 'alerts' ? alerts : undefined),
+      });
+
+      mockListNamespacedPodMethod.mockResolvedValue({
+        body: {
+          items: [JSON.parse(podJson)],
+        },
+      });
+      sendRawQuery.mockReturnValueOnce(metricsInfo);
+      const resMonitor = container.get(ResourceMonitor);
+      await resMonitor.getContainersInfo();
+      await resMonitor.getMetrics();
+
+      expect(theia.window.showWarningMessage).toBeCalledWith('Container maven uses 95% of its memory limit.');
+      // no status bar alert
+      expect(statusBarItem.color).toBe('#FFFFFF');
+    });
   });
 
   describe('showDetailedInfo', () => {
@@ -365,7 +452,7 @@ describe('Test Resource Monitor Plugin', () => {
     });
   });
 
-  describe('requestMetricsServer', () => {
+  describe('selectMetricsProvider', () => {
     test('Throw an exception if Metrics server is not available', async () => {
       const response: che.K8SRawResponse = {
         data: 'service unavailable',
@@ -376,7 +463,7 @@ describe('Test Resource Monitor Plugin', () => {
       sendRawQuery.mockReturnValue(response);
       const resMonitor = container.get(ResourceMonitor);
       try {
-        await resMonitor.requestMetricsServer();
+        await resMonitor.selectMetricsProvider();
       } catch (error) {
         expect(statusBarItem.text).toBe('$(ban) Resources');
         expect(statusBarItem.command).toBe(SHOW_WARNING_MESSAGE_COMMAND.id);
@@ -415,7 +502,7 @@ describe('Test Resource Monitor Plugin', () => {
       jest.useFakeTimers();
       const setIntervalSpy = jest.spyOn(global, 'setInterval');
       await resMonitor.start(context, namespace);
-      await resMonitor.requestMetricsServer();
+      await resMonitor.selectMetricsProvider();
       jest.runOnlyPendingTimers();
       expect(setIntervalSpy).toHaveBeenLastCalledWith(expect.any(Function), 5000);
       jest.useRealTimers();
@@ -428,4 +515,92 @@ describe('Test Resource Monitor Plugin', () => {
       );
     });
   });
+
+  describe('metrics providers', () => {
+    let fakeProvider: FakeMetricsProvider;
+
+    beforeEach(() => {
+      fakeProvider = new FakeMetricsProvider();
+      container.bind<MetricsProvider>(MetricsProvider).toConstantValue(fakeProvider);
+      sendRawQuery.mockReturnValue({ data: 'service unavailable', error: '', statusCode: 503 });
+      mockListNamespacedPodMethod.mockResolvedValue({ body: { items: [] } });
+    });
+
+    test('Fall back to the next provider', async () => {
+      fakeProvider.usages = [{ name: 'tools', cpuUsed: 200, memoryUsed: 500000000 }];
+      const resMonitor = container.get(ResourceMonitor);
+      jest.useFakeTimers();
+      await resMonitor.selectMetricsProvider();
+      jest.useRealTimers();
+
+      const containers = await resMonitor.getMetrics();
+
+      expect(che.k8s.sendRawQuery).toBeCalledTimes(1);
+      expect(containers).toEqual([{ name: 'tools', cpuUsed: 200, memoryUsed: 500000000 }]);
+    });
+
+    test('Add the limits of an unknown container', async () => {
+      fakeProvider.usages = [
+        { name: 'tools', cpuUsed: 200, memoryUsed: 500000000, cpuLimit: 1000, memoryLimit: 1000000000 },
+      ];
+      const resMonitor = container.get(ResourceMonitor);
+      jest.useFakeTimers();
+      await resMonitor.selectMetricsProvider();
+      jest.useRealTimers();
+
+      await resMonitor.getMetrics();
+      await resMonitor.getMetrics();
+      const containers = await resMonitor.getMetrics();
+
+      expect(containers).toEqual([
+        { name: 'tools', cpuUsed: 200, memoryUsed: 500000000, cpuLimit: 1000, memoryLimit: 1000000000 },
+      ]);
+      expect(statusBarItem.text).toBe('$(ellipsis) Mem: 500/1000 MB 50% $(pulse) CPU: 200 m');
+    });
+
+    test('Select a provider when the workspace pod cannot be read', async () => {
+      mockListNamespacedPodMethod.mockRejectedValue(new Error('forbidden'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      fakeProvider.usages = [{ name: 'tools', cpuUsed: 200, memoryUsed: 500000000 }];
+      const resMonitor = container.get(ResourceMonitor);
+      jest.useFakeTimers();
+      await resMonitor.show();
+      jest.useRealTimers();
+
+      const containers = await resMonitor.getMetrics();
+
+      expect(console.error).toBeCalledWith(new Error('Cannot get workspace pod. Error: forbidden'));
+      expect(containers).toEqual([{ name: 'tools', cpuUsed: 200, memoryUsed: 500000000 }]);
+    });
+
+    test('Count the limits of the containers with a known usage only', async () => {
+      const podJson = await fs.readFile(path.join(__dirname, '_data', 'podInfo.json'), 'utf8');
+      mockListNamespacedPodMethod.mockResolvedValue({ body: { items: [JSON.parse(podJson)] } });
+      fakeProvider.usages = [{ name: 'maven', cpuUsed: 200, memoryUsed: 500000000 }];
+      const resMonitor = container.get(ResourceMonitor);
+      jest.useFakeTimers();
+      await resMonitor.show();
+      jest.useRealTimers();
+
+      await resMonitor.getMetrics();
+
+      expect(statusBarItem.text).toBe('$(ellipsis) Mem: 500/1000 MB 50% $(pulse) CPU: 200 m');
+    });
+
+    test('Show the errors of all the providers', async () => {
+      fakeProvider.available = false;
+      const resMonitor = container.get(ResourceMonitor);
+
+      await expect(resMonitor.selectMetricsProvider()).rejects.toThrow(
+        'Cannot connect to Metrics Server. Status code: 503. Error: service unavailable Fake metrics are not available.'
+      );
+      expect(statusBarItem.text).toBe('$(ban) Resources');
+
+      resMonitor.showWarningMessage();
+      expect(theia.window.showWarningMessage).toBeCalledWith(
+        "Resource monitor won't be displayed. No metrics are available. " +
+          'Cannot connect to Metrics Server. Status code: 503. Error: service unavailable Fake metrics are not available.'
+      );
+    });
+  });
 });
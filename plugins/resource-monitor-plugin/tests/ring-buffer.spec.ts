@@ -0,0 +1,53 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import { RingBuffer } from '../src/ring-buffer';
+
+describe('Test RingBuffer', () => {
+  test('keep the items in order', () => {
+    const buffer = new RingBuffer<number>(3);
+    buffer.push(1);
+    buffer.push(2);
+
+    expect(buffer.size()).toBe(2);
+    expect(buffer.toArray()).toEqual([1, 2]);
+  });
+
+  test('overwrite the oldest items', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(item => buffer.push(item));
+
+    expect(buffer.size()).toBe(3);
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+  });
+
+  test('keep the newest items when resized', () => {
+    const buffer = new RingBuffer<number>(4);
+    [1, 2, 3, 4, 5].forEach(item => buffer.push(item));
+    buffer.resize(2);
+
+    expect(buffer.getCapacity()).toBe(2);
+    expect(buffer.toArray()).toEqual([4, 5]);
+
+    buffer.resize(3);
+    buffer.push(6);
+    buffer.push(7);
+    expect(buffer.toArray()).toEqual([5, 6, 7]);
+  });
+
+  test('clear', () => {
+    const buffer = new RingBuffer<number>(2);
+    buffer.push(1);
+    buffer.clear();
+
+    expect(buffer.size()).toBe(0);
+    expect(buffer.toArray()).toEqual([]);
+  });
+});
@@ -19,4 +19,10 @@ chePlugin.endpoint = {
     getEndpointsByType: jest.fn(),
 };
 
+chePlugin.task = {
+    fireTaskExited: jest.fn(),
+    fireTaskOutput: jest.fn(),
+    onDidEndTask: jest.fn(),
+};
+
 module.exports = chePlugin;
@@ -12,6 +12,29 @@
 const theiaPlugin: any = {};
 
 theiaPlugin.window = {
-  createOutputChannel: jest.fn()
+  createOutputChannel: jest.fn(),
+};
+
+theiaPlugin.workspace = {
+  getConfiguration: jest.fn(),
+};
+
+theiaPlugin.EventEmitter = class {
+  private listeners: ((e: any) => void)[] = [];
+  event = (listener: (e: any) => void) => {
+    this.listeners.push(listener);
+    return { dispose: () => (this.listeners = this.listeners.filter(l => l !== listener)) };
+  };
+  fire(e: any): void {
+    this.listeners.forEach(listener => listener(e));
+  }
+  dispose(): void {
+    this.listeners = [];
+  }
+};
+
+theiaPlugin.tasks = {
+  fetchTasks: jest.fn(),
+  executeTask: jest.fn(),
 };
 module.exports = theiaPlugin;
@@ -18,6 +18,7 @@ import { CheTaskPreviewMode } from './preview/task-preview-mode';
 import { CheTaskProvider } from './task/che-task-provider';
 import { CheTaskRunner } from './task/che-task-runner';
 import { CheWorkspaceClient } from './che-workspace-client';
+import { CompositeTaskRunner } from './task/composite-task-runner';
 import { ConfigFileLaunchConfigsExtractor } from './extract/config-file-launch-configs-extractor';
 import { ConfigFileTasksExtractor } from './extract/config-file-task-configs-extractor';
 import { Container } from 'inversify';
@@ -30,6 +31,9 @@ import { PreviewUrlVariableResolver } from './variable/preview-url-variable-reso
 import { ProjectPathVariableResolver } from './variable/project-path-variable-resolver';
 import { ServerVariableResolver } from './variable/server-variable-resolver';
 import { TaskConfigurationsExporter } from './export/task-configs-exporter';
+import { TaskHistoryStore } from './history/task-history-store';
+import { TaskHistoryTreeDataProvider } from './history/task-history-tree-data-provider';
+import { TaskOutputRecorder } from './history/task-output-recorder';
 import { TaskStatusHandler } from './task/task-status';
 import { TasksPreviewManager } from './preview/tasks-preview-manager';
 import { VsCodeLaunchConfigsExtractor } from './extract/vscode-launch-configs-extractor';
@@ -40,6 +44,7 @@ container.bind(CheTaskProvider).toSelf().inSingletonScope();
 container.bind(CheTaskEventsHandler).toSelf().inSingletonScope();
 container.bind(TasksPreviewManager).toSelf().inSingletonScope();
 container.bind(CheTaskRunner).toSelf().inSingletonScope();
+container.bind(CompositeTaskRunner).toSelf().inSingletonScope();
 container.bind(MachinesPicker).toSelf().inSingletonScope();
 container.bind(MachineExecClient).toSelf().inSingletonScope();
 container.bind(MachineExecWatcher).toSelf().inSingletonScope();
@@ -60,6 +65,9 @@ container.bind(VsCodeLaunchConfigsExtractor).toSelf().inSingletonScope();
 container.bind(VsCodeTaskConfigsExtractor).toSelf().inSingletonScope();
 container.bind(BackwardCompatibilityResolver).toSelf().inSingletonScope();
 container.bind(TaskStatusHandler).toSelf().inSingletonScope();
+container.bind(TaskHistoryStore).toSelf().inSingletonScope();
+container.bind(TaskOutputRecorder).toSelf().inSingletonScope();
+container.bind(TaskHistoryTreeDataProvider).toSelf().inSingletonScope();
 
 container.bind(PreviewUrlsWidget).toSelf().inTransientScope();
 container.bind(PreviewUrlsWidgetFactory).toDynamicValue(ctx => ({
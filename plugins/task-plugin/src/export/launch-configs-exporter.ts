@@ -12,9 +12,12 @@ import * as che from '@eclipse-che/plugin';
 import * as startPoint from '../task-plugin-backend';
 import * as theia from '@theia/plugin';
 
+import { CHE_TASK_TYPE, TaskIdentifier } from '../task/task-protocol';
 import { inject, injectable } from 'inversify';
 import { modify, writeFile } from '../utils';
 
+import { CheTaskConfigsExtractor } from '../extract/che-task-configs-extractor';
+import { CheWorkspaceClient } from '../che-workspace-client';
 import { ConfigFileLaunchConfigsExtractor } from '../extract/config-file-launch-configs-extractor';
 import { ConfigurationsExporter } from './export-configs-manager';
 import { VsCodeLaunchConfigsExtractor } from '../extract/vscode-launch-configs-extractor';
@@ -33,6 +36,12 @@ export class LaunchConfigurationsExporter implements ConfigurationsExporter {
   @inject(VsCodeLaunchConfigsExtractor)
   protected readonly vsCodeLaunchConfigsExtractor: VsCodeLaunchConfigsExtractor;
 
+  @inject(CheTaskConfigsExtractor)
+  protected readonly cheTaskConfigsExtractor: CheTaskConfigsExtractor;
+
+  @inject(CheWorkspaceClient)
+  protected readonly cheWorkspaceClient: CheWorkspaceClient;
+
   async init(commands: che.devfile.DevfileCommand[]): Promise<void> {
     theia.workspace.onDidChangeWorkspaceFolders(
       event => {
@@ -65,6 +74,8 @@ export class LaunchConfigurationsExporter implements ConfigurationsExporter {
     const launchConfigFilePath = resolve(workspaceFolderPath, CONFIG_DIR, LAUNCH_CONFIG_FILE);
     const configFileConfigs = await this.configFileLaunchConfigsExtractor.extract(launchConfigFilePath);
     const vsCodeConfigs = this.vsCodeLaunchConfigsExtractor.extract(commands);
+    const cheTaskLabels = await this.getCheTaskLabels(commands);
+    vsCodeConfigs.configs = vsCodeConfigs.configs.map(config => this.toCheTaskReferences(config, cheTaskLabels));
 
     const configFileContent = configFileConfigs.content;
     if (configFileContent) {
@@ -81,6 +92,41 @@ export class LaunchConfigurationsExporter implements ConfigurationsExporter {
     }
   }
 
+  /**
+   * Returns the labels of the Che tasks which can be run in their target containers.
+   * The tasks without a target component are run in the container picked by the user.
+   */
+  private async getCheTaskLabels(commands: che.devfile.DevfileCommand[]): Promise<string[]> {
+    const containers = await this.cheWorkspaceClient.getComponentStatuses();
+    return this.cheTaskConfigsExtractor
+      .extract(commands)
+      .filter(config => {
+        const component = config.target && config.target.component;
+        if (component && !containers.some(container => container.name === component)) {
+          console.warn(`Container '${component}' of the Che task '${config.label}' is not found in the workspace`);
+          return false;
+        }
+        return true;
+      })
+      .map(config => config.label);
+  }
+
+  /**
+   * Replaces the labels of the Che tasks in `preLaunchTask` and `postDebugTask` with the identifiers of the Che tasks.
+   * So the Che task is run in its target container even if there is another task with the same label.
+   */
+  private toCheTaskReferences(config: theia.DebugConfiguration, cheTaskLabels: string[]): theia.DebugConfiguration {
+    const result = { ...config };
+    for (const property of ['preLaunchTask', 'postDebugTask']) {
+      const label = config[property];
+      if (typeof label === 'string' && cheTaskLabels.includes(label)) {
+        const taskIdentifier: TaskIdentifier = { type: CHE_TASK_TYPE, label };
+        result[property] = taskIdentifier;
+      }
+    }
+    return result;
+  }
+
   private merge(
     configurations1: theia.DebugConfiguration[],
     configurations2: theia.DebugConfiguration[],
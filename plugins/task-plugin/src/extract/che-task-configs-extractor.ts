@@ -10,21 +10,24 @@
 
 import * as che from '@eclipse-che/plugin';
 
+import { toCompositeTaskConfiguration, toTaskConfiguration } from '../task/converter';
+
 import { TaskConfiguration } from '@eclipse-che/plugin';
 import { injectable } from 'inversify';
-import { toTaskConfiguration } from '../task/converter';
 
 /** Extracts CHE configurations of tasks. */
 @injectable()
 export class CheTaskConfigsExtractor {
   extract(commands: che.devfile.DevfileCommand[]): TaskConfiguration[] {
     // TODO filter should be changed according to task type after resolving https://github.com/eclipse/che/issues/12710
-    const filteredCommands = commands.filter(command => command.exec);
+    const filteredCommands = commands.filter(command => command.exec || command.composite);
 
     if (filteredCommands.length === 0) {
       return [];
     }
 
-    return filteredCommands.map(command => toTaskConfiguration(command));
+    return filteredCommands.map(command =>
+      command.composite ? toCompositeTaskConfiguration(command, commands) : toTaskConfiguration(command)
+    );
   }
 }
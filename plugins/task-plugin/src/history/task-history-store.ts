@@ -0,0 +1,124 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as che from '@eclipse-che/plugin';
+import * as fs from 'fs-extra';
+import * as theia from '@theia/plugin';
+
+import { readFile, writeFile } from '../utils';
+
+import { homedir } from 'os';
+import { injectable } from 'inversify';
+import { resolve } from 'path';
+
+const CONFIG_DIR = '.theia';
+const HISTORY_DIR = 'task-history';
+const RECORD_FILE_EXTENSION = '.json';
+const LOG_FILE_EXTENSION = '.log';
+const ERROR_LOG_FILE_EXTENSION = '.stderr.log';
+
+const CHE_CONFIGURATION = 'che';
+const TASK_HISTORY_SIZE = 'task.history.size';
+const DEFAULT_HISTORY_SIZE = 20;
+
+/** Describes a single run of a Che task. */
+export interface TaskRunRecord {
+  id: string;
+  label: string;
+  config: che.TaskConfiguration;
+  container: string;
+  startTime: number;
+  endTime: number;
+  exitCode: number;
+}
+
+/** Keeps the records about the latest runs of the Che tasks and their output in the projects root. */
+@injectable()
+export class TaskHistoryStore {
+  private readonly onDidChangeEmitter = new theia.EventEmitter<void>();
+  readonly onDidChange: theia.Event<void> = this.onDidChangeEmitter.event;
+
+  /** Saves the record with the task output and removes the oldest records if the history is full. */
+  async add(record: TaskRunRecord, output: string): Promise<void> {
+    await writeFile(this.getLogPath(record), output);
+    await writeFile(this.getRecordPath(record), JSON.stringify(record));
+
+    const records = await this.getAll();
+    for (const outdated of records.slice(this.getHistorySize())) {
+      await this.remove(outdated);
+    }
+    this.onDidChangeEmitter.fire(undefined);
+  }
+
+  /**
+   * Creates the history directory and returns the path of the error log of the record with the given id,
+   * so the error output of the task can be written there while the task is running.
+   */
+  async prepareErrorLog(recordId: string): Promise<string> {
+    await fs.ensureDir(this.getHistoryDir());
+    return this.getErrorLogPath({ id: recordId });
+  }
+
+  /** Returns the records of the task runs, starting from the latest one. */
+  async getAll(): Promise<TaskRunRecord[]> {
+    const historyDir = this.getHistoryDir();
+    if (!(await fs.pathExists(historyDir))) {
+      return [];
+    }
+
+    const records: TaskRunRecord[] = [];
+    for (const file of await fs.readdir(historyDir)) {
+      if (!file.endsWith(RECORD_FILE_EXTENSION)) {
+        continue;
+      }
+
+      try {
+        records.push(JSON.parse(await readFile(resolve(historyDir, file))));
+      } catch (e) {
+        console.error(`Failed to read the task run record ${file}:`, e);
+      }
+    }
+    return records.sort((record1, record2) => record2.startTime - record1.startTime);
+  }
+
+  async clear(): Promise<void> {
+    await fs.remove(this.getHistoryDir());
+    this.onDidChangeEmitter.fire(undefined);
+  }
+
+  getLogPath(record: TaskRunRecord): string {
+    return resolve(this.getHistoryDir(), record.id + LOG_FILE_EXTENSION);
+  }
+
+  getErrorLogPath(record: Pick<TaskRunRecord, 'id'>): string {
+    return resolve(this.getHistoryDir(), record.id + ERROR_LOG_FILE_EXTENSION);
+  }
+
+  private getRecordPath(record: TaskRunRecord): string {
+    return resolve(this.getHistoryDir(), record.id + RECORD_FILE_EXTENSION);
+  }
+
+  private async remove(record: TaskRunRecord): Promise<void> {
+    await fs.remove(this.getRecordPath(record));
+    await fs.remove(this.getLogPath(record));
+    await fs.remove(this.getErrorLogPath(record));
+  }
+
+  private getHistoryDir(): string {
+    const projectsRoot = process.env['PROJECTS_ROOT'] || process.env['CHE_PROJECTS_ROOT'] || homedir();
+    return resolve(projectsRoot, CONFIG_DIR, HISTORY_DIR);
+  }
+
+  private getHistorySize(): number {
+    const configuration = theia.workspace.getConfiguration(CHE_CONFIGURATION);
+    const size = configuration && configuration.get<number>(TASK_HISTORY_SIZE);
+    return typeof size === 'number' && size > 0 ? size : DEFAULT_HISTORY_SIZE;
+  }
+}
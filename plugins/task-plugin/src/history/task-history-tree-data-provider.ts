@@ -0,0 +1,113 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as fs from 'fs-extra';
+import * as startPoint from '../task-plugin-backend';
+import * as theia from '@theia/plugin';
+
+import { TaskHistoryStore, TaskRunRecord } from './task-history-store';
+import { inject, injectable } from 'inversify';
+
+import { CHE_TASK_TYPE } from '../task/task-protocol';
+
+const TASK_HISTORY_VIEW_ID = 'cheTaskHistory';
+const SHOW_LOG_COMMAND_ID = 'cheTaskHistory.showLog';
+const SHOW_ERROR_LOG_COMMAND_ID = 'cheTaskHistory.showErrorLog';
+const RERUN_COMMAND_ID = 'cheTaskHistory.rerun';
+const CLEAR_COMMAND_ID = 'cheTaskHistory.clear';
+
+export interface TaskRunTreeNodeItem extends theia.TreeItem {
+  id: string;
+  label: string;
+  record: TaskRunRecord;
+  contextValue: 'taskRun';
+}
+
+/** Provides the 'Task History' view with the previous runs of the Che tasks. */
+@injectable()
+export class TaskHistoryTreeDataProvider implements theia.TreeDataProvider<TaskRunTreeNodeItem> {
+  @inject(TaskHistoryStore)
+  protected readonly taskHistoryStore: TaskHistoryStore;
+
+  private readonly onDidChangeTreeDataEmitter = new theia.EventEmitter<undefined>();
+  readonly onDidChangeTreeData: theia.Event<undefined> = this.onDidChangeTreeDataEmitter.event;
+
+  init(): void {
+    const subscriptions = startPoint.getSubscriptions();
+    subscriptions.push(theia.window.createTreeView(TASK_HISTORY_VIEW_ID, { treeDataProvider: this }));
+    subscriptions.push(this.taskHistoryStore.onDidChange(() => this.onDidChangeTreeDataEmitter.fire(undefined)));
+
+    subscriptions.push(
+      theia.commands.registerCommand(SHOW_LOG_COMMAND_ID, (node: TaskRunTreeNodeItem) => this.showLog(node.record))
+    );
+    subscriptions.push(
+      theia.commands.registerCommand(SHOW_ERROR_LOG_COMMAND_ID, (node: TaskRunTreeNodeItem) =>
+        this.showErrorLog(node.record)
+      )
+    );
+    subscriptions.push(
+      theia.commands.registerCommand(RERUN_COMMAND_ID, (node: TaskRunTreeNodeItem) => this.rerun(node.record))
+    );
+    subscriptions.push(theia.commands.registerCommand(CLEAR_COMMAND_ID, () => this.taskHistoryStore.clear()));
+  }
+
+  async getChildren(element?: TaskRunTreeNodeItem): Promise<TaskRunTreeNodeItem[]> {
+    if (element) {
+      return [];
+    }
+
+    const records = await this.taskHistoryStore.getAll();
+    return records.map(record => this.toTreeNodeItem(record));
+  }
+
+  getTreeItem(element: TaskRunTreeNodeItem): theia.TreeItem {
+    return element;
+  }
+
+  private toTreeNodeItem(record: TaskRunRecord): TaskRunTreeNodeItem {
+    const succeeded = record.exitCode === 0;
+    const duration = Math.round((record.endTime - record.startTime) / 1000);
+    return {
+      id: record.id,
+      label: record.label,
+      description: new Date(record.startTime).toLocaleString(),
+      tooltip: `${record.label} in ${record.container}: exit code ${record.exitCode}, took ${duration}s`,
+      iconPath: succeeded ? 'fa-check-circle medium-green' : 'fa-times-circle medium-red',
+      collapsibleState: theia.TreeItemCollapsibleState.None,
+      command: { id: SHOW_LOG_COMMAND_ID, title: 'Show Log', arguments: [{ record }] },
+      contextValue: 'taskRun',
+      record,
+    };
+  }
+
+  private async showLog(record: TaskRunRecord): Promise<void> {
+    const logUri = theia.Uri.file(this.taskHistoryStore.getLogPath(record));
+    await theia.window.showTextDocument(logUri, { preview: true });
+  }
+
+  private async showErrorLog(record: TaskRunRecord): Promise<void> {
+    const errorLogPath = this.taskHistoryStore.getErrorLogPath(record);
+    if (!(await fs.pathExists(errorLogPath))) {
+      theia.window.showInformationMessage(`The error output of task '${record.label}' is not recorded`);
+      return;
+    }
+    await theia.window.showTextDocument(theia.Uri.file(errorLogPath), { preview: true });
+  }
+
+  private async rerun(record: TaskRunRecord): Promise<void> {
+    const tasks = await theia.tasks.fetchTasks({ type: CHE_TASK_TYPE });
+    const task = tasks.find(t => t.name === record.label);
+    if (!task) {
+      theia.window.showErrorMessage(`Task '${record.label}' is not found`);
+      return;
+    }
+    await theia.tasks.executeTask(task);
+  }
+}
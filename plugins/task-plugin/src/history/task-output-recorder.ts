@@ -0,0 +1,134 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as che from '@eclipse-che/plugin';
+import * as crypto from 'crypto';
+import * as theia from '@theia/plugin';
+
+import { TaskHistoryStore, TaskRunRecord } from './task-history-store';
+import { inject, injectable } from 'inversify';
+
+import { MachineExecClient } from '../machine/machine-exec-client';
+import { MachineExecWatcher } from '../machine/machine-exec-watcher';
+
+const CHE_CONFIGURATION = 'che';
+const TASK_HISTORY_ENABLED = 'task.history.enabled';
+
+// only the tail of the output is kept for the long running tasks
+const MAX_OUTPUT_LENGTH = 1024 * 1024;
+
+/**
+ * Runs the command given as the first argument and copies its error output to the file given as the second one.
+ * The error output still goes to the terminal, but through a pipe, so the task doesn't see a terminal on its stderr.
+ * The command is run as is when the file can't be written from the container of the task.
+ */
+const COPY_ERROR_OUTPUT_SCRIPT = `if ! touch "$2" 2>/dev/null; then exec sh -c "$1"; fi
+exec 3>&1
+code=$({ { sh -c "$1" 2>&1 1>&3 3>&- 4>&-; echo $? >&4; } | tee -a "$2" 1>&2 3>&- 4>&-; } 4>&1 1>&3)
+exit $code`;
+
+/** A run of a Che task which is prepared to be recorded. */
+export interface TaskRecording {
+  readonly id: string;
+  readonly taskConfig: che.TaskConfiguration;
+  readonly startTime: number;
+  /** the command to run the task with, it copies the error output of the task to the history */
+  readonly cmd: string[];
+}
+
+/**
+ * Captures the output of the Che tasks and saves it to the task history when the task is finished.
+ * The output is captured independently of the task terminal, so it's recorded even if nobody watches the terminal.
+ * The error output is also saved on its own.
+ */
+@injectable()
+export class TaskOutputRecorder {
+  @inject(MachineExecClient)
+  protected readonly machineExecClient: MachineExecClient;
+
+  @inject(MachineExecWatcher)
+  protected readonly machineExecWatcher: MachineExecWatcher;
+
+  @inject(TaskHistoryStore)
+  protected readonly taskHistoryStore: TaskHistoryStore;
+
+  isEnabled(): boolean {
+    const configuration = theia.workspace.getConfiguration(CHE_CONFIGURATION);
+    return !!configuration && configuration.get<boolean>(TASK_HISTORY_ENABLED) === true;
+  }
+
+  /** Prepares the recording of the given task, returns `undefined` if the task history is disabled. */
+  async prepare(taskConfig: che.TaskConfiguration): Promise<TaskRecording | undefined> {
+    if (!this.isEnabled()) {
+      return undefined;
+    }
+
+    const startTime = Date.now();
+    const id = `${startTime}-${crypto.randomBytes(4).toString('hex')}`;
+    const errorLogPath = await this.taskHistoryStore.prepareErrorLog(id);
+    return {
+      id,
+      taskConfig,
+      startTime,
+      cmd: ['sh', '-c', COPY_ERROR_OUTPUT_SCRIPT, 'sh', taskConfig.command, errorLogPath],
+    };
+  }
+
+  /**
+   * Records the output of the exec with the given id which runs the prepared task.
+   * machine-exec starts the process when the exec is created, so the output written by the task
+   * before the recorder attaches to the exec may be missing from the record.
+   * The error output is copied by the task command itself, so it's always complete.
+   */
+  async record(recording: TaskRecording, execId: number): Promise<void> {
+    const taskConfig = recording.taskConfig;
+    let output = '';
+
+    const outputListener = this.machineExecClient.attach(execId, {
+      onMessage: (content: string) => {
+        output += content;
+        if (output.length > MAX_OUTPUT_LENGTH) {
+          output = output.substring(output.length - MAX_OUTPUT_LENGTH);
+        }
+      },
+    });
+
+    const exitListener = this.machineExecWatcher.onExit(async event => {
+      if (event.id !== execId) {
+        return;
+      }
+
+      exitListener.dispose();
+      outputListener.then(listener => listener.dispose());
+
+      const record: TaskRunRecord = {
+        id: recording.id,
+        label: taskConfig.label,
+        config: taskConfig,
+        container: taskConfig.target.containerName,
+        startTime: recording.startTime,
+        endTime: Date.now(),
+        exitCode: event.code,
+      };
+      try {
+        await this.taskHistoryStore.add(record, output);
+      } catch (error) {
+        console.error(`Failed to save the output of the task '${taskConfig.label}':`, error);
+      }
+    });
+
+    try {
+      await outputListener;
+    } catch (error) {
+      exitListener.dispose();
+      throw error;
+    }
+  }
+}
@@ -8,6 +8,7 @@
  * SPDX-License-Identifier: EPL-2.0
  ***********************************************************************/
 
+import * as WS from 'ws';
 import * as rpc from 'vscode-ws-jsonrpc';
 
 import { inject, injectable, postConstruct } from 'inversify';
@@ -18,7 +19,9 @@ import { applySegmentsToUri } from '../utils';
 import { createConnection } from './websocket';
 
 const CREATE_METHOD_NAME: string = 'create';
+const KILL_METHOD_NAME: string = 'kill';
 const CONNECT_TERMINAL_SEGMENT: string = 'connect';
+const ATTACH_TERMINAL_SEGMENT: string = 'attach';
 
 export interface MachineIdentifier {
   workspaceId: string;
@@ -29,10 +32,16 @@ export interface MachineExec {
   identifier: MachineIdentifier;
   cmd: string[];
   cwd?: string;
+  env?: { [name: string]: string };
   tty: boolean;
   id?: number;
 }
 
+export interface ExecSignal {
+  id: number;
+  signal: string;
+}
+
 export interface TerminalProcessOutputHandler {
   onMessage(content: string): void;
 }
@@ -59,6 +68,30 @@ export class MachineExecClient {
     return await connection.sendRequest(request, machineExec);
   }
 
+  /** Sends the given signal, for example `SIGTERM`, to the process of the exec with the given id. */
+  async kill(id: number, signal: string): Promise<void> {
+    const connection = await this.getConnection();
+    const request = new rpc.RequestType<ExecSignal, void, void, void>(KILL_METHOD_NAME);
+    return connection.sendRequest(request, { id, signal });
+  }
+
+  /**
+   * Attaches to the output of the exec with the given id.
+   * Returns the disposable to detach from the output.
+   */
+  async attach(id: number, handler: TerminalProcessOutputHandler): Promise<{ dispose(): void }> {
+    const machineExecServerEndpoint = await this.fetchMachineExecServerURL();
+    const attachUrl = this.withMachineToken(
+      applySegmentsToUri(machineExecServerEndpoint, ATTACH_TERMINAL_SEGMENT, `${id}`)
+    );
+
+    const webSocket = new WS(attachUrl);
+    webSocket.on('message', (data: WS.Data) => handler.onMessage(data.toString()));
+    webSocket.on('error', (error: Error) => console.error(`Failed to attach to the output of exec ${id}:`, error));
+
+    return { dispose: () => webSocket.close(1000) };
+  }
+
   private async getConnection(): Promise<rpc.MessageConnection> {
     if (this.connection) {
       return this.connection;
@@ -69,12 +102,9 @@ export class MachineExecClient {
       throw new Error('URL for machine-exec server is not found in the current workspace.');
     }
 
-    let execServerUrl = applySegmentsToUri(machineExecServerEndpoint, CONNECT_TERMINAL_SEGMENT);
-
-    const machineToken = process.env['CHE_MACHINE_TOKEN'];
-    if (machineToken) {
-      execServerUrl = `${execServerUrl}?token=${machineToken}`;
-    }
+    const execServerUrl = this.withMachineToken(
+      applySegmentsToUri(machineExecServerEndpoint, CONNECT_TERMINAL_SEGMENT)
+    );
 
     this.connection = await createConnection(execServerUrl, connection => {
       // reconnection usecase
@@ -99,6 +129,11 @@ export class MachineExecClient {
     }
   }
 
+  private withMachineToken(url: string): string {
+    const machineToken = process.env['CHE_MACHINE_TOKEN'];
+    return machineToken ? `${url}?token=${machineToken}` : url;
+  }
+
   private async fetchMachineExecServerURL(): Promise<string> {
     if (this.machineExecServerEndpoint === undefined) {
       const url = await this.cheWorkspaceClient.getMachineExecServerURL();
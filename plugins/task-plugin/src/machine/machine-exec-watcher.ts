@@ -54,6 +54,27 @@ export class MachineExecWatcher {
     return this.exitEmitter.event;
   }
 
+  /**
+   * Waits for the exit of the exec with the given id.
+   * Resolves with the exit code or with `undefined` if the exec is still running when the timeout is over.
+   */
+  waitForExit(id: number, timeout: number): Promise<number | undefined> {
+    return new Promise<number | undefined>(resolve => {
+      const timer = setTimeout(() => {
+        disposable.dispose();
+        resolve(undefined);
+      }, timeout);
+
+      const disposable = this.onExit(event => {
+        if (event.id === id) {
+          clearTimeout(timer);
+          disposable.dispose();
+          resolve(event.code);
+        }
+      });
+    });
+  }
+
   private toErrorCode(event: ExecErrorEvent): number {
     const stack = event.stack;
     if (!stack) {
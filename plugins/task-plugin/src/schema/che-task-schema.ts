@@ -29,6 +29,87 @@ const previewUrl = {
   description: 'A URL to access the running server',
 };
 
+const env = {
+  type: 'object',
+  description: 'Environment variables to set for the command',
+  additionalProperties: {
+    type: 'string',
+  },
+};
+
+const group = {
+  description: "Defines to which execution group the task belongs to: 'build' or 'test'",
+  oneOf: [
+    {
+      type: 'string',
+      enum: ['build', 'test', 'none'],
+    },
+    {
+      type: 'object',
+      properties: {
+        kind: {
+          type: 'string',
+          enum: ['build', 'test'],
+          description: "The task's execution group",
+        },
+        isDefault: {
+          type: 'boolean',
+          description: 'Defines if the task is the default task in the group',
+        },
+      },
+    },
+  ],
+};
+
+const problemMatcher = {
+  description:
+    'The problem matchers to scan the output of the task for problems: the names of the matchers, like $tsc, or inline definitions',
+  oneOf: [
+    { type: 'string' },
+    { type: 'object' },
+    {
+      type: 'array',
+      items: {
+        oneOf: [{ type: 'string' }, { type: 'object' }],
+      },
+    },
+  ],
+};
+
+const taskIdentifier = {
+  type: 'object',
+  description: 'Identifies a task of any type by the task type and the properties of the task definition',
+  properties: {
+    type: {
+      type: 'string',
+      description: 'The type of the task',
+    },
+  },
+  required: ['type'],
+  additionalProperties: true,
+};
+
+const dependsOn = {
+  description: 'The tasks to run before the task: the labels of the tasks or the task identifiers',
+  oneOf: [
+    { type: 'string' },
+    taskIdentifier,
+    {
+      type: 'array',
+      items: {
+        oneOf: [{ type: 'string' }, taskIdentifier],
+      },
+    },
+  ],
+};
+
+const dependsOrder = {
+  type: 'string',
+  enum: ['parallel', 'sequence'],
+  default: 'parallel',
+  description: "Whether the tasks from 'dependsOn' are run all at once or one by one in the listed order",
+};
+
 const target = {
   type: 'object',
   description: 'A target for command execution',
@@ -45,6 +126,26 @@ const target = {
   additionalProperties: true,
 };
 
+const composite = {
+  type: 'object',
+  description: 'Runs other Che tasks instead of a command line',
+  properties: {
+    commands: {
+      type: 'array',
+      description: 'Labels of the tasks to run',
+      items: {
+        type: 'string',
+      },
+    },
+    parallel: {
+      type: 'boolean',
+      description: 'Whether the tasks should be run in parallel',
+      default: false,
+    },
+  },
+  required: ['commands'],
+};
+
 const cheTaskType = {
   type: 'string',
   enum: [CHE_TASK_TYPE],
@@ -54,13 +155,19 @@ const cheTaskType = {
 export const CHE_TASK_SCHEMA: che.TaskJSONSchema = {
   $id: cheTaskSchemaId,
   type: 'object',
-  required: ['type', 'label', 'command'],
+  required: ['type', 'label'],
   properties: {
     type: cheTaskType,
     label: label,
     command: command,
     target: target,
+    env: env,
+    group: group,
     previewUrl: previewUrl,
+    problemMatcher: problemMatcher,
+    dependsOn: dependsOn,
+    dependsOrder: dependsOrder,
+    composite: composite,
   },
   additionalProperties: true,
 };
@@ -21,6 +21,7 @@ import { ExportConfigurationsManager } from './export/export-configs-manager';
 import { PreviewUrlVariableResolver } from './variable/preview-url-variable-resolver';
 import { ProjectPathVariableResolver } from './variable/project-path-variable-resolver';
 import { ServerVariableResolver } from './variable/server-variable-resolver';
+import { TaskHistoryTreeDataProvider } from './history/task-history-tree-data-provider';
 import { TaskStatusHandler } from './task/task-status';
 import { TasksPreviewManager } from './preview/tasks-preview-manager';
 import { container } from './che-task-backend-module';
@@ -57,6 +58,9 @@ export async function start(context: theia.PluginContext): Promise<void> {
 
   const taskStatusHandler = container.get<TaskStatusHandler>(TaskStatusHandler);
   taskStatusHandler.init();
+
+  const taskHistoryTreeDataProvider = container.get<TaskHistoryTreeDataProvider>(TaskHistoryTreeDataProvider);
+  taskHistoryTreeDataProvider.init();
 }
 
 export function stop(): void {}
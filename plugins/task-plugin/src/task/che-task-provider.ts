@@ -10,7 +10,7 @@
 
 import * as che from '@eclipse-che/plugin';
 
-import { CHE_TASK_TYPE, CheTaskDefinition, Target } from './task-protocol';
+import { CHE_TASK_TYPE, CheTaskDefinition, Env, Target } from './task-protocol';
 import { ShellExecution, Task } from '@theia/plugin';
 import { inject, injectable } from 'inversify';
 
@@ -57,6 +57,15 @@ export class CheTaskProvider {
       resultTarget.workingDir = await che.variables.resolve(target.workingDir);
     }
 
+    let env: Env | undefined;
+    if (cheTaskDefinition.env) {
+      env = {};
+      for (const name of Object.keys(cheTaskDefinition.env)) {
+        const value = cheTaskDefinition.env[name];
+        env[name] = (await che.variables.resolve(value)) || value;
+      }
+    }
+
     const execution = task.execution as ShellExecution;
     if (execution && execution.commandLine) {
       execution.commandLine = await che.variables.resolve(execution.commandLine);
@@ -67,6 +76,9 @@ export class CheTaskProvider {
         type: taskType,
         target: resultTarget,
         previewUrl: cheTaskDefinition.previewUrl,
+        composite: cheTaskDefinition.composite,
+        env: env,
+        compositeRunId: cheTaskDefinition.compositeRunId,
       },
       name: task.name,
       source: task.source,
@@ -12,16 +12,24 @@ import * as che from '@eclipse-che/plugin';
 import * as startPoint from '../task-plugin-backend';
 import * as theia from '@theia/plugin';
 
-import { CHE_TASK_TYPE, Target } from './task-protocol';
+import { CHE_TASK_TYPE, STUB_TASK_ID, Target } from './task-protocol';
 import { MachineExec, MachineExecClient } from '../machine/machine-exec-client';
 import { inject, injectable, postConstruct } from 'inversify';
 
+import { CompositeTaskRunner } from './composite-task-runner';
 import { MachineExecWatcher } from '../machine/machine-exec-watcher';
 import { ProjectPathVariableResolver } from '../variable/project-path-variable-resolver';
+import { TaskOutputRecorder } from '../history/task-output-recorder';
 
-// CHE task gets ID at creating in che task service
-// https://github.com/eclipse-che/che-theia/blob/c515f75044f9099820c3b18afb8de83f263d671a/extensions/eclipse-che-theia-plugin-ext/src/node/che-task-service.ts#L89
-const STUB_TASK_ID: number = -1;
+const CHE_CONFIGURATION = 'che';
+const TASK_TERMINATION_GRACE_PERIOD = 'task.termination.gracePeriod';
+const DEFAULT_GRACE_PERIOD = 5; // seconds
+
+const SIGTERM = 'SIGTERM';
+const SIGKILL = 'SIGKILL';
+const SIGKILL_EXIT_CODE = 137;
+// time to wait for the exit notification after killing a process
+const SIGKILL_TIMEOUT = 3000;
 
 @injectable()
 export class CheTaskRunner {
@@ -34,9 +42,21 @@ export class CheTaskRunner {
   @inject(MachineExecWatcher)
   protected readonly machineExecWatcher: MachineExecWatcher;
 
+  @inject(CompositeTaskRunner)
+  protected readonly compositeTaskRunner: CompositeTaskRunner;
+
+  @inject(TaskOutputRecorder)
+  protected readonly taskOutputRecorder: TaskOutputRecorder;
+
+  /** Killed processes which are reported as exited before machine-exec notified about their exit. */
+  private readonly reportedExits = new Set<number>();
+
   @postConstruct()
   protected init(): void {
     const disposable = this.machineExecWatcher.onExit(event => {
+      if (this.reportedExits.delete(event.id)) {
+        return;
+      }
       che.task.fireTaskExited({ execId: event.id, code: event.code, processId: event.id });
     });
     startPoint.getSubscriptions().push(disposable);
@@ -61,47 +81,124 @@ export class CheTaskRunner {
       throw new Error("Che task config must have 'target.containerName' property specified");
     }
 
+    if (definition.composite) {
+      const compositeTaskInfo = await this.compositeTaskRunner.run(taskConfig, ctx);
+      this.compositeTaskRunner.onTaskStarted(taskConfig, compositeTaskInfo);
+      return compositeTaskInfo;
+    }
+
+    const recording = await this.taskOutputRecorder.prepare(taskConfig).catch(error => {
+      console.error(`Failed to prepare the recording of the task '${label}':`, error);
+      return undefined;
+    });
+
     try {
       const machineExec: MachineExec = {
         identifier: {
           machineName: containerName,
           workspaceId: target.workspaceId || '',
         },
-        cmd: ['sh', '-c', taskConfig.command],
+        cmd: recording ? recording.cmd : ['sh', '-c', taskConfig.command],
         tty: true,
         cwd: target.workingDir,
+        env: definition.env,
       };
 
       const execId = await this.machineExecClient.getExecId(machineExec);
+      if (recording) {
+        this.taskOutputRecorder
+          .record(recording, execId)
+          .catch(error => console.error(`Failed to record the output of the task '${label}':`, error));
+      }
 
-      return {
+      if (this.hasProblemMatchers(taskConfig)) {
+        this.forwardOutput(execId).catch(error =>
+          console.error(`Failed to scan the output of the task '${label}' for problems:`, error)
+        );
+      }
+
+      const taskInfo: che.TaskInfo = {
         taskId: STUB_TASK_ID,
         ctx: ctx,
         config: taskConfig,
         execId: execId,
         terminalId: execId,
       };
+      this.compositeTaskRunner.onTaskStarted(taskConfig, taskInfo);
+      return taskInfo;
     } catch (error) {
       console.error('Failed to execute Che command:', error);
       throw new Error(`Failed to execute Che command: ${error.message}`);
     }
   }
 
-  /** Terminates a task based on the given info. */
+  /**
+   * Terminates a task based on the given info.
+   * Sends `SIGTERM` to the task process and then `SIGKILL` if the process is still running after the grace period.
+   */
   async kill(taskInfo: che.TaskInfo): Promise<void> {
-    for (const terminal of theia.window.terminals) {
-      try {
-        const processId = await terminal.processId;
-        if (processId === taskInfo.execId) {
-          terminal.sendText('\x03');
-          return;
-        }
-      } catch (e) {
-        // allow to get process id for other terminals
+    if (taskInfo.config.composite) {
+      return this.compositeTaskRunner.kill(taskInfo);
+    }
+
+    const execId: number = taskInfo.execId;
+    try {
+      if (await this.sendSignal(execId, SIGTERM, this.getGracePeriod() * 1000)) {
+        return;
+      }
+
+      if (await this.sendSignal(execId, SIGKILL, SIGKILL_TIMEOUT)) {
+        return;
       }
+    } catch (error) {
+      console.error('Failed to terminate Che command:', error);
+      throw new Error(`Failed to terminate Che command: ${taskInfo.config.label}: ${error.message}`);
+    }
+
+    // the process is killed but machine-exec didn't notify about it, a late notification is ignored for a while
+    this.reportedExits.add(execId);
+    setTimeout(() => this.reportedExits.delete(execId), SIGKILL_TIMEOUT);
+    che.task.fireTaskExited({ execId, code: SIGKILL_EXIT_CODE, processId: execId });
+  }
+
+  private hasProblemMatchers(taskConfig: che.TaskConfiguration): boolean {
+    const problemMatcher = taskConfig.problemMatcher;
+    return Array.isArray(problemMatcher) ? problemMatcher.length > 0 : !!problemMatcher;
+  }
+
+  /** Forwards the output of the exec process to Theia, so the output is scanned by the task's problem matchers. */
+  private async forwardOutput(execId: number): Promise<void> {
+    const outputListener = this.machineExecClient.attach(execId, {
+      onMessage: (output: string) => che.task.fireTaskOutput({ execId, output }),
+    });
+
+    const exitListener = this.machineExecWatcher.onExit(event => {
+      if (event.id === execId) {
+        exitListener.dispose();
+        outputListener.then(listener => listener.dispose());
+      }
+    });
+
+    try {
+      await outputListener;
+    } catch (error) {
+      exitListener.dispose();
+      throw error;
     }
-    throw new Error(
-      `Failed to terminate Che command: ${taskInfo.config.label}: the corresponding terminal is not found`
-    );
+  }
+
+  /** Sends the signal to the exec process and returns `true` if the process exits within the given timeout. */
+  private async sendSignal(execId: number, signal: string, timeout: number): Promise<boolean> {
+    // start waiting before sending the signal not to miss the exit notification
+    const exit = this.machineExecWatcher.waitForExit(execId, timeout);
+    await this.machineExecClient.kill(execId, signal);
+    return (await exit) !== undefined;
+  }
+
+  /** Returns the time in seconds to wait for a task process to exit after sending `SIGTERM`. */
+  private getGracePeriod(): number {
+    const configuration = theia.workspace.getConfiguration(CHE_CONFIGURATION);
+    const gracePeriod = configuration && configuration.get<number>(TASK_TERMINATION_GRACE_PERIOD);
+    return typeof gracePeriod === 'number' && gracePeriod >= 0 ? gracePeriod : DEFAULT_GRACE_PERIOD;
   }
 }
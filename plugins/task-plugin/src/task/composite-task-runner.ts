@@ -0,0 +1,227 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as che from '@eclipse-che/plugin';
+import * as startPoint from '../task-plugin-backend';
+import * as theia from '@theia/plugin';
+
+import { CHE_TASK_TYPE, Composite, STUB_TASK_ID, Target } from './task-protocol';
+import { MachineExec, MachineExecClient } from '../machine/machine-exec-client';
+import { inject, injectable } from 'inversify';
+
+const SUCCESS_EXIT_CODE = 0;
+const GENERAL_ERROR_EXIT_CODE = 1;
+
+/** The property of the sub-task definitions which identifies the run of a sub-task. */
+const SUB_TASK_RUN_ID = 'compositeRunId';
+
+/** Runtime state of a composite task. */
+interface CompositeExecution {
+  /** executions of the sub-tasks which are running at the moment, by the id of the sub-task run */
+  readonly running: Map<string, theia.TaskExecution>;
+  terminated: boolean;
+}
+
+/**
+ * Runs composite Che tasks.
+ * Every sub-task is run as a separate Che task, so it gets its own terminal in the target container.
+ * The composite task fails as soon as any of its sub-tasks exits with a non-zero code.
+ */
+@injectable()
+export class CompositeTaskRunner {
+  @inject(MachineExecClient)
+  protected readonly machineExecClient: MachineExecClient;
+
+  /** Composite tasks get negative ids not to intersect with the ids of the machine-exec processes. */
+  private lastExecId: number = 0;
+  private readonly executions = new Map<number, CompositeExecution>();
+
+  private lastSubTaskRunId: number = 0;
+  /** Callbacks receiving the process ids of the sub-tasks which are being started, by the id of the sub-task run. */
+  private readonly startingSubTasks = new Map<string, (processId: number) => void>();
+
+  async run(taskConfig: che.TaskConfiguration, ctx?: string): Promise<che.TaskInfo> {
+    const composite: Composite = taskConfig.composite;
+    const labels = composite.commands || [];
+    if (labels.length === 0) {
+      throw new Error(`Composite Che task '${taskConfig.label}' doesn't have commands to run`);
+    }
+    if (labels.includes(taskConfig.label)) {
+      throw new Error(`Composite Che task '${taskConfig.label}' can't run itself`);
+    }
+
+    const subTasks = await this.getSubTasks(taskConfig.label, labels);
+
+    // the terminal of the composite task just describes what is going on, the sub-tasks have their own terminals
+    const target: Target = taskConfig.target;
+    const message = `Running ${labels.join(', ')} ${composite.parallel ? 'in parallel' : 'sequentially'}`;
+    const machineExec: MachineExec = {
+      identifier: {
+        machineName: target.containerName || '',
+        workspaceId: target.workspaceId || '',
+      },
+      cmd: ['sh', '-c', `echo ${quote(message)}`],
+      tty: true,
+      cwd: target.workingDir,
+    };
+    const terminalId = await this.machineExecClient.getExecId(machineExec);
+
+    const execId = --this.lastExecId;
+    const execution: CompositeExecution = { running: new Map(), terminated: false };
+    this.executions.set(execId, execution);
+
+    const result = composite.parallel
+      ? this.runInParallel(subTasks, execution)
+      : this.runSequentially(subTasks, execution);
+
+    result
+      .catch(error => {
+        this.reportError(`Failed to run the composite task '${taskConfig.label}'`, error);
+        return GENERAL_ERROR_EXIT_CODE;
+      })
+      .then(code => {
+        this.executions.delete(execId);
+        che.task.fireTaskExited({ execId, code, processId: terminalId });
+      });
+
+    return {
+      taskId: STUB_TASK_ID,
+      ctx: ctx,
+      config: taskConfig,
+      execId: execId,
+      terminalId: terminalId,
+    };
+  }
+
+  /** Terminates all the running sub-tasks of the composite task based on the given info. */
+  async kill(taskInfo: che.TaskInfo): Promise<void> {
+    const execution = this.executions.get(taskInfo.execId);
+    if (!execution) {
+      throw new Error(`Failed to terminate Che command: ${taskInfo.config.label}: the command is not running`);
+    }
+    this.terminate(execution);
+  }
+
+  /**
+   * Binds a started task to its process when the task is a sub-task of a composite task,
+   * so the sub-task is told apart from the other runs of the same task by the exit events.
+   */
+  onTaskStarted(taskConfig: che.TaskConfiguration, taskInfo: che.TaskInfo): void {
+    const runId = taskConfig[SUB_TASK_RUN_ID];
+    const callback = runId && this.startingSubTasks.get(runId);
+    if (callback && taskInfo.terminalId !== undefined) {
+      this.startingSubTasks.delete(runId);
+      callback(taskInfo.terminalId);
+    }
+  }
+
+  private async getSubTasks(compositeLabel: string, labels: string[]): Promise<theia.Task[]> {
+    const tasks = await theia.tasks.fetchTasks({ type: CHE_TASK_TYPE });
+
+    return labels.map(label => {
+      const task = tasks.find(t => t.name === label);
+      if (!task) {
+        throw new Error(`Task '${label}' of the composite Che task '${compositeLabel}' is not found`);
+      }
+      return task;
+    });
+  }
+
+  private async runSequentially(tasks: theia.Task[], execution: CompositeExecution): Promise<number> {
+    for (const task of tasks) {
+      if (execution.terminated) {
+        return GENERAL_ERROR_EXIT_CODE;
+      }
+
+      const code = await this.runSubTask(task, execution);
+      if (code !== SUCCESS_EXIT_CODE) {
+        return code;
+      }
+    }
+    return SUCCESS_EXIT_CODE;
+  }
+
+  private runInParallel(tasks: theia.Task[], execution: CompositeExecution): Promise<number> {
+    return new Promise<number>(resolve => {
+      let running = tasks.length;
+      let failed = false;
+      for (const task of tasks) {
+        this.runSubTask(task, execution)
+          .catch(error => {
+            this.reportError(`Failed to run the task '${task.name}'`, error);
+            return GENERAL_ERROR_EXIT_CODE;
+          })
+          .then(code => {
+            running--;
+            if (code !== SUCCESS_EXIT_CODE && !failed) {
+              failed = true;
+              this.terminate(execution);
+              resolve(code);
+            } else if (running === 0) {
+              resolve(execution.terminated ? GENERAL_ERROR_EXIT_CODE : SUCCESS_EXIT_CODE);
+            }
+          });
+      }
+    });
+  }
+
+  /** Runs the given task and returns its exit code when the process of this run of the task is finished. */
+  private runSubTask(task: theia.Task, execution: CompositeExecution): Promise<number> {
+    const label = task.name;
+    const runId = `${++this.lastSubTaskRunId}`;
+    task.definition = { ...task.definition, [SUB_TASK_RUN_ID]: runId };
+
+    return new Promise<number>(resolve => {
+      let processId: number | undefined;
+      this.startingSubTasks.set(runId, id => (processId = id));
+
+      const disposable = che.task.onDidEndTask((event: che.TaskExitedEvent) => {
+        if (processId === undefined || event.processId !== processId) {
+          return;
+        }
+
+        disposable.dispose();
+        execution.running.delete(runId);
+        resolve(event.code === undefined ? GENERAL_ERROR_EXIT_CODE : event.code);
+      });
+
+      theia.tasks.executeTask(task).then(
+        taskExecution => {
+          if (execution.terminated) {
+            taskExecution.terminate();
+          } else {
+            execution.running.set(runId, taskExecution);
+          }
+        },
+        error => {
+          this.reportError(`Failed to run the task '${label}'`, error);
+          this.startingSubTasks.delete(runId);
+          disposable.dispose();
+          resolve(GENERAL_ERROR_EXIT_CODE);
+        }
+      );
+    });
+  }
+
+  private terminate(execution: CompositeExecution): void {
+    execution.terminated = true;
+    execution.running.forEach(taskExecution => taskExecution.terminate());
+    execution.running.clear();
+  }
+
+  private reportError(message: string, error: Error): void {
+    startPoint.getOutputChannel().appendLine(`${message}: ${error.message || error}`);
+  }
+}
+
+/** Quotes the given value to pass it to the shell as a single argument. */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
@@ -10,7 +10,19 @@
 
 import * as che from '@eclipse-che/plugin';
 
-import { CHE_TASK_TYPE, PREVIEW_URL_ATTRIBUTE } from './task-protocol';
+import {
+  CHE_TASK_TYPE,
+  CommandGroup,
+  DEPENDS_ON_ATTRIBUTE,
+  DEPENDS_ORDER_ATTRIBUTE,
+  DependsOn,
+  DependsOrder,
+  Env,
+  PREVIEW_URL_ATTRIBUTE,
+  PROBLEM_MATCHER_ATTRIBUTE,
+  ProblemMatcher,
+  TaskGroup,
+} from './task-protocol';
 
 import { TaskConfiguration } from '@eclipse-che/plugin';
 import { getAttribute } from '../utils';
@@ -26,13 +38,143 @@ export function toTaskConfiguration(command: che.devfile.DevfileCommand): TaskCo
       workingDir: command.exec?.workingDir,
       component: command.exec?.component,
     },
+    env: toEnv(command.exec?.env),
+    group: toTaskGroup(command.exec?.group),
+    commandGroup: toCommandGroup(command.exec?.group),
+    previewUrl: getAttribute(PREVIEW_URL_ATTRIBUTE, command.attributes),
+    problemMatcher: toProblemMatchers(getAttribute(PROBLEM_MATCHER_ATTRIBUTE, command.attributes)),
+    dependsOn: toDependsOn(getAttribute(DEPENDS_ON_ATTRIBUTE, command.attributes)),
+    dependsOrder: toDependsOrder(getAttribute(DEPENDS_ORDER_ATTRIBUTE, command.attributes)),
+  };
+
+  return taskConfig;
+}
+
+/**
+ * Converts the Che composite command to Theia Task Configuration.
+ * The target component of the first exec sub-command is used as the target of the composite task.
+ */
+export function toCompositeTaskConfiguration(
+  command: che.devfile.DevfileCommand,
+  commands: che.devfile.DevfileCommand[]
+): TaskConfiguration {
+  const subCommands = command.composite?.commands || [];
+  const firstExecCommand = subCommands
+    .map(id => commands.find(cmd => cmd.id === id))
+    .find(cmd => cmd !== undefined && cmd.exec !== undefined);
+
+  const taskConfig: TaskConfiguration = {
+    type: CHE_TASK_TYPE,
+    label: command.id,
+    _scope: '', // not to put into tasks.json
+    target: {
+      component: firstExecCommand?.exec?.component,
+    },
+    composite: {
+      commands: subCommands,
+      parallel: !!command.composite?.parallel,
+    },
+    group: toTaskGroup(command.composite?.group),
+    commandGroup: toCommandGroup(command.composite?.group),
     previewUrl: getAttribute(PREVIEW_URL_ATTRIBUTE, command.attributes),
     problemMatcher: [],
+    dependsOn: toDependsOn(getAttribute(DEPENDS_ON_ATTRIBUTE, command.attributes)),
+    dependsOrder: toDependsOrder(getAttribute(DEPENDS_ORDER_ATTRIBUTE, command.attributes)),
   };
 
   return taskConfig;
 }
 
+/** Converts the devfile environment variables to the `name -> value` map, returns `undefined` if there are no variables */
+export function toEnv(env?: che.devfile.DevfileComponentEnv[]): Env | undefined {
+  if (!env || env.length === 0) {
+    return undefined;
+  }
+
+  const result: Env = {};
+  for (const variable of env) {
+    result[variable.name] = variable.value;
+  }
+  return result;
+}
+
+/**
+ * Converts the devfile command group to the task group.
+ * Theia tasks support the `build` and `test` groups only, so `undefined` is returned for the other kinds,
+ * their kind is carried by the command group of the task.
+ */
+export function toTaskGroup(group?: che.devfile.DevfileCommandGroup): TaskGroup | undefined {
+  if (!group || (group.kind !== 'build' && group.kind !== 'test')) {
+    return undefined;
+  }
+
+  return group.isDefault ? { kind: group.kind, isDefault: true } : group.kind;
+}
+
+/** Converts the devfile command group to the command group of the task, whatever its kind. */
+export function toCommandGroup(group?: che.devfile.DevfileCommandGroup): CommandGroup | undefined {
+  return group ? { kind: group.kind, isDefault: !!group.isDefault } : undefined;
+}
+
+/**
+ * Converts the `problemMatcher` attribute of a devfile command to the problem matchers of the task.
+ * The attribute contains either comma separated names of the matchers, like `$tsc,$eslint-stylish`,
+ * or JSON with an inline definition of a matcher or with an array of the matchers.
+ */
+export function toProblemMatchers(attribute?: string): ProblemMatcher[] {
+  const value = attribute ? attribute.trim() : '';
+  if (!value) {
+    return [];
+  }
+
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      const matchers = JSON.parse(value);
+      return Array.isArray(matchers) ? matchers : [matchers];
+    } catch (error) {
+      console.error(`Failed to parse the problem matchers ${value}:`, error);
+      return [];
+    }
+  }
+
+  return value
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+}
+
+/**
+ * Converts the `dependsOn` attribute of a devfile command to the tasks which have to be run before the task.
+ * The attribute contains either comma separated labels of the tasks or JSON with a task identifier,
+ * like `{"type": "npm", "script": "build"}`, or with an array of the labels and the task identifiers.
+ */
+export function toDependsOn(attribute?: string): DependsOn | undefined {
+  const value = attribute ? attribute.trim() : '';
+  if (!value) {
+    return undefined;
+  }
+
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      console.error(`Failed to parse the task dependencies ${value}:`, error);
+      return undefined;
+    }
+  }
+
+  const labels = value
+    .split(',')
+    .map(label => label.trim())
+    .filter(label => label.length > 0);
+  return labels.length === 1 ? labels[0] : labels;
+}
+
+/** Converts the `dependsOrder` attribute of a devfile command, the dependencies are run in parallel by default. */
+export function toDependsOrder(attribute?: string): DependsOrder | undefined {
+  return attribute === 'sequence' || attribute === 'parallel' ? attribute : undefined;
+}
+
 export function getCommandAttribute(command: che.devfile.DevfileCommand, attrName: string): string | undefined {
   if (!command.attributes) {
     return undefined;
@@ -13,15 +13,70 @@ import { TaskDefinition } from '@theia/plugin';
 export const CHE_TASK_TYPE: string = 'che';
 export const MACHINE_NAME_ATTRIBUTE: string = 'machineName';
 export const PREVIEW_URL_ATTRIBUTE: string = 'previewUrl';
+export const PROBLEM_MATCHER_ATTRIBUTE: string = 'problemMatcher';
+export const DEPENDS_ON_ATTRIBUTE: string = 'dependsOn';
+export const DEPENDS_ORDER_ATTRIBUTE: string = 'dependsOrder';
+
+// CHE task gets ID at creating in che task service
+// https://github.com/eclipse-che/che-theia/blob/c515f75044f9099820c3b18afb8de83f263d671a/extensions/eclipse-che-theia-plugin-ext/src/node/che-task-service.ts#L89
+export const STUB_TASK_ID: number = -1;
 
 export interface CheTaskDefinition extends TaskDefinition {
   readonly target?: Target;
   readonly previewUrl?: string;
+  readonly composite?: Composite;
+  readonly env?: Env;
+  readonly commandGroup?: CommandGroup;
+  /** Identifier of the run of a sub-task by a composite task */
+  readonly compositeRunId?: string;
+}
+
+/**
+ * Group of a task, the default task of the group can be run with a dedicated command, like `Run Build Task`.
+ */
+export type TaskGroup = 'build' | 'test' | { kind: 'build' | 'test'; isDefault: true };
+
+/**
+ * Group of the devfile command, kept in the task definition since there are no task groups for the `run` and `debug` kinds.
+ */
+export interface CommandGroup {
+  kind: 'build' | 'run' | 'test' | 'debug';
+  isDefault: boolean;
 }
 
+/** Environment variables to set for the task process, by the variable name */
+export interface Env {
+  [name: string]: string;
+}
+
+/**
+ * Problem matcher of a task: the name of a registered matcher, like `$tsc`, or an inline definition of a matcher.
+ */
+export type ProblemMatcher = string | { [property: string]: unknown };
+
+/** Identifies a task of any type by the task type and the properties of the task definition, like the label. */
+export interface TaskIdentifier {
+  type: string;
+  [property: string]: string;
+}
+
+/** Tasks which have to be run before a task: the labels of the tasks or the task identifiers */
+export type DependsOn = string | TaskIdentifier | (string | TaskIdentifier)[];
+
+/** Whether the tasks a task depends on are run one by one or all at once */
+export type DependsOrder = 'sequence' | 'parallel';
+
 export interface Target {
   workspaceId?: string;
   containerName?: string;
   workingDir?: string;
   component?: string;
 }
+
+/** Describes a Che task which runs other Che tasks sequentially or in parallel. */
+export interface Composite {
+  /** labels of the tasks to run */
+  commands: string[];
+  /** whether the tasks should be run all at once instead of one by one */
+  parallel?: boolean;
+}
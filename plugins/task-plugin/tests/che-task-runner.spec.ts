@@ -0,0 +1,219 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import * as che from '@eclipse-che/plugin';
+import * as theia from '@theia/plugin';
+
+import { CheTaskRunner } from '../src/task/che-task-runner';
+import { CompositeTaskRunner } from '../src/task/composite-task-runner';
+import { Container } from 'inversify';
+import { MachineExecClient } from '../src/machine/machine-exec-client';
+import { MachineExecWatcher } from '../src/machine/machine-exec-watcher';
+import { ProjectPathVariableResolver } from '../src/variable/project-path-variable-resolver';
+import { TaskOutputRecorder } from '../src/history/task-output-recorder';
+
+jest.mock('../src/task-plugin-backend', () => ({ getSubscriptions: () => [] }));
+
+describe('Test Che task runner', () => {
+  const fireTaskExitedSpy = jest.spyOn(che.task, 'fireTaskExited');
+  const fireTaskOutputSpy = jest.spyOn(che.task, 'fireTaskOutput');
+  const getConfigurationSpy = jest.spyOn(theia.workspace, 'getConfiguration');
+
+  const killMock = jest.fn();
+  const getExecIdMock = jest.fn();
+  const attachMock = jest.fn();
+  const detachMock = jest.fn();
+
+  let machineExecWatcher: MachineExecWatcher;
+  let cheTaskRunner: CheTaskRunner;
+
+  function taskInfo(execId: number): che.TaskInfo {
+    return {
+      taskId: 1,
+      execId,
+      config: { type: 'che', label: 'build', _scope: '', target: { containerName: 'maven' } },
+    };
+  }
+
+  function setGracePeriod(gracePeriod: number | undefined): void {
+    getConfigurationSpy.mockReturnValue({ get: () => gracePeriod } as any);
+  }
+
+  /** Runs the pending promise callbacks, so the runner goes on to wait for the next timeout. */
+  async function flushPromises(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.resetAllMocks();
+    jest.useFakeTimers();
+
+    killMock.mockResolvedValue(undefined);
+    getExecIdMock.mockResolvedValue(7);
+    attachMock.mockResolvedValue({ dispose: detachMock });
+    setGracePeriod(undefined);
+
+    const container = new Container();
+    container.bind(CheTaskRunner).toSelf().inSingletonScope();
+    container.bind(MachineExecWatcher).toSelf().inSingletonScope();
+    container
+      .bind(MachineExecClient)
+      .toConstantValue({ kill: killMock, getExecId: getExecIdMock, attach: attachMock } as any);
+    container.bind(CompositeTaskRunner).toConstantValue({ onTaskStarted: jest.fn() } as any);
+    container.bind(ProjectPathVariableResolver).toConstantValue({} as any);
+    container.bind(TaskOutputRecorder).toConstantValue({ prepare: async () => undefined } as any);
+    machineExecWatcher = container.get(MachineExecWatcher);
+    cheTaskRunner = container.get(CheTaskRunner);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('sends SIGTERM and does not kill the process exiting within the grace period', async () => {
+    const kill = cheTaskRunner.kill(taskInfo(7));
+    await flushPromises();
+    expect(killMock).toBeCalledWith(7, 'SIGTERM');
+
+    jest.advanceTimersByTime(4000);
+    machineExecWatcher.exitEmitter.fire({ id: 7, code: 143 });
+    await kill;
+
+    expect(killMock).toBeCalledTimes(1);
+    expect(fireTaskExitedSpy).toBeCalledTimes(1);
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: 7, code: 143, processId: 7 });
+  });
+
+  test('sends SIGKILL when the process is still running after the default grace period', async () => {
+    const kill = cheTaskRunner.kill(taskInfo(7));
+    await flushPromises();
+
+    jest.advanceTimersByTime(4999);
+    await flushPromises();
+    expect(killMock).toBeCalledTimes(1);
+
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    expect(killMock).toBeCalledTimes(2);
+    expect(killMock).lastCalledWith(7, 'SIGKILL');
+
+    machineExecWatcher.exitEmitter.fire({ id: 7, code: 137 });
+    await kill;
+    expect(fireTaskExitedSpy).toBeCalledTimes(1);
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: 7, code: 137, processId: 7 });
+  });
+
+  test('waits for the configured grace period before sending SIGKILL', async () => {
+    setGracePeriod(1);
+    cheTaskRunner.kill(taskInfo(7));
+    await flushPromises();
+
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+    expect(getConfigurationSpy).toBeCalledWith('che');
+    expect(killMock).toBeCalledTimes(2);
+    expect(killMock).lastCalledWith(7, 'SIGKILL');
+  });
+
+  test('reports the exit code 137 when machine-exec does not notify about the exit of the killed process', async () => {
+    setGracePeriod(0);
+    const kill = cheTaskRunner.kill(taskInfo(7));
+    await flushPromises();
+    jest.advanceTimersByTime(0);
+    await flushPromises();
+    expect(killMock).lastCalledWith(7, 'SIGKILL');
+
+    jest.advanceTimersByTime(3000);
+    await kill;
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: 7, code: 137, processId: 7 });
+
+    // the late notification doesn't report the exit once more
+    machineExecWatcher.exitEmitter.fire({ id: 7, code: 137 });
+    expect(fireTaskExitedSpy).toBeCalledTimes(1);
+
+    // but the next processes with the same id are reported
+    machineExecWatcher.exitEmitter.fire({ id: 7, code: 0 });
+    expect(fireTaskExitedSpy).toBeCalledTimes(2);
+  });
+
+  test('forgets the killed process when machine-exec never notifies about its exit', async () => {
+    setGracePeriod(0);
+    const kill = cheTaskRunner.kill(taskInfo(7));
+    await flushPromises();
+    jest.advanceTimersByTime(0);
+    await flushPromises();
+    jest.advanceTimersByTime(3000);
+    await kill;
+    expect(fireTaskExitedSpy).toBeCalledTimes(1);
+
+    jest.advanceTimersByTime(3000);
+    machineExecWatcher.exitEmitter.fire({ id: 7, code: 0 });
+    expect(fireTaskExitedSpy).toBeCalledTimes(2);
+    expect(fireTaskExitedSpy).lastCalledWith({ execId: 7, code: 0, processId: 7 });
+  });
+
+  test('fails when the signal cannot be sent', async () => {
+    killMock.mockRejectedValue(new Error('exec not found'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(cheTaskRunner.kill(taskInfo(7))).rejects.toThrow(
+      'Failed to terminate Che command: build: exec not found'
+    );
+    expect(fireTaskExitedSpy).not.toBeCalled();
+  });
+
+  test('forwards the output of the task with problem matchers until the task exits', async () => {
+    const config = { ...taskInfo(7).config, command: 'tsc', problemMatcher: ['$tsc'] };
+
+    const runTaskInfo = await cheTaskRunner.run(config);
+    expect(runTaskInfo.execId).toBe(7);
+    expect(attachMock.mock.calls[0][0]).toBe(7);
+
+    const handler = attachMock.mock.calls[0][1];
+    handler.onMessage('src/index.ts(1,7): error TS2322\n');
+    expect(fireTaskOutputSpy).toBeCalledWith({ execId: 7, output: 'src/index.ts(1,7): error TS2322\n' });
+
+    await flushPromises();
+    machineExecWatcher.exitEmitter.fire({ id: 7, code: 2 });
+    await flushPromises();
+    expect(detachMock).toBeCalled();
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: 7, code: 2, processId: 7 });
+  });
+
+  test('does not forward the output of the task without problem matchers', async () => {
+    await cheTaskRunner.run({ ...taskInfo(7).config, command: 'tsc', problemMatcher: [] });
+
+    expect(attachMock).not.toBeCalled();
+  });
+
+  test('runs the task when it cannot attach to the output of the task', async () => {
+    attachMock.mockRejectedValue(new Error('connection refused'));
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const runTaskInfo = await cheTaskRunner.run({ ...taskInfo(7).config, command: 'tsc', problemMatcher: '$tsc' });
+    await flushPromises();
+
+    expect(runTaskInfo.execId).toBe(7);
+    expect(consoleErrorSpy).toBeCalledWith(
+      "Failed to scan the output of the task 'build' for problems:",
+      new Error('connection refused')
+    );
+    // the exit listener is disposed as well
+    machineExecWatcher.exitEmitter.fire({ id: 7, code: 0 });
+    expect(detachMock).not.toBeCalled();
+  });
+});
@@ -0,0 +1,213 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import * as che from '@eclipse-che/plugin';
+import * as theia from '@theia/plugin';
+
+import { CheTaskProvider } from '../src/task/che-task-provider';
+import { CheWorkspaceClient } from '../src/che-workspace-client';
+import { CompositeTaskRunner } from '../src/task/composite-task-runner';
+import { Container } from 'inversify';
+import { MachineExecClient } from '../src/machine/machine-exec-client';
+import { MachinesPicker } from '../src/machine/machines-picker';
+
+const appendLineMock = jest.fn();
+jest.mock('../src/task-plugin-backend', () => ({ getOutputChannel: () => ({ appendLine: appendLineMock }) }));
+
+describe('Test composite task runner', () => {
+  const fetchTasksSpy = jest.spyOn(theia.tasks, 'fetchTasks');
+  const executeTaskSpy = jest.spyOn(theia.tasks, 'executeTask');
+  const onDidEndTaskSpy = jest.spyOn(che.task, 'onDidEndTask');
+  const fireTaskExitedSpy = jest.spyOn(che.task, 'fireTaskExited');
+
+  const getExecIdMock = jest.fn();
+  const terminateMock = jest.fn();
+
+  let endTaskListeners: ((event: che.TaskExitedEvent) => void)[];
+  /** process ids of the started sub-tasks, in the order of the start */
+  let startedProcesses: { label: string; processId: number }[];
+  let lastProcessId: number;
+  let compositeTaskRunner: CompositeTaskRunner;
+  let cheTaskProvider: CheTaskProvider;
+
+  function taskConfig(parallel: boolean): che.TaskConfiguration {
+    return {
+      type: 'che',
+      label: 'build-and-test',
+      _scope: '',
+      target: { containerName: 'maven', workspaceId: 'workspace123' },
+      composite: { commands: ['build', 'test'], parallel },
+    };
+  }
+
+  function endTask(label: string, code: number): void {
+    const index = startedProcesses.findIndex(process => process.label === label);
+    const processId = startedProcesses.splice(index, 1)[0].processId;
+    endTaskListeners.forEach(listener => listener({ code, processId, config: { type: 'che', label, _scope: '' } }));
+  }
+
+  function flushPromises(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.resetAllMocks();
+
+    endTaskListeners = [];
+    onDidEndTaskSpy.mockImplementation((listener: any) => {
+      endTaskListeners.push(listener);
+      return {
+        dispose: () => {
+          endTaskListeners = endTaskListeners.filter(l => l !== listener);
+        },
+      } as any;
+    });
+    startedProcesses = [];
+    lastProcessId = 100;
+    fetchTasksSpy.mockImplementation(async () => [
+      { name: 'build', definition: { type: 'che' } },
+      { name: 'test', definition: { type: 'che' } },
+    ]);
+    // the Che task runner is called back when the sub-task is started
+    executeTaskSpy.mockImplementation(async (task: any) => {
+      const processId = ++lastProcessId;
+      startedProcesses.push({ label: task.name, processId });
+      compositeTaskRunner.onTaskStarted({ ...task.definition, label: task.name }, { terminalId: processId } as any);
+      return { terminate: terminateMock } as any;
+    });
+    getExecIdMock.mockResolvedValue(5);
+
+    const container = new Container();
+    container.bind(CompositeTaskRunner).toSelf().inSingletonScope();
+    container.bind(MachineExecClient).toConstantValue({ getExecId: getExecIdMock } as any);
+    container.bind(CheTaskProvider).toSelf().inSingletonScope();
+    container.bind(CheWorkspaceClient).toConstantValue({ getWorkspaceId: async () => 'workspace123' } as any);
+    container.bind(MachinesPicker).toConstantValue({ pick: async () => 'maven' } as any);
+    compositeTaskRunner = container.get(CompositeTaskRunner);
+    cheTaskProvider = container.get(CheTaskProvider);
+  });
+
+  test('runs tasks sequentially and stops at the first failure', async () => {
+    const taskInfo = await compositeTaskRunner.run(taskConfig(false));
+    expect(taskInfo.terminalId).toBe(5);
+    expect(getExecIdMock.mock.calls[0][0].identifier.machineName).toBe('maven');
+
+    await flushPromises();
+    expect(executeTaskSpy).toBeCalledTimes(1);
+    expect(executeTaskSpy.mock.calls[0][0].name).toBe('build');
+
+    endTask('build', 0);
+    await flushPromises();
+    expect(executeTaskSpy).toBeCalledTimes(2);
+    expect(executeTaskSpy.mock.calls[1][0].name).toBe('test');
+
+    endTask('test', 2);
+    await flushPromises();
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: taskInfo.execId, code: 2, processId: 5 });
+  });
+
+  test('runs tasks in parallel and terminates the rest at the first failure', async () => {
+    const taskInfo = await compositeTaskRunner.run(taskConfig(true));
+
+    await flushPromises();
+    expect(executeTaskSpy).toBeCalledTimes(2);
+
+    endTask('build', 1);
+    await flushPromises();
+    expect(terminateMock).toBeCalledTimes(1);
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: taskInfo.execId, code: 1, processId: 5 });
+  });
+
+  test('reports success when all the tasks succeed', async () => {
+    const taskInfo = await compositeTaskRunner.run(taskConfig(true));
+
+    await flushPromises();
+    endTask('test', 0);
+    endTask('build', 0);
+    await flushPromises();
+    expect(terminateMock).not.toBeCalled();
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: taskInfo.execId, code: 0, processId: 5 });
+  });
+
+  test('tells apart the runs of the same task by the composite tasks running at the same time', async () => {
+    const firstTaskInfo = await compositeTaskRunner.run(taskConfig(false));
+    const secondTaskInfo = await compositeTaskRunner.run(taskConfig(false));
+
+    await flushPromises();
+    expect(executeTaskSpy).toBeCalledTimes(2);
+
+    // the 'build' task of the second composite task fails
+    const [firstBuild, secondBuild] = startedProcesses;
+    endTaskListeners.forEach(listener =>
+      listener({ code: 1, processId: secondBuild.processId, config: { type: 'che', label: 'build', _scope: '' } })
+    );
+    await flushPromises();
+    expect(fireTaskExitedSpy).toBeCalledTimes(1);
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: secondTaskInfo.execId, code: 1, processId: 5 });
+
+    // the first composite task goes on
+    endTaskListeners.forEach(listener =>
+      listener({ code: 0, processId: firstBuild.processId, config: { type: 'che', label: 'build', _scope: '' } })
+    );
+    await flushPromises();
+    expect(executeTaskSpy).toBeCalledTimes(3);
+    expect(executeTaskSpy.mock.calls[2][0].name).toBe('test');
+    expect(fireTaskExitedSpy).not.toBeCalledWith(expect.objectContaining({ execId: firstTaskInfo.execId }));
+  });
+
+  test('runs the sub-tasks resolved by the Che task provider', async () => {
+    // the started task is told with the definition resolved by the provider, as by the Che task runner
+    executeTaskSpy.mockImplementation(async (task: any) => {
+      const resolvedTask = await cheTaskProvider.resolveTask(task);
+      const processId = ++lastProcessId;
+      startedProcesses.push({ label: task.name, processId });
+      compositeTaskRunner.onTaskStarted(
+        { ...resolvedTask.definition, label: task.name } as any,
+        {
+          terminalId: processId,
+        } as any
+      );
+      return { terminate: terminateMock } as any;
+    });
+
+    const taskInfo = await compositeTaskRunner.run(taskConfig(false));
+    await flushPromises();
+    endTask('build', 0);
+    await flushPromises();
+    expect(executeTaskSpy).toBeCalledTimes(2);
+
+    endTask('test', 0);
+    await flushPromises();
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: taskInfo.execId, code: 0, processId: 5 });
+  });
+
+  test('fails the sub-task when it cannot be run', async () => {
+    executeTaskSpy.mockRejectedValue(new Error('no terminal'));
+
+    const taskInfo = await compositeTaskRunner.run(taskConfig(false));
+    await flushPromises();
+    expect(appendLineMock).toBeCalledWith("Failed to run the task 'build': no terminal");
+    expect(fireTaskExitedSpy).toBeCalledWith({ execId: taskInfo.execId, code: 1, processId: 5 });
+  });
+
+  test('fails when a task is not found', async () => {
+    fetchTasksSpy.mockResolvedValue([{ name: 'build', definition: { type: 'che' } }] as any);
+
+    await expect(compositeTaskRunner.run(taskConfig(false))).rejects.toThrow(
+      "Task 'test' of the composite Che task 'build-and-test' is not found"
+    );
+    expect(getExecIdMock).not.toBeCalled();
+  });
+});
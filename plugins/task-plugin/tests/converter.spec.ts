@@ -0,0 +1,117 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+import * as che from '@eclipse-che/plugin';
+
+import {
+  toCommandGroup,
+  toCompositeTaskConfiguration,
+  toDependsOn,
+  toDependsOrder,
+  toProblemMatchers,
+  toTaskConfiguration,
+  toTaskGroup,
+} from '../src/task/converter';
+
+describe('Test converting of the devfile commands to task configurations', () => {
+  const buildCommand: che.devfile.DevfileCommand = {
+    id: 'build',
+    exec: {
+      component: 'maven',
+      commandLine: 'mvn clean install',
+      workingDir: '${PROJECTS_ROOT}/spring-petclinic',
+      group: { kind: 'build', isDefault: true },
+      env: [
+        { name: 'MAVEN_OPTS', value: '-Xmx200m' },
+        { name: 'PROJECT', value: '${CHE_PROJECTS_ROOT}/spring-petclinic' },
+      ],
+    },
+    attributes: { problemMatcher: '$maven' },
+  };
+
+  test('exec command', () => {
+    const config = toTaskConfiguration(buildCommand);
+
+    expect(config.type).toBe('che');
+    expect(config.label).toBe('build');
+    expect(config.command).toBe('mvn clean install');
+    expect(config.target).toEqual({ component: 'maven', workingDir: '${PROJECTS_ROOT}/spring-petclinic' });
+    expect(config.env).toEqual({ MAVEN_OPTS: '-Xmx200m', PROJECT: '${CHE_PROJECTS_ROOT}/spring-petclinic' });
+    expect(config.group).toEqual({ kind: 'build', isDefault: true });
+    expect(config.commandGroup).toEqual({ kind: 'build', isDefault: true });
+    expect(config.problemMatcher).toEqual(['$maven']);
+  });
+
+  test('exec command without env', () => {
+    const config = toTaskConfiguration({ id: 'run', exec: { component: 'maven', commandLine: 'java -jar app.jar' } });
+
+    expect(config.env).toBeUndefined();
+    expect(config.problemMatcher).toEqual([]);
+  });
+
+  test('problem matchers', () => {
+    expect(toProblemMatchers('$tsc, $eslint-stylish')).toEqual(['$tsc', '$eslint-stylish']);
+    expect(toProblemMatchers('{"base": "$gcc", "fileLocation": "absolute"}')).toEqual([
+      { base: '$gcc', fileLocation: 'absolute' },
+    ]);
+    expect(toProblemMatchers('["$tsc", {"base": "$gcc"}]')).toEqual(['$tsc', { base: '$gcc' }]);
+    expect(toProblemMatchers(' ')).toEqual([]);
+    expect(toProblemMatchers(undefined)).toEqual([]);
+  });
+
+  test('command groups', () => {
+    expect(toTaskGroup({ kind: 'test' })).toBe('test');
+    expect(toTaskGroup({ kind: 'test', isDefault: false })).toBe('test');
+    expect(toTaskGroup({ kind: 'test', isDefault: true })).toEqual({ kind: 'test', isDefault: true });
+    expect(toTaskGroup({ kind: 'run', isDefault: true })).toBeUndefined();
+    expect(toTaskGroup({ kind: 'debug' })).toBeUndefined();
+    expect(toTaskGroup(undefined)).toBeUndefined();
+    // the kinds without a task group are carried by the command group
+    expect(toCommandGroup({ kind: 'run', isDefault: true })).toEqual({ kind: 'run', isDefault: true });
+    expect(toCommandGroup({ kind: 'debug' })).toEqual({ kind: 'debug', isDefault: false });
+    expect(toCommandGroup(undefined)).toBeUndefined();
+  });
+
+  test('task dependencies', () => {
+    const config = toTaskConfiguration({
+      id: 'run',
+      exec: { component: 'maven', commandLine: 'java -jar app.jar' },
+      attributes: { dependsOn: 'clean, build', dependsOrder: 'sequence' },
+    });
+
+    expect(config.dependsOn).toEqual(['clean', 'build']);
+    expect(config.dependsOrder).toBe('sequence');
+
+    expect(toDependsOn('build')).toBe('build');
+    expect(toDependsOn('{"type": "npm", "script": "build"}')).toEqual({ type: 'npm', script: 'build' });
+    expect(toDependsOn('["build", {"type": "npm", "script": "lint"}]')).toEqual([
+      'build',
+      { type: 'npm', script: 'lint' },
+    ]);
+    expect(toDependsOn(undefined)).toBeUndefined();
+    expect(toDependsOrder('parallel')).toBe('parallel');
+    expect(toDependsOrder('random')).toBeUndefined();
+  });
+
+  test('composite command', () => {
+    const compositeCommand: che.devfile.DevfileCommand = {
+      id: 'build-and-run',
+      composite: { commands: ['build', 'run'], parallel: true, group: { kind: 'run' } },
+    };
+
+    const config = toCompositeTaskConfiguration(compositeCommand, [buildCommand, compositeCommand]);
+
+    expect(config.label).toBe('build-and-run');
+    expect(config.target).toEqual({ component: 'maven' });
+    expect(config.composite).toEqual({ commands: ['build', 'run'], parallel: true });
+    expect(config.group).toBeUndefined();
+    expect(config.commandGroup).toEqual({ kind: 'run', isDefault: false });
+  });
+});
@@ -0,0 +1,110 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import * as che from '@eclipse-che/plugin';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CheTaskConfigsExtractor } from '../src/extract/che-task-configs-extractor';
+import { CheWorkspaceClient } from '../src/che-workspace-client';
+import { ConfigFileLaunchConfigsExtractor } from '../src/extract/config-file-launch-configs-extractor';
+import { Container } from 'inversify';
+import { LaunchConfigurationsExporter } from '../src/export/launch-configs-exporter';
+import { VsCodeLaunchConfigsExtractor } from '../src/extract/vscode-launch-configs-extractor';
+
+jest.mock('../src/task-plugin-backend', () => ({ getSubscriptions: () => [] }));
+
+describe('Test exporting of the launch configurations', () => {
+  const getComponentStatusesMock = jest.fn();
+
+  let workspaceFolderPath: string;
+  let cheTaskConfigsExtractor: CheTaskConfigsExtractor;
+  let launchConfigurationsExporter: LaunchConfigurationsExporter;
+
+  const commands: che.devfile.DevfileCommand[] = [
+    { id: 'build', exec: { component: 'maven', commandLine: 'mvn package' } },
+    { id: 'cleanup', exec: { component: 'tools', commandLine: 'rm -rf target' } },
+    {
+      id: 'launch',
+      vscodeLaunch: {
+        inline: JSON.stringify({
+          version: '0.2.0',
+          configurations: [
+            { type: 'java', name: 'Debug', request: 'attach', preLaunchTask: 'build', postDebugTask: 'cleanup' },
+          ],
+        }),
+      },
+    },
+  ];
+
+  /** Finds the task like Theia does for a task identifier: all the properties of the identifier must match. */
+  function resolveTask(identifier: { [key: string]: string }): che.TaskConfiguration | undefined {
+    const tasks = cheTaskConfigsExtractor.extract(commands);
+    return tasks.find(task => Object.keys(identifier).every(property => task[property] === identifier[property]));
+  }
+
+  async function exportLaunchConfigs(): Promise<any[]> {
+    await launchConfigurationsExporter.doExport({ uri: { path: workspaceFolderPath } } as any, commands);
+    const content = await fs.readFile(path.join(workspaceFolderPath, '.theia', 'launch.json'), 'utf8');
+    return JSON.parse(content).configurations;
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    workspaceFolderPath = await fs.mkdtemp(path.join(os.tmpdir(), 'launch-configs-'));
+    await fs.outputFile(path.join(workspaceFolderPath, '.theia', 'launch.json'), '{ "configurations": [] }');
+    getComponentStatusesMock.mockResolvedValue([{ name: 'maven' }, { name: 'tools' }]);
+
+    const container = new Container();
+    container.bind(LaunchConfigurationsExporter).toSelf().inSingletonScope();
+    container.bind(CheTaskConfigsExtractor).toSelf().inSingletonScope();
+    container.bind(ConfigFileLaunchConfigsExtractor).toSelf().inSingletonScope();
+    container.bind(VsCodeLaunchConfigsExtractor).toSelf().inSingletonScope();
+    container.bind(CheWorkspaceClient).toConstantValue({ getComponentStatuses: getComponentStatusesMock } as any);
+    cheTaskConfigsExtractor = container.get(CheTaskConfigsExtractor);
+    launchConfigurationsExporter = container.get(LaunchConfigurationsExporter);
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspaceFolderPath);
+  });
+
+  test('exported task references are resolved to the Che tasks of the target containers', async () => {
+    const [launchConfig] = await exportLaunchConfigs();
+
+    expect(launchConfig.preLaunchTask).toEqual({ type: 'che', label: 'build' });
+    expect(launchConfig.postDebugTask).toEqual({ type: 'che', label: 'cleanup' });
+
+    const preLaunchTask = resolveTask(launchConfig.preLaunchTask);
+    expect(preLaunchTask).toBeDefined();
+    expect(preLaunchTask!.command).toBe('mvn package');
+    expect(preLaunchTask!.target.component).toBe('maven');
+
+    const postDebugTask = resolveTask(launchConfig.postDebugTask);
+    expect(postDebugTask).toBeDefined();
+    expect(postDebugTask!.target.component).toBe('tools');
+  });
+
+  test('keeps the label of a Che task when its container is not found', async () => {
+    getComponentStatusesMock.mockResolvedValue([{ name: 'maven' }]);
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const [launchConfig] = await exportLaunchConfigs();
+
+    expect(launchConfig.preLaunchTask).toEqual({ type: 'che', label: 'build' });
+    expect(launchConfig.postDebugTask).toBe('cleanup');
+    expect(consoleWarnSpy).toBeCalledWith("Container 'tools' of the Che task 'cleanup' is not found in the workspace");
+  });
+});
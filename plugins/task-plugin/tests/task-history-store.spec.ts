@@ -0,0 +1,88 @@
+/**********************************************************************
+ * Copyright (c) 2022 Red Hat, Inc.
+ *
+ * This program and the accompanying materials are made
+ * available under the terms of the Eclipse Public License 2.0
+ * which is available at https://www.eclipse.org/legal/epl-2.0/
+ *
+ * SPDX-License-Identifier: EPL-2.0
+ ***********************************************************************/
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import 'reflect-metadata';
+
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as theia from '@theia/plugin';
+
+import { TaskHistoryStore, TaskRunRecord } from '../src/history/task-history-store';
+
+describe('Test task history store', () => {
+  const getConfigurationSpy = jest.spyOn(theia.workspace, 'getConfiguration');
+
+  let projectsRoot: string;
+  let taskHistoryStore: TaskHistoryStore;
+
+  function record(startTime: number, exitCode: number): TaskRunRecord {
+    return {
+      id: `${startTime}-1`,
+      label: 'build',
+      config: { type: 'che', label: 'build', _scope: '' },
+      container: 'maven',
+      startTime,
+      endTime: startTime + 1000,
+      exitCode,
+    };
+  }
+
+  beforeEach(async () => {
+    projectsRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'task-history-'));
+    process.env['PROJECTS_ROOT'] = projectsRoot;
+    getConfigurationSpy.mockReturnValue({ get: () => 2 } as any);
+
+    taskHistoryStore = new TaskHistoryStore();
+  });
+
+  afterEach(async () => {
+    delete process.env['PROJECTS_ROOT'];
+    await fs.remove(projectsRoot);
+  });
+
+  test('keeps the latest runs with their output', async () => {
+    await taskHistoryStore.add(record(1, 0), 'first');
+    await taskHistoryStore.add(record(3, 1), 'third');
+    await taskHistoryStore.add(record(2, 0), 'second');
+
+    const records = await taskHistoryStore.getAll();
+    expect(records.map(r => r.startTime)).toEqual([3, 2]);
+    expect(records[0].exitCode).toBe(1);
+    expect(await fs.readFile(taskHistoryStore.getLogPath(records[1]), 'utf8')).toBe('second');
+    expect(await fs.pathExists(taskHistoryStore.getLogPath(record(1, 0)))).toBe(false);
+  });
+
+  test('removes the error log of the outdated runs', async () => {
+    const errorLogPath = await taskHistoryStore.prepareErrorLog(record(1, 0).id);
+    await fs.writeFile(errorLogPath, 'error');
+    expect(errorLogPath).toBe(taskHistoryStore.getErrorLogPath(record(1, 0)));
+
+    await taskHistoryStore.add(record(1, 0), 'first');
+    await taskHistoryStore.add(record(2, 0), 'second');
+    expect(await fs.readFile(errorLogPath, 'utf8')).toBe('error');
+
+    await taskHistoryStore.add(record(3, 0), 'third');
+    expect(await fs.pathExists(errorLogPath)).toBe(false);
+  });
+
+  test('clears the history', async () => {
+    const listener = jest.fn();
+    taskHistoryStore.onDidChange(listener);
+
+    await taskHistoryStore.add(record(1, 0), 'output');
+    await taskHistoryStore.clear();
+
+    expect(await taskHistoryStore.getAll()).toEqual([]);
+    expect(listener).toBeCalledTimes(2);
+  });
+});